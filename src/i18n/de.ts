@@ -0,0 +1,216 @@
+import { Catalog } from './types';
+
+export const de: Catalog = {
+  language: 'German',
+
+  errors: {
+    NO_TOKEN: 'Kein Token angegeben',
+    INVALID_TOKEN: 'Ungültiges Token',
+    AUTH_FAILED: 'Authentifizierung fehlgeschlagen',
+    ADMIN_REQUIRED: 'Administratorzugriff erforderlich',
+
+    PROFILE_NOT_FOUND: 'Profil nicht gefunden',
+    DISPLAY_NAME_REQUIRED: 'Anzeigename ist erforderlich',
+    INVALID_TIMEZONE: 'Ungültige Zeitzone',
+    INVALID_LOCALE: 'Die Sprache muss eine der folgenden sein: {locales}',
+    INVALID_QUIET_HOURS: 'Die Ruhezeit braucht eine Start- und Endzeit im Format HH:MM',
+
+    HABIT_NOT_FOUND: 'Gewohnheit nicht gefunden',
+    HABIT_ID_REQUIRED: 'Gewohnheits-ID ist erforderlich',
+    HABIT_NAME_AND_CATEGORY_REQUIRED: 'Name und Kategorie der Gewohnheit sind erforderlich',
+    HABIT_NAME_TOO_LONG: 'Der Name der Gewohnheit darf höchstens {max} Zeichen lang sein',
+    INVALID_CATEGORY: 'Ungültige Kategorie',
+    INVALID_START_DATE: 'Das Startdatum muss ein gültiges Datum sein, höchstens {days} Tage in der Vergangenheit',
+    INVALID_PRIVACY_SETTING: 'Ungültige Datenschutzeinstellung',
+    INVALID_GRACE_DAYS: 'Die Kulanztage müssen zwischen 0 und {max} liegen',
+    INVALID_AUTO_FREEZE: 'auto_freeze muss true oder false sein',
+    ACTIVE_HABIT_LIMIT: 'Du kannst höchstens {max} aktive Gewohnheiten haben. Bitte archiviere zuerst eine.',
+    HABIT_IDS_REQUIRED: 'Gewohnheits-IDs sind erforderlich',
+    HABIT_ORDER_MISMATCH: 'Die IDs müssen jede aktive Gewohnheit genau einmal enthalten',
+    SCHEDULE_NOT_OBJECT: 'Der Zeitplan muss ein Objekt sein',
+    INVALID_WEEKDAYS: 'Wochentagspläne brauchen Tage zwischen 0 (Sonntag) und 6 (Samstag)',
+    INVALID_TIMES_PER_WEEK: 'Die Anzahl pro Woche muss zwischen 1 und 7 liegen',
+    INVALID_INTERVAL: 'Das Intervall muss zwischen 1 und 365 Tagen liegen',
+    INVALID_SCHEDULE_TYPE: 'Ungültiger Zeitplantyp',
+    INVALID_TARGET_VALUE: 'Der Zielwert muss eine positive Zahl sein',
+    UNIT_TOO_LONG: 'Die Einheit darf höchstens 20 Zeichen lang sein',
+    INVALID_AGGREGATION: 'Die Aggregation muss sum oder max sein',
+
+    CHECKIN_FIELDS_REQUIRED: 'Gewohnheits-ID und Erledigt-Status sind erforderlich',
+    INVALID_COMPLETED: 'completed muss true oder false sein',
+    VALUE_REQUIRED: 'Für diese Gewohnheit ist ein nicht negativer Wert erforderlich',
+    DATE_REQUIRED: 'Datum ist erforderlich',
+    INVALID_DATE: 'Das Datum muss im Format JJJJ-MM-TT sein',
+    FUTURE_CHECKIN: 'Für ein zukünftiges Datum kann nicht eingecheckt werden',
+    CHECKIN_BEFORE_START: 'Vor dem Start der Gewohnheit kann nicht eingecheckt werden',
+    BACKDATE_LIMIT: 'Check-ins können höchstens {days} Tage rückdatiert werden',
+    REST_DAY_IN_PAST: 'Ruhetage müssen im Voraus angegeben werden',
+    REST_DAY_EXISTS: 'Ruhetag bereits angegeben',
+    REST_DAY_NOT_FOUND: 'Ruhetag nicht gefunden',
+    PAST_REST_DAY: 'Vergangene Ruhetage können nicht entfernt werden',
+    DAY_ALREADY_FROZEN: 'Dieser Tag ist bereits eingefroren',
+    FREEZE_NOT_MISSED: 'Nur vergangene verpasste Tage können eingefroren werden',
+    NO_FREEZES_AVAILABLE: 'Keine Serien-Freezes verfügbar',
+
+    RECEIVER_ID_REQUIRED: 'Empfänger-ID ist erforderlich',
+    SELF_PARTNERSHIP: 'Du kannst dir selbst keine Partnerschaftsanfrage senden',
+    ACTIVE_PARTNERSHIP_EXISTS: 'Du hast bereits eine aktive Partnerschaft',
+    PARTNERSHIP_REQUEST_EXISTS: 'Partnerschaftsanfrage wurde bereits gesendet',
+    PARTNERSHIP_REQUEST_NOT_FOUND: 'Partnerschaftsanfrage nicht gefunden',
+    PARTNERSHIP_NOT_FOUND: 'Partnerschaft nicht gefunden',
+    NO_ACTIVE_PARTNERSHIP: 'Keine aktive Partnerschaft gefunden',
+    NUDGE_PARTNER_CHECKED_IN: 'Dein Partner hat heute bereits eingecheckt',
+    NUDGE_LIMIT: 'Du hast deinen Partner heute schon angestupst',
+    PARTNER_QUIET_HOURS: 'Dein Partner hat Ruhezeit bis {time} Uhr Ortszeit',
+    MESSAGE_FIELDS_REQUIRED: 'Partnerschafts-ID und Nachrichtentext sind erforderlich',
+    MESSAGE_REQUIRED: 'Nachricht ist erforderlich',
+    MESSAGE_TOO_LONG: 'Die Nachricht darf höchstens {max} Zeichen lang sein',
+    MESSAGE_NOT_FOUND: 'Nachricht nicht gefunden',
+    MESSAGES_VIEW_FORBIDDEN: 'Keine Berechtigung, diese Nachrichten anzusehen',
+    MESSAGES_SEND_FORBIDDEN: 'Keine Berechtigung, in dieser Partnerschaft Nachrichten zu senden',
+    MESSAGE_BLOCKED: 'Diese Nachricht kann nicht gesendet werden, da sie gegen die Community-Richtlinien verstößt',
+    HELD_MESSAGE_NOT_FOUND: 'Keine zurückgehaltene Nachricht mit dieser ID',
+    USER_ID_REQUIRED: 'Benutzer-ID ist erforderlich',
+    USER_NOT_FOUND: 'Benutzer nicht gefunden',
+    SELF_BLOCK: 'Du kannst dich nicht selbst blockieren',
+    ALREADY_BLOCKED: 'Du hast diesen Benutzer bereits blockiert',
+    BLOCK_NOT_FOUND: 'Du hast diesen Benutzer nicht blockiert',
+    PARTNERSHIP_REQUEST_BLOCKED: 'Du kannst diesem Benutzer keine Partnerschaftsanfrage senden',
+    SELF_REPORT: 'Du kannst dich nicht selbst melden',
+    INVALID_REPORT_REASON: 'Der Grund muss einer der folgenden sein: {reasons}',
+    INVALID_REPORT_DETAILS: 'Details müssen Text mit höchstens {max} Zeichen sein',
+    INVALID_REPORT_CONTEXT: 'Die Nachricht oder Partnerschaft muss zwischen dir und dem gemeldeten Benutzer bestehen',
+    REPORT_NOT_FOUND: 'Keine offene Meldung mit dieser ID',
+    CIRCLE_NOT_FOUND: 'Kreis nicht gefunden',
+    CIRCLE_NAME_REQUIRED: 'Der Name des Kreises ist erforderlich',
+    CIRCLE_NAME_TOO_LONG: 'Der Name des Kreises darf höchstens {max} Zeichen lang sein',
+    INVITE_CODE_INVALID: 'Dieser Einladungscode gehört zu keinem Kreis',
+    ALREADY_CIRCLE_MEMBER: 'Du bist bereits Mitglied dieses Kreises',
+    CIRCLE_FULL: 'Dieser Kreis ist voll ({max} Mitglieder)',
+    CIRCLE_LIMIT: 'Du kannst höchstens {max} Kreisen angehören',
+    CIRCLE_OWNER_REQUIRED: 'Nur Besitzer des Kreises können das tun',
+    CIRCLE_MEMBER_NOT_FOUND: 'Mitglied in diesem Kreis nicht gefunden',
+    CIRCLE_REMOVE_SELF: 'Verlasse den Kreis, statt dich selbst zu entfernen',
+    INVALID_CIRCLE_ROLE: 'Die Rolle muss owner oder member sein',
+    CIRCLE_LAST_OWNER: 'Mache zuerst ein anderes Mitglied zum Besitzer',
+
+    REFLECTION_FIELDS_REQUIRED: 'Gewohnheits-ID und Wochenbeginn sind erforderlich',
+    REFLECTION_TOO_LONG: 'Die Reflexion darf höchstens 500 Zeichen lang sein',
+    REFLECTION_NOT_FOUND: 'Reflexion nicht gefunden',
+    NOTIFICATION_NOT_FOUND: 'Benachrichtigung nicht gefunden',
+    INVALID_CURSOR: 'Der Cursor muss eine nicht negative ganze Zahl sein',
+
+    AI_DAILY_LIMIT: 'Tageslimit von {limit} {type}-Nachrichten erreicht. Versuche es morgen erneut.',
+    CHAT_DAILY_LIMIT: 'Tageslimit für den Chat erreicht. Versuche es morgen erneut.',
+    AI_RESPONSE_NOT_FOUND: 'KI-Antwort nicht gefunden',
+    AI_GENERATION_FAILED: 'KI-Antwort konnte nicht erstellt werden',
+    INSIGHT_NOT_FOUND: 'Auswertung nicht gefunden',
+    CONVERSATION_NOT_FOUND: 'Unterhaltung nicht gefunden',
+    GOAL_REQUIRED: 'Ziel ist erforderlich',
+    GOAL_TOO_LONG: 'Das Ziel darf höchstens {max} Zeichen lang sein',
+    NO_HABIT_PLAN: 'Für dieses Ziel konnte kein Gewohnheitsplan erstellt werden. Bitte formuliere es anders.',
+    HABIT_PLAN_NOT_FOUND: 'Gewohnheitsplan nicht gefunden',
+    INVALID_SUGGESTION_INDEX: 'Ungültiger Vorschlagsindex',
+    INVALID_MONTH: 'Der Monat muss im Format JJJJ-MM sein',
+    FUTURE_MONTH: 'Ein zukünftiger Monat kann nicht zusammengefasst werden',
+    FEEDBACK_HELPFUL_REQUIRED: 'helpful muss true oder false sein',
+    FEEDBACK_REASON_INVALID: 'reason muss ein Text sein',
+    FEEDBACK_REASON_TOO_LONG: 'reason darf höchstens {max} Zeichen lang sein',
+    RESPONSE_NOT_RATABLE: 'Nur abgeschlossene Antworten können bewertet werden',
+
+    FETCH_PROFILE_FAILED: 'Profil konnte nicht geladen werden',
+    CREATE_PROFILE_FAILED: 'Profil konnte nicht erstellt werden',
+    UPDATE_PROFILE_FAILED: 'Profil konnte nicht aktualisiert werden',
+    DELETE_ACCOUNT_FAILED: 'Konto konnte nicht gelöscht werden',
+    FETCH_HABITS_FAILED: 'Gewohnheiten konnten nicht geladen werden',
+    FETCH_ARCHIVED_HABITS_FAILED: 'Archivierte Gewohnheiten konnten nicht geladen werden',
+    CREATE_HABIT_FAILED: 'Gewohnheit konnte nicht erstellt werden',
+    UPDATE_HABIT_FAILED: 'Gewohnheit konnte nicht aktualisiert werden',
+    ARCHIVE_HABIT_FAILED: 'Gewohnheit konnte nicht archiviert werden',
+    REORDER_HABITS_FAILED: 'Gewohnheiten konnten nicht neu sortiert werden',
+    CREATE_CHECKIN_FAILED: 'Check-in konnte nicht erstellt werden',
+    FETCH_CHECKINS_FAILED: 'Check-ins konnten nicht geladen werden',
+    FETCH_TODAY_CHECKIN_FAILED: 'Der heutige Check-in konnte nicht geladen werden',
+    CALCULATE_STREAK_FAILED: 'Serie konnte nicht berechnet werden',
+    FREEZE_STREAK_FAILED: 'Serie konnte nicht eingefroren werden',
+    FETCH_REST_DAYS_FAILED: 'Ruhetage konnten nicht geladen werden',
+    DECLARE_REST_DAY_FAILED: 'Ruhetag konnte nicht angegeben werden',
+    REMOVE_REST_DAY_FAILED: 'Ruhetag konnte nicht entfernt werden',
+    BROWSE_PARTNERS_FAILED: 'Partner konnten nicht geladen werden',
+    FETCH_PARTNERSHIP_FAILED: 'Partnerschaft konnte nicht geladen werden',
+    CREATE_PARTNERSHIP_REQUEST_FAILED: 'Partnerschaftsanfrage konnte nicht erstellt werden',
+    ACCEPT_PARTNERSHIP_FAILED: 'Partnerschaft konnte nicht angenommen werden',
+    DECLINE_PARTNERSHIP_FAILED: 'Partnerschaft konnte nicht abgelehnt werden',
+    END_PARTNERSHIP_FAILED: 'Partnerschaft konnte nicht beendet werden',
+    SEND_NUDGE_FAILED: 'Anstupser konnte nicht gesendet werden',
+    FETCH_MESSAGES_FAILED: 'Nachrichten konnten nicht geladen werden',
+    SEND_MESSAGE_FAILED: 'Nachricht konnte nicht gesendet werden',
+    MARK_MESSAGE_READ_FAILED: 'Nachricht konnte nicht als gelesen markiert werden',
+    FETCH_MODERATION_QUEUE_FAILED: 'Moderationswarteschlange konnte nicht geladen werden',
+    REVIEW_MESSAGE_FAILED: 'Nachricht konnte nicht geprüft werden',
+    FETCH_BLOCKS_FAILED: 'Blockierte Benutzer konnten nicht abgerufen werden',
+    BLOCK_USER_FAILED: 'Benutzer konnte nicht blockiert werden',
+    UNBLOCK_USER_FAILED: 'Blockierung konnte nicht aufgehoben werden',
+    CREATE_REPORT_FAILED: 'Meldung konnte nicht gesendet werden',
+    FETCH_REPORTS_FAILED: 'Meldungen konnten nicht abgerufen werden',
+    REVIEW_REPORT_FAILED: 'Meldung konnte nicht geprüft werden',
+    FETCH_CIRCLES_FAILED: 'Kreise konnten nicht abgerufen werden',
+    CREATE_CIRCLE_FAILED: 'Kreis konnte nicht erstellt werden',
+    FETCH_CIRCLE_FAILED: 'Kreis konnte nicht abgerufen werden',
+    JOIN_CIRCLE_FAILED: 'Beitritt zum Kreis fehlgeschlagen',
+    LEAVE_CIRCLE_FAILED: 'Verlassen des Kreises fehlgeschlagen',
+    RESET_INVITE_CODE_FAILED: 'Einladungscode konnte nicht zurückgesetzt werden',
+    UPDATE_CIRCLE_MEMBER_FAILED: 'Kreismitglied konnte nicht aktualisiert werden',
+    REMOVE_CIRCLE_MEMBER_FAILED: 'Kreismitglied konnte nicht entfernt werden',
+    FETCH_REFLECTIONS_FAILED: 'Reflexionen konnten nicht geladen werden',
+    CREATE_REFLECTION_FAILED: 'Reflexion konnte nicht erstellt werden',
+    UPDATE_REFLECTION_FAILED: 'Reflexion konnte nicht aktualisiert werden',
+    FETCH_NOTIFICATIONS_FAILED: 'Benachrichtigungen konnten nicht geladen werden',
+    MARK_NOTIFICATION_READ_FAILED: 'Benachrichtigung konnte nicht als gelesen markiert werden',
+    MARK_ALL_NOTIFICATIONS_READ_FAILED: 'Benachrichtigungen konnten nicht als gelesen markiert werden',
+    FETCH_EVENTS_FAILED: 'Ereignisse konnten nicht abgerufen werden',
+    REALTIME_STREAM_FAILED: 'Der Ereignisstream ist fehlgeschlagen. Verbinde dich erneut, um fortzufahren.',
+    FETCH_ANALYTICS_FAILED: 'Statistiken konnten nicht geladen werden',
+    FETCH_WEEKLY_ANALYTICS_FAILED: 'Wochenstatistiken konnten nicht geladen werden',
+    FETCH_MONTHLY_ANALYTICS_FAILED: 'Monatsstatistiken konnten nicht geladen werden',
+    FETCH_NUDGE_ANALYTICS_FAILED: 'Anstupser-Statistiken konnten nicht abgerufen werden',
+    FETCH_PARTNERSHIP_ANALYTICS_FAILED: 'Partnerschaftsstatistiken konnten nicht abgerufen werden',
+    GENERATE_ENCOURAGEMENT_FAILED: 'Ermutigung konnte nicht erstellt werden',
+    GENERATE_WEEKLY_INSIGHT_FAILED: 'Wochenauswertung konnte nicht erstellt werden',
+    GENERATE_SUPPORT_MESSAGE_FAILED: 'Unterstützungsnachricht konnte nicht erstellt werden',
+    GENERATE_MONTHLY_SUMMARY_FAILED: 'Monatszusammenfassung konnte nicht erstellt werden',
+    GENERATE_HABIT_PLAN_FAILED: 'Gewohnheitsplan konnte nicht erstellt werden',
+    FETCH_AI_RESPONSE_FAILED: 'KI-Antwort konnte nicht geladen werden',
+    STREAM_AI_RESPONSE_FAILED: 'KI-Antwort konnte nicht gestreamt werden',
+    SAVE_FEEDBACK_FAILED: 'Feedback konnte nicht gespeichert werden',
+    FETCH_PROMPT_REPORT_FAILED: 'Prompt-Bericht konnte nicht geladen werden',
+    FETCH_AI_USAGE_FAILED: 'KI-Nutzung konnte nicht geladen werden',
+    FETCH_INSIGHTS_FAILED: 'Auswertungen konnten nicht geladen werden',
+    FETCH_INSIGHT_FAILED: 'Auswertung konnte nicht geladen werden',
+    SEND_CHAT_MESSAGE_FAILED: 'Chatnachricht konnte nicht gesendet werden',
+    FETCH_CONVERSATIONS_FAILED: 'Unterhaltungen konnten nicht geladen werden',
+    FETCH_CONVERSATION_FAILED: 'Unterhaltung konnte nicht geladen werden'
+  },
+
+  notices: {
+    MESSAGE_HELD_FOR_REVIEW: 'Deine Nachricht wird zugestellt, sobald sie geprüft wurde'
+  },
+
+  matchReasons: {
+    SAME_CATEGORY: 'Ihr arbeitet beide an Gewohnheiten im Bereich {category}',
+    SHARED_INTERESTS: 'Ihr interessiert euch beide für {categories}',
+    SAME_TIMEZONE: 'Ihr seid in derselben Zeitzone',
+    NEARBY_TIMEZONE: 'Zwischen euch liegen nur {hours} Std.',
+    SIMILAR_CHECKIN_TIME: 'Ihr checkt beide meist gegen {time} ein',
+    SIMILAR_CONSISTENCY: 'Ihr bleibt ungefähr gleich regelmäßig dran',
+    LOOKING_FOR_PARTNER: 'Ihr sucht beide einen Accountability-Partner'
+  },
+
+  fallbacks: {
+    'encouragement': 'Super gemacht mit deinem Check-in! Bleib dran und bau deinen Schwung weiter aus. 💪',
+    'weekly-insight': 'Wieder eine Woche geschafft! Schau zurück, welche Tage gut liefen, und plane eine kleine Änderung für nächste Woche.',
+    'streak-break': 'Ein verpasster Tag löscht deinen Fortschritt nicht aus. Check morgen ein und starte deine nächste Serie. 💪',
+    'chat': 'Entschuldige, mir ist gerade keine Antwort eingefallen. Bitte versuche es gleich noch einmal.',
+    'monthly-summary': 'Du hast diesen Monat viel geschrieben. Lies deine Notizen noch einmal und achte auf die Tage, die sich am leichtesten angefühlt haben - sie geben Hinweise für den nächsten Monat.'
+  }
+};
@@ -0,0 +1,230 @@
+// English is the source catalog: its error keys are the error codes every
+// other locale translates. {name} placeholders are filled in from params.
+export const en = {
+  language: 'English',
+
+  errors: {
+    // Auth
+    NO_TOKEN: 'No token provided',
+    INVALID_TOKEN: 'Invalid token',
+    AUTH_FAILED: 'Authentication failed',
+    ADMIN_REQUIRED: 'Admin access required',
+
+    // Profile
+    PROFILE_NOT_FOUND: 'Profile not found',
+    DISPLAY_NAME_REQUIRED: 'Display name is required',
+    INVALID_TIMEZONE: 'Invalid timezone',
+    INVALID_LOCALE: 'Locale must be one of: {locales}',
+    INVALID_QUIET_HOURS: 'Quiet hours need both a start and an end time in HH:MM format',
+
+    // Habits
+    HABIT_NOT_FOUND: 'Habit not found',
+    HABIT_ID_REQUIRED: 'Habit ID is required',
+    HABIT_NAME_AND_CATEGORY_REQUIRED: 'Habit name and category are required',
+    HABIT_NAME_TOO_LONG: 'Habit name must be {max} characters or less',
+    INVALID_CATEGORY: 'Invalid category',
+    INVALID_START_DATE: 'Start date must be a valid date no more than {days} days ago',
+    INVALID_PRIVACY_SETTING: 'Invalid privacy setting',
+    INVALID_GRACE_DAYS: 'Grace days must be between 0 and {max}',
+    INVALID_AUTO_FREEZE: 'auto_freeze must be true or false',
+    ACTIVE_HABIT_LIMIT: 'You can have at most {max} active habits. Please archive one first.',
+    HABIT_IDS_REQUIRED: 'Habit IDs are required',
+    HABIT_ORDER_MISMATCH: 'Habit IDs must list each active habit exactly once',
+    SCHEDULE_NOT_OBJECT: 'Schedule must be an object',
+    INVALID_WEEKDAYS: 'Weekday schedules need days between 0 (Sunday) and 6 (Saturday)',
+    INVALID_TIMES_PER_WEEK: 'Times per week must be between 1 and 7',
+    INVALID_INTERVAL: 'Interval must be between 1 and 365 days',
+    INVALID_SCHEDULE_TYPE: 'Invalid schedule type',
+    INVALID_TARGET_VALUE: 'Target value must be a positive number',
+    UNIT_TOO_LONG: 'Unit must be 20 characters or less',
+    INVALID_AGGREGATION: 'Aggregation must be sum or max',
+
+    // Check-ins, rest days and freezes
+    CHECKIN_FIELDS_REQUIRED: 'Habit ID and completed status are required',
+    INVALID_COMPLETED: 'completed must be true or false',
+    VALUE_REQUIRED: 'A non-negative value is required for this habit',
+    DATE_REQUIRED: 'Date is required',
+    INVALID_DATE: 'Date must be in YYYY-MM-DD format',
+    FUTURE_CHECKIN: 'Cannot check in for a future date',
+    CHECKIN_BEFORE_START: 'Cannot check in before the habit started',
+    BACKDATE_LIMIT: 'Check-ins can only be backdated up to {days} days',
+    REST_DAY_IN_PAST: 'Rest days must be declared ahead of time',
+    REST_DAY_EXISTS: 'Rest day already declared',
+    REST_DAY_NOT_FOUND: 'Rest day not found',
+    PAST_REST_DAY: 'Past rest days cannot be removed',
+    DAY_ALREADY_FROZEN: 'This day is already frozen',
+    FREEZE_NOT_MISSED: 'Only past missed days can be frozen',
+    NO_FREEZES_AVAILABLE: 'No streak freezes available',
+
+    // Partnerships and messages
+    RECEIVER_ID_REQUIRED: 'Receiver ID is required',
+    SELF_PARTNERSHIP: 'Cannot request partnership with yourself',
+    ACTIVE_PARTNERSHIP_EXISTS: 'You already have an active partnership',
+    PARTNERSHIP_REQUEST_EXISTS: 'Partnership request already sent',
+    PARTNERSHIP_REQUEST_NOT_FOUND: 'Partnership request not found',
+    PARTNERSHIP_NOT_FOUND: 'Partnership not found',
+    NO_ACTIVE_PARTNERSHIP: 'No active partnership found',
+    NUDGE_PARTNER_CHECKED_IN: 'Your partner has already checked in today',
+    NUDGE_LIMIT: 'You\'ve already nudged your partner today',
+    PARTNER_QUIET_HOURS: 'Your partner has quiet hours until {time} their time',
+    MESSAGE_FIELDS_REQUIRED: 'Partnership ID and message text are required',
+    MESSAGE_REQUIRED: 'Message is required',
+    MESSAGE_TOO_LONG: 'Message must be {max} characters or less',
+    MESSAGE_NOT_FOUND: 'Message not found',
+    MESSAGES_VIEW_FORBIDDEN: 'Not authorized to view these messages',
+    MESSAGES_SEND_FORBIDDEN: 'Not authorized to send messages in this partnership',
+    MESSAGE_BLOCKED: 'This message can\'t be sent because it breaks the community guidelines',
+    HELD_MESSAGE_NOT_FOUND: 'No held message with this ID',
+
+    // Blocks and reports
+    USER_ID_REQUIRED: 'User ID is required',
+    USER_NOT_FOUND: 'User not found',
+    SELF_BLOCK: 'You can\'t block yourself',
+    ALREADY_BLOCKED: 'You\'ve already blocked this user',
+    BLOCK_NOT_FOUND: 'You haven\'t blocked this user',
+    PARTNERSHIP_REQUEST_BLOCKED: 'You can\'t send a partnership request to this user',
+    SELF_REPORT: 'You can\'t report yourself',
+    INVALID_REPORT_REASON: 'Reason must be one of: {reasons}',
+    INVALID_REPORT_DETAILS: 'Details must be text of {max} characters or less',
+    INVALID_REPORT_CONTEXT: 'The message or partnership must be between you and the reported user',
+    REPORT_NOT_FOUND: 'No open report with this ID',
+
+    // Circles
+    CIRCLE_NOT_FOUND: 'Circle not found',
+    CIRCLE_NAME_REQUIRED: 'Circle name is required',
+    CIRCLE_NAME_TOO_LONG: 'Circle name must be {max} characters or less',
+    INVITE_CODE_INVALID: 'That invite code doesn\'t match any circle',
+    ALREADY_CIRCLE_MEMBER: 'You\'re already a member of this circle',
+    CIRCLE_FULL: 'This circle is full ({max} members)',
+    CIRCLE_LIMIT: 'You can be in at most {max} circles',
+    CIRCLE_OWNER_REQUIRED: 'Only circle owners can do this',
+    CIRCLE_MEMBER_NOT_FOUND: 'Member not found in this circle',
+    CIRCLE_REMOVE_SELF: 'Leave the circle instead of removing yourself',
+    INVALID_CIRCLE_ROLE: 'Role must be owner or member',
+    CIRCLE_LAST_OWNER: 'Make another member an owner first',
+
+    // Reflections, notifications and events
+    REFLECTION_FIELDS_REQUIRED: 'Habit ID and week start date are required',
+    REFLECTION_TOO_LONG: 'Reflection text must be 500 characters or less',
+    REFLECTION_NOT_FOUND: 'Reflection not found',
+    NOTIFICATION_NOT_FOUND: 'Notification not found',
+    INVALID_CURSOR: 'Cursor must be a non-negative integer',
+
+    // AI
+    AI_DAILY_LIMIT: 'Daily limit of {limit} {type} messages reached. Try again tomorrow.',
+    CHAT_DAILY_LIMIT: 'Daily chat limit reached. Try again tomorrow.',
+    AI_RESPONSE_NOT_FOUND: 'AI response not found',
+    AI_GENERATION_FAILED: 'Failed to generate AI response',
+    INSIGHT_NOT_FOUND: 'Insight not found',
+    CONVERSATION_NOT_FOUND: 'Conversation not found',
+    GOAL_REQUIRED: 'Goal is required',
+    GOAL_TOO_LONG: 'Goal must be at most {max} characters',
+    NO_HABIT_PLAN: 'Could not come up with a habit plan for this goal. Please try rephrasing it.',
+    HABIT_PLAN_NOT_FOUND: 'Habit plan not found',
+    INVALID_SUGGESTION_INDEX: 'Invalid suggestion index',
+    INVALID_MONTH: 'Month must be in YYYY-MM format',
+    FUTURE_MONTH: 'Cannot summarize a future month',
+    FEEDBACK_HELPFUL_REQUIRED: 'helpful must be true or false',
+    FEEDBACK_REASON_INVALID: 'reason must be a string',
+    FEEDBACK_REASON_TOO_LONG: 'reason must be at most {max} characters',
+    RESPONSE_NOT_RATABLE: 'Only completed responses can be rated',
+
+    // Server errors
+    FETCH_PROFILE_FAILED: 'Failed to fetch profile',
+    CREATE_PROFILE_FAILED: 'Failed to create profile',
+    UPDATE_PROFILE_FAILED: 'Failed to update profile',
+    DELETE_ACCOUNT_FAILED: 'Failed to delete account',
+    FETCH_HABITS_FAILED: 'Failed to fetch habits',
+    FETCH_ARCHIVED_HABITS_FAILED: 'Failed to fetch archived habits',
+    CREATE_HABIT_FAILED: 'Failed to create habit',
+    UPDATE_HABIT_FAILED: 'Failed to update habit',
+    ARCHIVE_HABIT_FAILED: 'Failed to archive habit',
+    REORDER_HABITS_FAILED: 'Failed to reorder habits',
+    CREATE_CHECKIN_FAILED: 'Failed to create check-in',
+    FETCH_CHECKINS_FAILED: 'Failed to fetch check-ins',
+    FETCH_TODAY_CHECKIN_FAILED: 'Failed to fetch today\'s check-in',
+    CALCULATE_STREAK_FAILED: 'Failed to calculate streak',
+    FREEZE_STREAK_FAILED: 'Failed to freeze streak',
+    FETCH_REST_DAYS_FAILED: 'Failed to fetch rest days',
+    DECLARE_REST_DAY_FAILED: 'Failed to declare rest day',
+    REMOVE_REST_DAY_FAILED: 'Failed to remove rest day',
+    BROWSE_PARTNERS_FAILED: 'Failed to browse partners',
+    FETCH_PARTNERSHIP_FAILED: 'Failed to fetch partnership',
+    CREATE_PARTNERSHIP_REQUEST_FAILED: 'Failed to create partnership request',
+    ACCEPT_PARTNERSHIP_FAILED: 'Failed to accept partnership',
+    DECLINE_PARTNERSHIP_FAILED: 'Failed to decline partnership',
+    END_PARTNERSHIP_FAILED: 'Failed to end partnership',
+    SEND_NUDGE_FAILED: 'Failed to send nudge',
+    FETCH_MESSAGES_FAILED: 'Failed to fetch messages',
+    SEND_MESSAGE_FAILED: 'Failed to send message',
+    MARK_MESSAGE_READ_FAILED: 'Failed to mark message as read',
+    FETCH_MODERATION_QUEUE_FAILED: 'Failed to fetch moderation queue',
+    REVIEW_MESSAGE_FAILED: 'Failed to review message',
+    FETCH_BLOCKS_FAILED: 'Failed to fetch blocked users',
+    BLOCK_USER_FAILED: 'Failed to block user',
+    UNBLOCK_USER_FAILED: 'Failed to unblock user',
+    CREATE_REPORT_FAILED: 'Failed to submit report',
+    FETCH_REPORTS_FAILED: 'Failed to fetch reports',
+    REVIEW_REPORT_FAILED: 'Failed to review report',
+    FETCH_CIRCLES_FAILED: 'Failed to fetch circles',
+    CREATE_CIRCLE_FAILED: 'Failed to create circle',
+    FETCH_CIRCLE_FAILED: 'Failed to fetch circle',
+    JOIN_CIRCLE_FAILED: 'Failed to join circle',
+    LEAVE_CIRCLE_FAILED: 'Failed to leave circle',
+    RESET_INVITE_CODE_FAILED: 'Failed to reset invite code',
+    UPDATE_CIRCLE_MEMBER_FAILED: 'Failed to update circle member',
+    REMOVE_CIRCLE_MEMBER_FAILED: 'Failed to remove circle member',
+    FETCH_REFLECTIONS_FAILED: 'Failed to fetch reflections',
+    CREATE_REFLECTION_FAILED: 'Failed to create reflection',
+    UPDATE_REFLECTION_FAILED: 'Failed to update reflection',
+    FETCH_NOTIFICATIONS_FAILED: 'Failed to fetch notifications',
+    MARK_NOTIFICATION_READ_FAILED: 'Failed to mark notification as read',
+    MARK_ALL_NOTIFICATIONS_READ_FAILED: 'Failed to mark all notifications as read',
+    FETCH_EVENTS_FAILED: 'Failed to fetch events',
+    REALTIME_STREAM_FAILED: 'Event stream failed. Reconnect to resume.',
+    FETCH_ANALYTICS_FAILED: 'Failed to fetch analytics',
+    FETCH_WEEKLY_ANALYTICS_FAILED: 'Failed to fetch weekly analytics',
+    FETCH_MONTHLY_ANALYTICS_FAILED: 'Failed to fetch monthly analytics',
+    FETCH_NUDGE_ANALYTICS_FAILED: 'Failed to fetch nudge analytics',
+    FETCH_PARTNERSHIP_ANALYTICS_FAILED: 'Failed to fetch partnership analytics',
+    GENERATE_ENCOURAGEMENT_FAILED: 'Failed to generate encouragement',
+    GENERATE_WEEKLY_INSIGHT_FAILED: 'Failed to generate weekly insight',
+    GENERATE_SUPPORT_MESSAGE_FAILED: 'Failed to generate support message',
+    GENERATE_MONTHLY_SUMMARY_FAILED: 'Failed to generate monthly summary',
+    GENERATE_HABIT_PLAN_FAILED: 'Failed to generate habit plan',
+    FETCH_AI_RESPONSE_FAILED: 'Failed to fetch AI response',
+    STREAM_AI_RESPONSE_FAILED: 'Failed to stream AI response',
+    SAVE_FEEDBACK_FAILED: 'Failed to save feedback',
+    FETCH_PROMPT_REPORT_FAILED: 'Failed to fetch prompt report',
+    FETCH_AI_USAGE_FAILED: 'Failed to fetch AI usage',
+    FETCH_INSIGHTS_FAILED: 'Failed to fetch insights',
+    FETCH_INSIGHT_FAILED: 'Failed to fetch insight',
+    SEND_CHAT_MESSAGE_FAILED: 'Failed to send chat message',
+    FETCH_CONVERSATIONS_FAILED: 'Failed to fetch conversations',
+    FETCH_CONVERSATION_FAILED: 'Failed to fetch conversation'
+  },
+
+  notices: {
+    MESSAGE_HELD_FOR_REVIEW: 'Your message will be delivered once it has been reviewed'
+  },
+
+  // Why a candidate was suggested as a partner
+  matchReasons: {
+    SAME_CATEGORY: 'You both work on {category} habits',
+    SHARED_INTERESTS: 'You share an interest in {categories}',
+    SAME_TIMEZONE: 'You\'re in the same time zone',
+    NEARBY_TIMEZONE: 'You\'re only {hours}h apart',
+    SIMILAR_CHECKIN_TIME: 'You both tend to check in around {time}',
+    SIMILAR_CONSISTENCY: 'You keep up your habits about equally often',
+    LOOKING_FOR_PARTNER: 'You\'re both looking for an accountability partner'
+  },
+
+  // Shown when the AI provider fails or its reply is rejected
+  fallbacks: {
+    'encouragement': 'Great job on your check-in! Keep building that habit momentum. 💪',
+    'weekly-insight': 'Another week in the books! Look back at which days went well and plan one small change for next week.',
+    'streak-break': 'A missed day doesn\'t erase your progress. Check in tomorrow and start your next streak. 💪',
+    'chat': 'Sorry, I couldn\'t come up with a reply just now. Please try again in a moment.',
+    'monthly-summary': 'You wrote a lot this month. Read back through your notes and look for the days that felt easiest - they hold clues for next month.'
+  }
+};
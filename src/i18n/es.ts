@@ -0,0 +1,216 @@
+import { Catalog } from './types';
+
+export const es: Catalog = {
+  language: 'Spanish',
+
+  errors: {
+    NO_TOKEN: 'No se proporcionó ningún token',
+    INVALID_TOKEN: 'Token no válido',
+    AUTH_FAILED: 'Error de autenticación',
+    ADMIN_REQUIRED: 'Se requiere acceso de administrador',
+
+    PROFILE_NOT_FOUND: 'Perfil no encontrado',
+    DISPLAY_NAME_REQUIRED: 'El nombre visible es obligatorio',
+    INVALID_TIMEZONE: 'Zona horaria no válida',
+    INVALID_LOCALE: 'El idioma debe ser uno de: {locales}',
+    INVALID_QUIET_HOURS: 'Las horas de silencio necesitan una hora de inicio y de fin en formato HH:MM',
+
+    HABIT_NOT_FOUND: 'Hábito no encontrado',
+    HABIT_ID_REQUIRED: 'El ID del hábito es obligatorio',
+    HABIT_NAME_AND_CATEGORY_REQUIRED: 'El nombre y la categoría del hábito son obligatorios',
+    HABIT_NAME_TOO_LONG: 'El nombre del hábito debe tener como máximo {max} caracteres',
+    INVALID_CATEGORY: 'Categoría no válida',
+    INVALID_START_DATE: 'La fecha de inicio debe ser una fecha válida de hace no más de {days} días',
+    INVALID_PRIVACY_SETTING: 'Configuración de privacidad no válida',
+    INVALID_GRACE_DAYS: 'Los días de gracia deben estar entre 0 y {max}',
+    INVALID_AUTO_FREEZE: 'auto_freeze debe ser true o false',
+    ACTIVE_HABIT_LIMIT: 'Puedes tener como máximo {max} hábitos activos. Archiva uno primero.',
+    HABIT_IDS_REQUIRED: 'Los IDs de los hábitos son obligatorios',
+    HABIT_ORDER_MISMATCH: 'Los IDs deben incluir cada hábito activo exactamente una vez',
+    SCHEDULE_NOT_OBJECT: 'La programación debe ser un objeto',
+    INVALID_WEEKDAYS: 'Las programaciones semanales necesitan días entre 0 (domingo) y 6 (sábado)',
+    INVALID_TIMES_PER_WEEK: 'Las veces por semana deben estar entre 1 y 7',
+    INVALID_INTERVAL: 'El intervalo debe estar entre 1 y 365 días',
+    INVALID_SCHEDULE_TYPE: 'Tipo de programación no válido',
+    INVALID_TARGET_VALUE: 'El valor objetivo debe ser un número positivo',
+    UNIT_TOO_LONG: 'La unidad debe tener como máximo 20 caracteres',
+    INVALID_AGGREGATION: 'La agregación debe ser sum o max',
+
+    CHECKIN_FIELDS_REQUIRED: 'El ID del hábito y el estado de cumplimiento son obligatorios',
+    INVALID_COMPLETED: 'completed debe ser true o false',
+    VALUE_REQUIRED: 'Este hábito requiere un valor no negativo',
+    DATE_REQUIRED: 'La fecha es obligatoria',
+    INVALID_DATE: 'La fecha debe tener el formato AAAA-MM-DD',
+    FUTURE_CHECKIN: 'No puedes registrar una fecha futura',
+    CHECKIN_BEFORE_START: 'No puedes registrar antes de que empezara el hábito',
+    BACKDATE_LIMIT: 'Solo puedes registrar días pasados hasta {days} días atrás',
+    REST_DAY_IN_PAST: 'Los días de descanso deben declararse con antelación',
+    REST_DAY_EXISTS: 'El día de descanso ya está declarado',
+    REST_DAY_NOT_FOUND: 'Día de descanso no encontrado',
+    PAST_REST_DAY: 'No se pueden eliminar días de descanso pasados',
+    DAY_ALREADY_FROZEN: 'Este día ya está congelado',
+    FREEZE_NOT_MISSED: 'Solo se pueden congelar días pasados sin registrar',
+    NO_FREEZES_AVAILABLE: 'No tienes congelaciones de racha disponibles',
+
+    RECEIVER_ID_REQUIRED: 'El ID del destinatario es obligatorio',
+    SELF_PARTNERSHIP: 'No puedes enviarte una solicitud de compañero a ti mismo',
+    ACTIVE_PARTNERSHIP_EXISTS: 'Ya tienes un compañero activo',
+    PARTNERSHIP_REQUEST_EXISTS: 'La solicitud de compañero ya fue enviada',
+    PARTNERSHIP_REQUEST_NOT_FOUND: 'Solicitud de compañero no encontrada',
+    PARTNERSHIP_NOT_FOUND: 'Compañero no encontrado',
+    NO_ACTIVE_PARTNERSHIP: 'No tienes ningún compañero activo',
+    NUDGE_PARTNER_CHECKED_IN: 'Tu compañero ya se registró hoy',
+    NUDGE_LIMIT: 'Ya le diste un toque a tu compañero hoy',
+    PARTNER_QUIET_HOURS: 'Tu compañero está en horas de silencio hasta las {time} en su hora local',
+    MESSAGE_FIELDS_REQUIRED: 'El ID del compañero y el texto del mensaje son obligatorios',
+    MESSAGE_REQUIRED: 'El mensaje es obligatorio',
+    MESSAGE_TOO_LONG: 'El mensaje debe tener como máximo {max} caracteres',
+    MESSAGE_NOT_FOUND: 'Mensaje no encontrado',
+    MESSAGES_VIEW_FORBIDDEN: 'No tienes permiso para ver estos mensajes',
+    MESSAGES_SEND_FORBIDDEN: 'No tienes permiso para enviar mensajes a este compañero',
+    MESSAGE_BLOCKED: 'Este mensaje no se puede enviar porque incumple las normas de la comunidad',
+    HELD_MESSAGE_NOT_FOUND: 'No hay ningún mensaje retenido con este ID',
+    USER_ID_REQUIRED: 'El ID de usuario es obligatorio',
+    USER_NOT_FOUND: 'Usuario no encontrado',
+    SELF_BLOCK: 'No puedes bloquearte a ti mismo',
+    ALREADY_BLOCKED: 'Ya has bloqueado a este usuario',
+    BLOCK_NOT_FOUND: 'No has bloqueado a este usuario',
+    PARTNERSHIP_REQUEST_BLOCKED: 'No puedes enviar una solicitud de compañero a este usuario',
+    SELF_REPORT: 'No puedes denunciarte a ti mismo',
+    INVALID_REPORT_REASON: 'El motivo debe ser uno de: {reasons}',
+    INVALID_REPORT_DETAILS: 'Los detalles deben ser un texto de {max} caracteres como máximo',
+    INVALID_REPORT_CONTEXT: 'El mensaje o la asociación deben ser entre tú y el usuario denunciado',
+    REPORT_NOT_FOUND: 'No hay ninguna denuncia abierta con este ID',
+    CIRCLE_NOT_FOUND: 'Círculo no encontrado',
+    CIRCLE_NAME_REQUIRED: 'El nombre del círculo es obligatorio',
+    CIRCLE_NAME_TOO_LONG: 'El nombre del círculo debe tener {max} caracteres o menos',
+    INVITE_CODE_INVALID: 'Ese código de invitación no corresponde a ningún círculo',
+    ALREADY_CIRCLE_MEMBER: 'Ya eres miembro de este círculo',
+    CIRCLE_FULL: 'Este círculo está completo ({max} miembros)',
+    CIRCLE_LIMIT: 'Puedes estar como máximo en {max} círculos',
+    CIRCLE_OWNER_REQUIRED: 'Solo los propietarios del círculo pueden hacer esto',
+    CIRCLE_MEMBER_NOT_FOUND: 'Miembro no encontrado en este círculo',
+    CIRCLE_REMOVE_SELF: 'Abandona el círculo en lugar de eliminarte',
+    INVALID_CIRCLE_ROLE: 'El rol debe ser owner o member',
+    CIRCLE_LAST_OWNER: 'Primero nombra propietario a otro miembro',
+
+    REFLECTION_FIELDS_REQUIRED: 'El ID del hábito y la fecha de inicio de la semana son obligatorios',
+    REFLECTION_TOO_LONG: 'La reflexión debe tener como máximo 500 caracteres',
+    REFLECTION_NOT_FOUND: 'Reflexión no encontrada',
+    NOTIFICATION_NOT_FOUND: 'Notificación no encontrada',
+    INVALID_CURSOR: 'El cursor debe ser un número entero no negativo',
+
+    AI_DAILY_LIMIT: 'Has alcanzado el límite diario de {limit} mensajes de tipo {type}. Inténtalo de nuevo mañana.',
+    CHAT_DAILY_LIMIT: 'Has alcanzado el límite diario del chat. Inténtalo de nuevo mañana.',
+    AI_RESPONSE_NOT_FOUND: 'Respuesta de IA no encontrada',
+    AI_GENERATION_FAILED: 'No se pudo generar la respuesta de IA',
+    INSIGHT_NOT_FOUND: 'Análisis no encontrado',
+    CONVERSATION_NOT_FOUND: 'Conversación no encontrada',
+    GOAL_REQUIRED: 'El objetivo es obligatorio',
+    GOAL_TOO_LONG: 'El objetivo debe tener como máximo {max} caracteres',
+    NO_HABIT_PLAN: 'No se pudo crear un plan de hábitos para este objetivo. Prueba a formularlo de otra manera.',
+    HABIT_PLAN_NOT_FOUND: 'Plan de hábitos no encontrado',
+    INVALID_SUGGESTION_INDEX: 'Índice de sugerencia no válido',
+    INVALID_MONTH: 'El mes debe tener el formato AAAA-MM',
+    FUTURE_MONTH: 'No se puede resumir un mes futuro',
+    FEEDBACK_HELPFUL_REQUIRED: 'helpful debe ser true o false',
+    FEEDBACK_REASON_INVALID: 'reason debe ser un texto',
+    FEEDBACK_REASON_TOO_LONG: 'reason debe tener como máximo {max} caracteres',
+    RESPONSE_NOT_RATABLE: 'Solo se pueden valorar respuestas completadas',
+
+    FETCH_PROFILE_FAILED: 'No se pudo obtener el perfil',
+    CREATE_PROFILE_FAILED: 'No se pudo crear el perfil',
+    UPDATE_PROFILE_FAILED: 'No se pudo actualizar el perfil',
+    DELETE_ACCOUNT_FAILED: 'No se pudo eliminar la cuenta',
+    FETCH_HABITS_FAILED: 'No se pudieron obtener los hábitos',
+    FETCH_ARCHIVED_HABITS_FAILED: 'No se pudieron obtener los hábitos archivados',
+    CREATE_HABIT_FAILED: 'No se pudo crear el hábito',
+    UPDATE_HABIT_FAILED: 'No se pudo actualizar el hábito',
+    ARCHIVE_HABIT_FAILED: 'No se pudo archivar el hábito',
+    REORDER_HABITS_FAILED: 'No se pudieron reordenar los hábitos',
+    CREATE_CHECKIN_FAILED: 'No se pudo crear el registro',
+    FETCH_CHECKINS_FAILED: 'No se pudieron obtener los registros',
+    FETCH_TODAY_CHECKIN_FAILED: 'No se pudo obtener el registro de hoy',
+    CALCULATE_STREAK_FAILED: 'No se pudo calcular la racha',
+    FREEZE_STREAK_FAILED: 'No se pudo congelar la racha',
+    FETCH_REST_DAYS_FAILED: 'No se pudieron obtener los días de descanso',
+    DECLARE_REST_DAY_FAILED: 'No se pudo declarar el día de descanso',
+    REMOVE_REST_DAY_FAILED: 'No se pudo eliminar el día de descanso',
+    BROWSE_PARTNERS_FAILED: 'No se pudieron buscar compañeros',
+    FETCH_PARTNERSHIP_FAILED: 'No se pudo obtener el compañero',
+    CREATE_PARTNERSHIP_REQUEST_FAILED: 'No se pudo crear la solicitud de compañero',
+    ACCEPT_PARTNERSHIP_FAILED: 'No se pudo aceptar la solicitud',
+    DECLINE_PARTNERSHIP_FAILED: 'No se pudo rechazar la solicitud',
+    END_PARTNERSHIP_FAILED: 'No se pudo terminar la relación de compañeros',
+    SEND_NUDGE_FAILED: 'No se pudo enviar el toque',
+    FETCH_MESSAGES_FAILED: 'No se pudieron obtener los mensajes',
+    SEND_MESSAGE_FAILED: 'No se pudo enviar el mensaje',
+    MARK_MESSAGE_READ_FAILED: 'No se pudo marcar el mensaje como leído',
+    FETCH_MODERATION_QUEUE_FAILED: 'No se pudo obtener la cola de moderación',
+    REVIEW_MESSAGE_FAILED: 'No se pudo revisar el mensaje',
+    FETCH_BLOCKS_FAILED: 'No se pudieron obtener los usuarios bloqueados',
+    BLOCK_USER_FAILED: 'No se pudo bloquear al usuario',
+    UNBLOCK_USER_FAILED: 'No se pudo desbloquear al usuario',
+    CREATE_REPORT_FAILED: 'No se pudo enviar la denuncia',
+    FETCH_REPORTS_FAILED: 'No se pudieron obtener las denuncias',
+    REVIEW_REPORT_FAILED: 'No se pudo revisar la denuncia',
+    FETCH_CIRCLES_FAILED: 'No se pudieron obtener los círculos',
+    CREATE_CIRCLE_FAILED: 'No se pudo crear el círculo',
+    FETCH_CIRCLE_FAILED: 'No se pudo obtener el círculo',
+    JOIN_CIRCLE_FAILED: 'No se pudo unir al círculo',
+    LEAVE_CIRCLE_FAILED: 'No se pudo abandonar el círculo',
+    RESET_INVITE_CODE_FAILED: 'No se pudo restablecer el código de invitación',
+    UPDATE_CIRCLE_MEMBER_FAILED: 'No se pudo actualizar el miembro del círculo',
+    REMOVE_CIRCLE_MEMBER_FAILED: 'No se pudo eliminar el miembro del círculo',
+    FETCH_REFLECTIONS_FAILED: 'No se pudieron obtener las reflexiones',
+    CREATE_REFLECTION_FAILED: 'No se pudo crear la reflexión',
+    UPDATE_REFLECTION_FAILED: 'No se pudo actualizar la reflexión',
+    FETCH_NOTIFICATIONS_FAILED: 'No se pudieron obtener las notificaciones',
+    MARK_NOTIFICATION_READ_FAILED: 'No se pudo marcar la notificación como leída',
+    MARK_ALL_NOTIFICATIONS_READ_FAILED: 'No se pudieron marcar todas las notificaciones como leídas',
+    FETCH_EVENTS_FAILED: 'No se pudieron obtener los eventos',
+    REALTIME_STREAM_FAILED: 'Falló la transmisión de eventos. Vuelve a conectarte para continuar.',
+    FETCH_ANALYTICS_FAILED: 'No se pudieron obtener las estadísticas',
+    FETCH_WEEKLY_ANALYTICS_FAILED: 'No se pudieron obtener las estadísticas semanales',
+    FETCH_MONTHLY_ANALYTICS_FAILED: 'No se pudieron obtener las estadísticas mensuales',
+    FETCH_NUDGE_ANALYTICS_FAILED: 'No se pudieron obtener las estadísticas de toques',
+    FETCH_PARTNERSHIP_ANALYTICS_FAILED: 'No se pudieron obtener las estadísticas de la asociación',
+    GENERATE_ENCOURAGEMENT_FAILED: 'No se pudo generar el mensaje de ánimo',
+    GENERATE_WEEKLY_INSIGHT_FAILED: 'No se pudo generar el análisis semanal',
+    GENERATE_SUPPORT_MESSAGE_FAILED: 'No se pudo generar el mensaje de apoyo',
+    GENERATE_MONTHLY_SUMMARY_FAILED: 'No se pudo generar el resumen mensual',
+    GENERATE_HABIT_PLAN_FAILED: 'No se pudo generar el plan de hábitos',
+    FETCH_AI_RESPONSE_FAILED: 'No se pudo obtener la respuesta de IA',
+    STREAM_AI_RESPONSE_FAILED: 'No se pudo transmitir la respuesta de IA',
+    SAVE_FEEDBACK_FAILED: 'No se pudo guardar la valoración',
+    FETCH_PROMPT_REPORT_FAILED: 'No se pudo obtener el informe de prompts',
+    FETCH_AI_USAGE_FAILED: 'No se pudo obtener el uso de IA',
+    FETCH_INSIGHTS_FAILED: 'No se pudieron obtener los análisis',
+    FETCH_INSIGHT_FAILED: 'No se pudo obtener el análisis',
+    SEND_CHAT_MESSAGE_FAILED: 'No se pudo enviar el mensaje del chat',
+    FETCH_CONVERSATIONS_FAILED: 'No se pudieron obtener las conversaciones',
+    FETCH_CONVERSATION_FAILED: 'No se pudo obtener la conversación'
+  },
+
+  notices: {
+    MESSAGE_HELD_FOR_REVIEW: 'Tu mensaje se entregará cuando haya sido revisado'
+  },
+
+  matchReasons: {
+    SAME_CATEGORY: 'Ambos trabajan en hábitos de {category}',
+    SHARED_INTERESTS: 'Comparten interés en {categories}',
+    SAME_TIMEZONE: 'Están en la misma zona horaria',
+    NEARBY_TIMEZONE: 'Solo hay {hours} h de diferencia entre ustedes',
+    SIMILAR_CHECKIN_TIME: 'Ambos suelen registrarse alrededor de las {time}',
+    SIMILAR_CONSISTENCY: 'Mantienen sus hábitos con una constancia parecida',
+    LOOKING_FOR_PARTNER: 'Ambos buscan un compañero de responsabilidad'
+  },
+
+  fallbacks: {
+    'encouragement': '¡Buen trabajo con tu registro! Sigue construyendo el impulso de tu hábito. 💪',
+    'weekly-insight': '¡Otra semana completada! Repasa qué días fueron bien y planea un pequeño cambio para la próxima semana.',
+    'streak-break': 'Un día perdido no borra tu progreso. Regístrate mañana y empieza tu próxima racha. 💪',
+    'chat': 'Lo siento, no he podido responder ahora mismo. Inténtalo de nuevo en un momento.',
+    'monthly-summary': 'Has escrito mucho este mes. Relee tus notas y fíjate en los días que te resultaron más fáciles: ahí hay pistas para el próximo mes.'
+  }
+};
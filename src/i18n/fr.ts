@@ -0,0 +1,216 @@
+import { Catalog } from './types';
+
+export const fr: Catalog = {
+  language: 'French',
+
+  errors: {
+    NO_TOKEN: 'Aucun jeton fourni',
+    INVALID_TOKEN: 'Jeton invalide',
+    AUTH_FAILED: 'Échec de l\'authentification',
+    ADMIN_REQUIRED: 'Accès administrateur requis',
+
+    PROFILE_NOT_FOUND: 'Profil introuvable',
+    DISPLAY_NAME_REQUIRED: 'Le nom d\'affichage est obligatoire',
+    INVALID_TIMEZONE: 'Fuseau horaire invalide',
+    INVALID_LOCALE: 'La langue doit être l\'une des suivantes : {locales}',
+    INVALID_QUIET_HOURS: 'Les heures calmes nécessitent une heure de début et de fin au format HH:MM',
+
+    HABIT_NOT_FOUND: 'Habitude introuvable',
+    HABIT_ID_REQUIRED: 'L\'ID de l\'habitude est obligatoire',
+    HABIT_NAME_AND_CATEGORY_REQUIRED: 'Le nom et la catégorie de l\'habitude sont obligatoires',
+    HABIT_NAME_TOO_LONG: 'Le nom de l\'habitude doit contenir au plus {max} caractères',
+    INVALID_CATEGORY: 'Catégorie invalide',
+    INVALID_START_DATE: 'La date de début doit être une date valide d\'il y a {days} jours au plus',
+    INVALID_PRIVACY_SETTING: 'Paramètre de confidentialité invalide',
+    INVALID_GRACE_DAYS: 'Les jours de grâce doivent être compris entre 0 et {max}',
+    INVALID_AUTO_FREEZE: 'auto_freeze doit valoir true ou false',
+    ACTIVE_HABIT_LIMIT: 'Vous pouvez avoir au plus {max} habitudes actives. Archivez-en une d\'abord.',
+    HABIT_IDS_REQUIRED: 'Les ID des habitudes sont obligatoires',
+    HABIT_ORDER_MISMATCH: 'Les ID doivent contenir chaque habitude active exactement une fois',
+    SCHEDULE_NOT_OBJECT: 'Le planning doit être un objet',
+    INVALID_WEEKDAYS: 'Les plannings hebdomadaires nécessitent des jours entre 0 (dimanche) et 6 (samedi)',
+    INVALID_TIMES_PER_WEEK: 'Le nombre de fois par semaine doit être compris entre 1 et 7',
+    INVALID_INTERVAL: 'L\'intervalle doit être compris entre 1 et 365 jours',
+    INVALID_SCHEDULE_TYPE: 'Type de planning invalide',
+    INVALID_TARGET_VALUE: 'La valeur cible doit être un nombre positif',
+    UNIT_TOO_LONG: 'L\'unité doit contenir au plus 20 caractères',
+    INVALID_AGGREGATION: 'L\'agrégation doit être sum ou max',
+
+    CHECKIN_FIELDS_REQUIRED: 'L\'ID de l\'habitude et le statut de réalisation sont obligatoires',
+    INVALID_COMPLETED: 'completed doit valoir true ou false',
+    VALUE_REQUIRED: 'Une valeur positive ou nulle est requise pour cette habitude',
+    DATE_REQUIRED: 'La date est obligatoire',
+    INVALID_DATE: 'La date doit être au format AAAA-MM-JJ',
+    FUTURE_CHECKIN: 'Impossible de pointer une date future',
+    CHECKIN_BEFORE_START: 'Impossible de pointer avant le début de l\'habitude',
+    BACKDATE_LIMIT: 'Les pointages ne peuvent être antidatés que de {days} jours',
+    REST_DAY_IN_PAST: 'Les jours de repos doivent être déclarés à l\'avance',
+    REST_DAY_EXISTS: 'Jour de repos déjà déclaré',
+    REST_DAY_NOT_FOUND: 'Jour de repos introuvable',
+    PAST_REST_DAY: 'Les jours de repos passés ne peuvent pas être supprimés',
+    DAY_ALREADY_FROZEN: 'Ce jour est déjà gelé',
+    FREEZE_NOT_MISSED: 'Seuls les jours passés manqués peuvent être gelés',
+    NO_FREEZES_AVAILABLE: 'Aucun gel de série disponible',
+
+    RECEIVER_ID_REQUIRED: 'L\'ID du destinataire est obligatoire',
+    SELF_PARTNERSHIP: 'Vous ne pouvez pas vous envoyer une demande de partenariat',
+    ACTIVE_PARTNERSHIP_EXISTS: 'Vous avez déjà un partenariat actif',
+    PARTNERSHIP_REQUEST_EXISTS: 'Demande de partenariat déjà envoyée',
+    PARTNERSHIP_REQUEST_NOT_FOUND: 'Demande de partenariat introuvable',
+    PARTNERSHIP_NOT_FOUND: 'Partenariat introuvable',
+    NO_ACTIVE_PARTNERSHIP: 'Aucun partenariat actif trouvé',
+    NUDGE_PARTNER_CHECKED_IN: 'Votre partenaire a déjà fait son suivi aujourd\'hui',
+    NUDGE_LIMIT: 'Vous avez déjà relancé votre partenaire aujourd\'hui',
+    PARTNER_QUIET_HOURS: 'Votre partenaire est en heures calmes jusqu\'à {time}, heure locale',
+    MESSAGE_FIELDS_REQUIRED: 'L\'ID du partenariat et le texte du message sont obligatoires',
+    MESSAGE_REQUIRED: 'Le message est obligatoire',
+    MESSAGE_TOO_LONG: 'Le message doit contenir au plus {max} caractères',
+    MESSAGE_NOT_FOUND: 'Message introuvable',
+    MESSAGES_VIEW_FORBIDDEN: 'Vous n\'êtes pas autorisé à voir ces messages',
+    MESSAGES_SEND_FORBIDDEN: 'Vous n\'êtes pas autorisé à envoyer des messages dans ce partenariat',
+    MESSAGE_BLOCKED: 'Ce message ne peut pas être envoyé car il enfreint les règles de la communauté',
+    HELD_MESSAGE_NOT_FOUND: 'Aucun message retenu avec cet ID',
+    USER_ID_REQUIRED: 'L\'ID utilisateur est requis',
+    USER_NOT_FOUND: 'Utilisateur introuvable',
+    SELF_BLOCK: 'Vous ne pouvez pas vous bloquer vous-même',
+    ALREADY_BLOCKED: 'Vous avez déjà bloqué cet utilisateur',
+    BLOCK_NOT_FOUND: 'Vous n\'avez pas bloqué cet utilisateur',
+    PARTNERSHIP_REQUEST_BLOCKED: 'Vous ne pouvez pas envoyer de demande de partenariat à cet utilisateur',
+    SELF_REPORT: 'Vous ne pouvez pas vous signaler vous-même',
+    INVALID_REPORT_REASON: 'Le motif doit être l\'un des suivants : {reasons}',
+    INVALID_REPORT_DETAILS: 'Les détails doivent être un texte de {max} caractères maximum',
+    INVALID_REPORT_CONTEXT: 'Le message ou le partenariat doit concerner vous et l\'utilisateur signalé',
+    REPORT_NOT_FOUND: 'Aucun signalement ouvert avec cet ID',
+    CIRCLE_NOT_FOUND: 'Cercle introuvable',
+    CIRCLE_NAME_REQUIRED: 'Le nom du cercle est obligatoire',
+    CIRCLE_NAME_TOO_LONG: 'Le nom du cercle doit contenir {max} caractères au maximum',
+    INVITE_CODE_INVALID: 'Ce code d\'invitation ne correspond à aucun cercle',
+    ALREADY_CIRCLE_MEMBER: 'Vous êtes déjà membre de ce cercle',
+    CIRCLE_FULL: 'Ce cercle est complet ({max} membres)',
+    CIRCLE_LIMIT: 'Vous pouvez faire partie de {max} cercles au maximum',
+    CIRCLE_OWNER_REQUIRED: 'Seuls les propriétaires du cercle peuvent faire cela',
+    CIRCLE_MEMBER_NOT_FOUND: 'Membre introuvable dans ce cercle',
+    CIRCLE_REMOVE_SELF: 'Quittez le cercle au lieu de vous retirer vous-même',
+    INVALID_CIRCLE_ROLE: 'Le rôle doit être owner ou member',
+    CIRCLE_LAST_OWNER: 'Nommez d\'abord un autre membre propriétaire',
+
+    REFLECTION_FIELDS_REQUIRED: 'L\'ID de l\'habitude et la date de début de semaine sont obligatoires',
+    REFLECTION_TOO_LONG: 'La réflexion doit contenir au plus 500 caractères',
+    REFLECTION_NOT_FOUND: 'Réflexion introuvable',
+    NOTIFICATION_NOT_FOUND: 'Notification introuvable',
+    INVALID_CURSOR: 'Le curseur doit être un entier positif ou nul',
+
+    AI_DAILY_LIMIT: 'Limite quotidienne de {limit} messages {type} atteinte. Réessayez demain.',
+    CHAT_DAILY_LIMIT: 'Limite quotidienne du chat atteinte. Réessayez demain.',
+    AI_RESPONSE_NOT_FOUND: 'Réponse IA introuvable',
+    AI_GENERATION_FAILED: 'Impossible de générer la réponse IA',
+    INSIGHT_NOT_FOUND: 'Bilan introuvable',
+    CONVERSATION_NOT_FOUND: 'Conversation introuvable',
+    GOAL_REQUIRED: 'L\'objectif est obligatoire',
+    GOAL_TOO_LONG: 'L\'objectif doit contenir au plus {max} caractères',
+    NO_HABIT_PLAN: 'Impossible de proposer un plan d\'habitudes pour cet objectif. Essayez de le reformuler.',
+    HABIT_PLAN_NOT_FOUND: 'Plan d\'habitudes introuvable',
+    INVALID_SUGGESTION_INDEX: 'Index de suggestion invalide',
+    INVALID_MONTH: 'Le mois doit être au format AAAA-MM',
+    FUTURE_MONTH: 'Impossible de résumer un mois futur',
+    FEEDBACK_HELPFUL_REQUIRED: 'helpful doit valoir true ou false',
+    FEEDBACK_REASON_INVALID: 'reason doit être une chaîne de caractères',
+    FEEDBACK_REASON_TOO_LONG: 'reason doit contenir au plus {max} caractères',
+    RESPONSE_NOT_RATABLE: 'Seules les réponses terminées peuvent être évaluées',
+
+    FETCH_PROFILE_FAILED: 'Impossible de récupérer le profil',
+    CREATE_PROFILE_FAILED: 'Impossible de créer le profil',
+    UPDATE_PROFILE_FAILED: 'Impossible de mettre à jour le profil',
+    DELETE_ACCOUNT_FAILED: 'Impossible de supprimer le compte',
+    FETCH_HABITS_FAILED: 'Impossible de récupérer les habitudes',
+    FETCH_ARCHIVED_HABITS_FAILED: 'Impossible de récupérer les habitudes archivées',
+    CREATE_HABIT_FAILED: 'Impossible de créer l\'habitude',
+    UPDATE_HABIT_FAILED: 'Impossible de mettre à jour l\'habitude',
+    ARCHIVE_HABIT_FAILED: 'Impossible d\'archiver l\'habitude',
+    REORDER_HABITS_FAILED: 'Impossible de réorganiser les habitudes',
+    CREATE_CHECKIN_FAILED: 'Impossible d\'enregistrer le pointage',
+    FETCH_CHECKINS_FAILED: 'Impossible de récupérer les pointages',
+    FETCH_TODAY_CHECKIN_FAILED: 'Impossible de récupérer le pointage du jour',
+    CALCULATE_STREAK_FAILED: 'Impossible de calculer la série',
+    FREEZE_STREAK_FAILED: 'Impossible de geler la série',
+    FETCH_REST_DAYS_FAILED: 'Impossible de récupérer les jours de repos',
+    DECLARE_REST_DAY_FAILED: 'Impossible de déclarer le jour de repos',
+    REMOVE_REST_DAY_FAILED: 'Impossible de supprimer le jour de repos',
+    BROWSE_PARTNERS_FAILED: 'Impossible de parcourir les partenaires',
+    FETCH_PARTNERSHIP_FAILED: 'Impossible de récupérer le partenariat',
+    CREATE_PARTNERSHIP_REQUEST_FAILED: 'Impossible de créer la demande de partenariat',
+    ACCEPT_PARTNERSHIP_FAILED: 'Impossible d\'accepter le partenariat',
+    DECLINE_PARTNERSHIP_FAILED: 'Impossible de refuser le partenariat',
+    END_PARTNERSHIP_FAILED: 'Impossible de mettre fin au partenariat',
+    SEND_NUDGE_FAILED: 'Impossible d\'envoyer la relance',
+    FETCH_MESSAGES_FAILED: 'Impossible de récupérer les messages',
+    SEND_MESSAGE_FAILED: 'Impossible d\'envoyer le message',
+    MARK_MESSAGE_READ_FAILED: 'Impossible de marquer le message comme lu',
+    FETCH_MODERATION_QUEUE_FAILED: 'Impossible de récupérer la file de modération',
+    REVIEW_MESSAGE_FAILED: 'Impossible d\'examiner le message',
+    FETCH_BLOCKS_FAILED: 'Impossible de récupérer les utilisateurs bloqués',
+    BLOCK_USER_FAILED: 'Impossible de bloquer l\'utilisateur',
+    UNBLOCK_USER_FAILED: 'Impossible de débloquer l\'utilisateur',
+    CREATE_REPORT_FAILED: 'Impossible d\'envoyer le signalement',
+    FETCH_REPORTS_FAILED: 'Impossible de récupérer les signalements',
+    REVIEW_REPORT_FAILED: 'Impossible d\'examiner le signalement',
+    FETCH_CIRCLES_FAILED: 'Impossible de récupérer les cercles',
+    CREATE_CIRCLE_FAILED: 'Impossible de créer le cercle',
+    FETCH_CIRCLE_FAILED: 'Impossible de récupérer le cercle',
+    JOIN_CIRCLE_FAILED: 'Impossible de rejoindre le cercle',
+    LEAVE_CIRCLE_FAILED: 'Impossible de quitter le cercle',
+    RESET_INVITE_CODE_FAILED: 'Impossible de réinitialiser le code d\'invitation',
+    UPDATE_CIRCLE_MEMBER_FAILED: 'Impossible de mettre à jour le membre du cercle',
+    REMOVE_CIRCLE_MEMBER_FAILED: 'Impossible de retirer le membre du cercle',
+    FETCH_REFLECTIONS_FAILED: 'Impossible de récupérer les réflexions',
+    CREATE_REFLECTION_FAILED: 'Impossible de créer la réflexion',
+    UPDATE_REFLECTION_FAILED: 'Impossible de mettre à jour la réflexion',
+    FETCH_NOTIFICATIONS_FAILED: 'Impossible de récupérer les notifications',
+    MARK_NOTIFICATION_READ_FAILED: 'Impossible de marquer la notification comme lue',
+    MARK_ALL_NOTIFICATIONS_READ_FAILED: 'Impossible de marquer toutes les notifications comme lues',
+    FETCH_EVENTS_FAILED: 'Impossible de récupérer les événements',
+    REALTIME_STREAM_FAILED: 'Le flux d\'événements a échoué. Reconnectez-vous pour reprendre.',
+    FETCH_ANALYTICS_FAILED: 'Impossible de récupérer les statistiques',
+    FETCH_WEEKLY_ANALYTICS_FAILED: 'Impossible de récupérer les statistiques hebdomadaires',
+    FETCH_MONTHLY_ANALYTICS_FAILED: 'Impossible de récupérer les statistiques mensuelles',
+    FETCH_NUDGE_ANALYTICS_FAILED: 'Impossible de récupérer les statistiques de relances',
+    FETCH_PARTNERSHIP_ANALYTICS_FAILED: 'Impossible de récupérer les statistiques du partenariat',
+    GENERATE_ENCOURAGEMENT_FAILED: 'Impossible de générer le message d\'encouragement',
+    GENERATE_WEEKLY_INSIGHT_FAILED: 'Impossible de générer le bilan hebdomadaire',
+    GENERATE_SUPPORT_MESSAGE_FAILED: 'Impossible de générer le message de soutien',
+    GENERATE_MONTHLY_SUMMARY_FAILED: 'Impossible de générer le résumé mensuel',
+    GENERATE_HABIT_PLAN_FAILED: 'Impossible de générer le plan d\'habitudes',
+    FETCH_AI_RESPONSE_FAILED: 'Impossible de récupérer la réponse IA',
+    STREAM_AI_RESPONSE_FAILED: 'Impossible de diffuser la réponse IA',
+    SAVE_FEEDBACK_FAILED: 'Impossible d\'enregistrer l\'avis',
+    FETCH_PROMPT_REPORT_FAILED: 'Impossible de récupérer le rapport des prompts',
+    FETCH_AI_USAGE_FAILED: 'Impossible de récupérer l\'utilisation de l\'IA',
+    FETCH_INSIGHTS_FAILED: 'Impossible de récupérer les bilans',
+    FETCH_INSIGHT_FAILED: 'Impossible de récupérer le bilan',
+    SEND_CHAT_MESSAGE_FAILED: 'Impossible d\'envoyer le message du chat',
+    FETCH_CONVERSATIONS_FAILED: 'Impossible de récupérer les conversations',
+    FETCH_CONVERSATION_FAILED: 'Impossible de récupérer la conversation'
+  },
+
+  notices: {
+    MESSAGE_HELD_FOR_REVIEW: 'Votre message sera distribué une fois vérifié'
+  },
+
+  matchReasons: {
+    SAME_CATEGORY: 'Vous travaillez tous les deux sur des habitudes {category}',
+    SHARED_INTERESTS: 'Vous partagez un intérêt pour {categories}',
+    SAME_TIMEZONE: 'Vous êtes dans le même fuseau horaire',
+    NEARBY_TIMEZONE: 'Vous n\'avez que {hours} h de décalage',
+    SIMILAR_CHECKIN_TIME: 'Vous faites tous les deux votre suivi vers {time}',
+    SIMILAR_CONSISTENCY: 'Vous entretenez vos habitudes avec une régularité comparable',
+    LOOKING_FOR_PARTNER: 'Vous cherchez tous les deux un partenaire de responsabilité'
+  },
+
+  fallbacks: {
+    'encouragement': 'Bravo pour ton pointage ! Continue sur ta lancée. 💪',
+    'weekly-insight': 'Encore une semaine de passée ! Regarde quels jours se sont bien passés et prévois un petit changement pour la semaine prochaine.',
+    'streak-break': 'Un jour manqué n\'efface pas tes progrès. Pointe demain et commence ta prochaine série. 💪',
+    'chat': 'Désolé, je n\'ai pas pu répondre pour le moment. Réessaie dans un instant.',
+    'monthly-summary': 'Tu as beaucoup écrit ce mois-ci. Relis tes notes et repère les jours qui t\'ont semblé les plus faciles : ils donnent des pistes pour le mois prochain.'
+  }
+};
@@ -0,0 +1,66 @@
+import { de } from './de';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { pt } from './pt';
+import { ApiError, Catalog, ErrorCode, Locale, MatchReasonCode, NoticeCode } from './types';
+
+export * from './types';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, fr, de, pt };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS) as Locale[];
+
+// Tags like 'es-MX' resolve to their language; unsupported ones give null
+export function parseLocale(value: unknown): Locale | null {
+  if (typeof value !== 'string') return null;
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.includes(language as Locale) ? language as Locale : null;
+}
+
+// The supported language the client prefers most, e.g. 'fr-CH, fr;q=0.9, en;q=0.8'
+export function parseAcceptLanguage(header: string | undefined): Locale | null {
+  if (!header) return null;
+
+  const ranked = header.split(',')
+    .map(part => {
+      const [tag, ...options] = part.trim().split(';');
+      const quality = options.map(o => o.trim()).find(o => o.startsWith('q='));
+      return { locale: parseLocale(tag), quality: quality ? Number(quality.slice(2)) || 0 : 1 };
+    })
+    .filter(entry => entry.locale && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return ranked[0]?.locale || null;
+}
+
+export function apiError(code: ErrorCode, params?: ApiError['params']): ApiError {
+  return { code, params };
+}
+
+function interpolate(text: string, params: ApiError['params'] = {}): string {
+  return text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
+
+export function translateError(locale: Locale, error: ApiError): string {
+  return interpolate(CATALOGS[locale].errors[error.code], error.params);
+}
+
+export function translateNotice(locale: Locale, code: NoticeCode): string {
+  return CATALOGS[locale].notices[code];
+}
+
+export function translateMatchReason(locale: Locale, code: MatchReasonCode, params?: ApiError['params']): string {
+  return interpolate(CATALOGS[locale].matchReasons[code], params);
+}
+
+// Canned reply for a use case, or '' for use cases without one
+export function getFallbackMessage(locale: Locale, useCase: string): string {
+  const fallbacks: Record<string, string> = CATALOGS[locale].fallbacks;
+  return fallbacks[useCase] || '';
+}
+
+export function getLanguageName(locale: Locale): string {
+  return CATALOGS[locale].language;
+}
@@ -0,0 +1,216 @@
+import { Catalog } from './types';
+
+export const pt: Catalog = {
+  language: 'Portuguese',
+
+  errors: {
+    NO_TOKEN: 'Nenhum token fornecido',
+    INVALID_TOKEN: 'Token inválido',
+    AUTH_FAILED: 'Falha na autenticação',
+    ADMIN_REQUIRED: 'Acesso de administrador necessário',
+
+    PROFILE_NOT_FOUND: 'Perfil não encontrado',
+    DISPLAY_NAME_REQUIRED: 'O nome de exibição é obrigatório',
+    INVALID_TIMEZONE: 'Fuso horário inválido',
+    INVALID_LOCALE: 'O idioma deve ser um de: {locales}',
+    INVALID_QUIET_HOURS: 'O horário de silêncio precisa de hora de início e de fim no formato HH:MM',
+
+    HABIT_NOT_FOUND: 'Hábito não encontrado',
+    HABIT_ID_REQUIRED: 'O ID do hábito é obrigatório',
+    HABIT_NAME_AND_CATEGORY_REQUIRED: 'O nome e a categoria do hábito são obrigatórios',
+    HABIT_NAME_TOO_LONG: 'O nome do hábito deve ter no máximo {max} caracteres',
+    INVALID_CATEGORY: 'Categoria inválida',
+    INVALID_START_DATE: 'A data de início deve ser uma data válida de no máximo {days} dias atrás',
+    INVALID_PRIVACY_SETTING: 'Configuração de privacidade inválida',
+    INVALID_GRACE_DAYS: 'Os dias de tolerância devem estar entre 0 e {max}',
+    INVALID_AUTO_FREEZE: 'auto_freeze deve ser true ou false',
+    ACTIVE_HABIT_LIMIT: 'Você pode ter no máximo {max} hábitos ativos. Arquive um primeiro.',
+    HABIT_IDS_REQUIRED: 'Os IDs dos hábitos são obrigatórios',
+    HABIT_ORDER_MISMATCH: 'Os IDs devem incluir cada hábito ativo exatamente uma vez',
+    SCHEDULE_NOT_OBJECT: 'A programação deve ser um objeto',
+    INVALID_WEEKDAYS: 'Programações semanais precisam de dias entre 0 (domingo) e 6 (sábado)',
+    INVALID_TIMES_PER_WEEK: 'As vezes por semana devem estar entre 1 e 7',
+    INVALID_INTERVAL: 'O intervalo deve estar entre 1 e 365 dias',
+    INVALID_SCHEDULE_TYPE: 'Tipo de programação inválido',
+    INVALID_TARGET_VALUE: 'O valor da meta deve ser um número positivo',
+    UNIT_TOO_LONG: 'A unidade deve ter no máximo 20 caracteres',
+    INVALID_AGGREGATION: 'A agregação deve ser sum ou max',
+
+    CHECKIN_FIELDS_REQUIRED: 'O ID do hábito e o status de conclusão são obrigatórios',
+    INVALID_COMPLETED: 'completed deve ser true ou false',
+    VALUE_REQUIRED: 'Este hábito exige um valor não negativo',
+    DATE_REQUIRED: 'A data é obrigatória',
+    INVALID_DATE: 'A data deve estar no formato AAAA-MM-DD',
+    FUTURE_CHECKIN: 'Não é possível registrar uma data futura',
+    CHECKIN_BEFORE_START: 'Não é possível registrar antes do início do hábito',
+    BACKDATE_LIMIT: 'Os registros só podem ser retroativos em até {days} dias',
+    REST_DAY_IN_PAST: 'Os dias de descanso devem ser declarados com antecedência',
+    REST_DAY_EXISTS: 'Dia de descanso já declarado',
+    REST_DAY_NOT_FOUND: 'Dia de descanso não encontrado',
+    PAST_REST_DAY: 'Dias de descanso passados não podem ser removidos',
+    DAY_ALREADY_FROZEN: 'Este dia já está congelado',
+    FREEZE_NOT_MISSED: 'Somente dias passados não registrados podem ser congelados',
+    NO_FREEZES_AVAILABLE: 'Nenhum congelamento de sequência disponível',
+
+    RECEIVER_ID_REQUIRED: 'O ID do destinatário é obrigatório',
+    SELF_PARTNERSHIP: 'Você não pode enviar um pedido de parceria para si mesmo',
+    ACTIVE_PARTNERSHIP_EXISTS: 'Você já tem uma parceria ativa',
+    PARTNERSHIP_REQUEST_EXISTS: 'Pedido de parceria já enviado',
+    PARTNERSHIP_REQUEST_NOT_FOUND: 'Pedido de parceria não encontrado',
+    PARTNERSHIP_NOT_FOUND: 'Parceria não encontrada',
+    NO_ACTIVE_PARTNERSHIP: 'Nenhuma parceria ativa encontrada',
+    NUDGE_PARTNER_CHECKED_IN: 'Seu parceiro já fez o registro hoje',
+    NUDGE_LIMIT: 'Você já cutucou seu parceiro hoje',
+    PARTNER_QUIET_HOURS: 'Seu parceiro está em horário de silêncio até {time} no horário dele',
+    MESSAGE_FIELDS_REQUIRED: 'O ID da parceria e o texto da mensagem são obrigatórios',
+    MESSAGE_REQUIRED: 'A mensagem é obrigatória',
+    MESSAGE_TOO_LONG: 'A mensagem deve ter no máximo {max} caracteres',
+    MESSAGE_NOT_FOUND: 'Mensagem não encontrada',
+    MESSAGES_VIEW_FORBIDDEN: 'Você não tem permissão para ver estas mensagens',
+    MESSAGES_SEND_FORBIDDEN: 'Você não tem permissão para enviar mensagens nesta parceria',
+    MESSAGE_BLOCKED: 'Esta mensagem não pode ser enviada porque viola as diretrizes da comunidade',
+    HELD_MESSAGE_NOT_FOUND: 'Nenhuma mensagem retida com este ID',
+    USER_ID_REQUIRED: 'O ID do usuário é obrigatório',
+    USER_NOT_FOUND: 'Usuário não encontrado',
+    SELF_BLOCK: 'Você não pode bloquear a si mesmo',
+    ALREADY_BLOCKED: 'Você já bloqueou este usuário',
+    BLOCK_NOT_FOUND: 'Você não bloqueou este usuário',
+    PARTNERSHIP_REQUEST_BLOCKED: 'Você não pode enviar um pedido de parceria para este usuário',
+    SELF_REPORT: 'Você não pode denunciar a si mesmo',
+    INVALID_REPORT_REASON: 'O motivo deve ser um de: {reasons}',
+    INVALID_REPORT_DETAILS: 'Os detalhes devem ser um texto de no máximo {max} caracteres',
+    INVALID_REPORT_CONTEXT: 'A mensagem ou parceria deve ser entre você e o usuário denunciado',
+    REPORT_NOT_FOUND: 'Nenhuma denúncia aberta com este ID',
+    CIRCLE_NOT_FOUND: 'Círculo não encontrado',
+    CIRCLE_NAME_REQUIRED: 'O nome do círculo é obrigatório',
+    CIRCLE_NAME_TOO_LONG: 'O nome do círculo deve ter {max} caracteres ou menos',
+    INVITE_CODE_INVALID: 'Esse código de convite não corresponde a nenhum círculo',
+    ALREADY_CIRCLE_MEMBER: 'Você já é membro deste círculo',
+    CIRCLE_FULL: 'Este círculo está cheio ({max} membros)',
+    CIRCLE_LIMIT: 'Você pode participar de no máximo {max} círculos',
+    CIRCLE_OWNER_REQUIRED: 'Somente os donos do círculo podem fazer isso',
+    CIRCLE_MEMBER_NOT_FOUND: 'Membro não encontrado neste círculo',
+    CIRCLE_REMOVE_SELF: 'Saia do círculo em vez de remover a si mesmo',
+    INVALID_CIRCLE_ROLE: 'A função deve ser owner ou member',
+    CIRCLE_LAST_OWNER: 'Primeiro torne outro membro dono',
+
+    REFLECTION_FIELDS_REQUIRED: 'O ID do hábito e a data de início da semana são obrigatórios',
+    REFLECTION_TOO_LONG: 'A reflexão deve ter no máximo 500 caracteres',
+    REFLECTION_NOT_FOUND: 'Reflexão não encontrada',
+    NOTIFICATION_NOT_FOUND: 'Notificação não encontrada',
+    INVALID_CURSOR: 'O cursor deve ser um número inteiro não negativo',
+
+    AI_DAILY_LIMIT: 'Limite diário de {limit} mensagens do tipo {type} atingido. Tente novamente amanhã.',
+    CHAT_DAILY_LIMIT: 'Limite diário do chat atingido. Tente novamente amanhã.',
+    AI_RESPONSE_NOT_FOUND: 'Resposta de IA não encontrada',
+    AI_GENERATION_FAILED: 'Não foi possível gerar a resposta de IA',
+    INSIGHT_NOT_FOUND: 'Análise não encontrada',
+    CONVERSATION_NOT_FOUND: 'Conversa não encontrada',
+    GOAL_REQUIRED: 'O objetivo é obrigatório',
+    GOAL_TOO_LONG: 'O objetivo deve ter no máximo {max} caracteres',
+    NO_HABIT_PLAN: 'Não foi possível criar um plano de hábitos para este objetivo. Tente reformulá-lo.',
+    HABIT_PLAN_NOT_FOUND: 'Plano de hábitos não encontrado',
+    INVALID_SUGGESTION_INDEX: 'Índice de sugestão inválido',
+    INVALID_MONTH: 'O mês deve estar no formato AAAA-MM',
+    FUTURE_MONTH: 'Não é possível resumir um mês futuro',
+    FEEDBACK_HELPFUL_REQUIRED: 'helpful deve ser true ou false',
+    FEEDBACK_REASON_INVALID: 'reason deve ser um texto',
+    FEEDBACK_REASON_TOO_LONG: 'reason deve ter no máximo {max} caracteres',
+    RESPONSE_NOT_RATABLE: 'Somente respostas concluídas podem ser avaliadas',
+
+    FETCH_PROFILE_FAILED: 'Não foi possível carregar o perfil',
+    CREATE_PROFILE_FAILED: 'Não foi possível criar o perfil',
+    UPDATE_PROFILE_FAILED: 'Não foi possível atualizar o perfil',
+    DELETE_ACCOUNT_FAILED: 'Não foi possível excluir a conta',
+    FETCH_HABITS_FAILED: 'Não foi possível carregar os hábitos',
+    FETCH_ARCHIVED_HABITS_FAILED: 'Não foi possível carregar os hábitos arquivados',
+    CREATE_HABIT_FAILED: 'Não foi possível criar o hábito',
+    UPDATE_HABIT_FAILED: 'Não foi possível atualizar o hábito',
+    ARCHIVE_HABIT_FAILED: 'Não foi possível arquivar o hábito',
+    REORDER_HABITS_FAILED: 'Não foi possível reordenar os hábitos',
+    CREATE_CHECKIN_FAILED: 'Não foi possível criar o registro',
+    FETCH_CHECKINS_FAILED: 'Não foi possível carregar os registros',
+    FETCH_TODAY_CHECKIN_FAILED: 'Não foi possível carregar o registro de hoje',
+    CALCULATE_STREAK_FAILED: 'Não foi possível calcular a sequência',
+    FREEZE_STREAK_FAILED: 'Não foi possível congelar a sequência',
+    FETCH_REST_DAYS_FAILED: 'Não foi possível carregar os dias de descanso',
+    DECLARE_REST_DAY_FAILED: 'Não foi possível declarar o dia de descanso',
+    REMOVE_REST_DAY_FAILED: 'Não foi possível remover o dia de descanso',
+    BROWSE_PARTNERS_FAILED: 'Não foi possível buscar parceiros',
+    FETCH_PARTNERSHIP_FAILED: 'Não foi possível carregar a parceria',
+    CREATE_PARTNERSHIP_REQUEST_FAILED: 'Não foi possível criar o pedido de parceria',
+    ACCEPT_PARTNERSHIP_FAILED: 'Não foi possível aceitar a parceria',
+    DECLINE_PARTNERSHIP_FAILED: 'Não foi possível recusar a parceria',
+    END_PARTNERSHIP_FAILED: 'Não foi possível encerrar a parceria',
+    SEND_NUDGE_FAILED: 'Não foi possível enviar a cutucada',
+    FETCH_MESSAGES_FAILED: 'Não foi possível carregar as mensagens',
+    SEND_MESSAGE_FAILED: 'Não foi possível enviar a mensagem',
+    MARK_MESSAGE_READ_FAILED: 'Não foi possível marcar a mensagem como lida',
+    FETCH_MODERATION_QUEUE_FAILED: 'Não foi possível carregar a fila de moderação',
+    REVIEW_MESSAGE_FAILED: 'Não foi possível revisar a mensagem',
+    FETCH_BLOCKS_FAILED: 'Não foi possível buscar os usuários bloqueados',
+    BLOCK_USER_FAILED: 'Não foi possível bloquear o usuário',
+    UNBLOCK_USER_FAILED: 'Não foi possível desbloquear o usuário',
+    CREATE_REPORT_FAILED: 'Não foi possível enviar a denúncia',
+    FETCH_REPORTS_FAILED: 'Não foi possível buscar as denúncias',
+    REVIEW_REPORT_FAILED: 'Não foi possível revisar a denúncia',
+    FETCH_CIRCLES_FAILED: 'Não foi possível obter os círculos',
+    CREATE_CIRCLE_FAILED: 'Não foi possível criar o círculo',
+    FETCH_CIRCLE_FAILED: 'Não foi possível obter o círculo',
+    JOIN_CIRCLE_FAILED: 'Não foi possível entrar no círculo',
+    LEAVE_CIRCLE_FAILED: 'Não foi possível sair do círculo',
+    RESET_INVITE_CODE_FAILED: 'Não foi possível redefinir o código de convite',
+    UPDATE_CIRCLE_MEMBER_FAILED: 'Não foi possível atualizar o membro do círculo',
+    REMOVE_CIRCLE_MEMBER_FAILED: 'Não foi possível remover o membro do círculo',
+    FETCH_REFLECTIONS_FAILED: 'Não foi possível carregar as reflexões',
+    CREATE_REFLECTION_FAILED: 'Não foi possível criar a reflexão',
+    UPDATE_REFLECTION_FAILED: 'Não foi possível atualizar a reflexão',
+    FETCH_NOTIFICATIONS_FAILED: 'Não foi possível carregar as notificações',
+    MARK_NOTIFICATION_READ_FAILED: 'Não foi possível marcar a notificação como lida',
+    MARK_ALL_NOTIFICATIONS_READ_FAILED: 'Não foi possível marcar todas as notificações como lidas',
+    FETCH_EVENTS_FAILED: 'Não foi possível obter os eventos',
+    REALTIME_STREAM_FAILED: 'A transmissão de eventos falhou. Reconecte-se para continuar.',
+    FETCH_ANALYTICS_FAILED: 'Não foi possível carregar as estatísticas',
+    FETCH_WEEKLY_ANALYTICS_FAILED: 'Não foi possível carregar as estatísticas semanais',
+    FETCH_MONTHLY_ANALYTICS_FAILED: 'Não foi possível carregar as estatísticas mensais',
+    FETCH_NUDGE_ANALYTICS_FAILED: 'Não foi possível obter as estatísticas de cutucadas',
+    FETCH_PARTNERSHIP_ANALYTICS_FAILED: 'Não foi possível buscar as estatísticas da parceria',
+    GENERATE_ENCOURAGEMENT_FAILED: 'Não foi possível gerar a mensagem de incentivo',
+    GENERATE_WEEKLY_INSIGHT_FAILED: 'Não foi possível gerar a análise semanal',
+    GENERATE_SUPPORT_MESSAGE_FAILED: 'Não foi possível gerar a mensagem de apoio',
+    GENERATE_MONTHLY_SUMMARY_FAILED: 'Não foi possível gerar o resumo mensal',
+    GENERATE_HABIT_PLAN_FAILED: 'Não foi possível gerar o plano de hábitos',
+    FETCH_AI_RESPONSE_FAILED: 'Não foi possível carregar a resposta de IA',
+    STREAM_AI_RESPONSE_FAILED: 'Não foi possível transmitir a resposta de IA',
+    SAVE_FEEDBACK_FAILED: 'Não foi possível salvar a avaliação',
+    FETCH_PROMPT_REPORT_FAILED: 'Não foi possível carregar o relatório de prompts',
+    FETCH_AI_USAGE_FAILED: 'Não foi possível carregar o uso de IA',
+    FETCH_INSIGHTS_FAILED: 'Não foi possível carregar as análises',
+    FETCH_INSIGHT_FAILED: 'Não foi possível carregar a análise',
+    SEND_CHAT_MESSAGE_FAILED: 'Não foi possível enviar a mensagem do chat',
+    FETCH_CONVERSATIONS_FAILED: 'Não foi possível carregar as conversas',
+    FETCH_CONVERSATION_FAILED: 'Não foi possível carregar a conversa'
+  },
+
+  notices: {
+    MESSAGE_HELD_FOR_REVIEW: 'Sua mensagem será entregue assim que for revisada'
+  },
+
+  matchReasons: {
+    SAME_CATEGORY: 'Vocês dois trabalham em hábitos de {category}',
+    SHARED_INTERESTS: 'Vocês compartilham interesse em {categories}',
+    SAME_TIMEZONE: 'Vocês estão no mesmo fuso horário',
+    NEARBY_TIMEZONE: 'Há apenas {hours} h de diferença entre vocês',
+    SIMILAR_CHECKIN_TIME: 'Vocês dois costumam registrar por volta das {time}',
+    SIMILAR_CONSISTENCY: 'Vocês mantêm seus hábitos com frequência parecida',
+    LOOKING_FOR_PARTNER: 'Vocês dois procuram um parceiro de responsabilidade'
+  },
+
+  fallbacks: {
+    'encouragement': 'Ótimo trabalho no seu registro! Continue mantendo o ritmo do seu hábito. 💪',
+    'weekly-insight': 'Mais uma semana concluída! Veja quais dias foram bem e planeje uma pequena mudança para a próxima semana.',
+    'streak-break': 'Um dia perdido não apaga o seu progresso. Registre amanhã e comece sua próxima sequência. 💪',
+    'chat': 'Desculpe, não consegui responder agora. Tente novamente em um instante.',
+    'monthly-summary': 'Você escreveu bastante este mês. Releia suas notas e observe os dias que pareceram mais fáceis - eles trazem pistas para o próximo mês.'
+  }
+};
@@ -0,0 +1,23 @@
+import { en } from './en';
+
+export type Locale = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+export type ErrorCode = keyof typeof en.errors;
+export type NoticeCode = keyof typeof en.notices;
+export type MatchReasonCode = keyof typeof en.matchReasons;
+export type FallbackUseCase = keyof typeof en.fallbacks;
+
+export interface Catalog {
+  // English name of the language, used in prompts
+  language: string;
+  errors: Record<ErrorCode, string>;
+  notices: Record<NoticeCode, string>;
+  matchReasons: Record<MatchReasonCode, string>;
+  fallbacks: Record<FallbackUseCase, string>;
+}
+
+// An error to report to the client, translated when it's sent
+export interface ApiError {
+  code: ErrorCode;
+  params?: Record<string, string | number>;
+}
@@ -1,18 +1,29 @@
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import { authenticateUser } from './middleware/auth';
+import { getRepositories } from './repositories';
 import profileRoutes from './routes/profile';
 import habitRoutes from './routes/habits';
 import checkInRoutes from './routes/checkins';
 import partnershipRoutes from './routes/partnerships';
+import circleRoutes from './routes/circles';
 import messageRoutes from './routes/messages';
 import reflectionRoutes from './routes/reflections';
 import aiRoutes from './routes/ai';
 import analyticsRoutes from './routes/analytics';
 import notificationRoutes from './routes/notifications';
+import blockRoutes from './routes/blocks';
+import reportRoutes from './routes/reports';
+import moderationRoutes from './routes/moderation';
+import realtimeRoutes from './routes/realtime';
+import { startReminderScheduler } from './services/reminderService';
+import { startInsightScheduler } from './services/insightService';
+import { startEventCleanupScheduler } from './services/realtimeService';
 
-dotenv.config();
+// Fails at startup rather than on the first request if the storage driver
+// is misconfigured
+getRepositories();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -30,13 +41,23 @@ app.use('/api/profile', authenticateUser, profileRoutes);
 app.use('/api/habits', authenticateUser, habitRoutes);
 app.use('/api/checkins', authenticateUser, checkInRoutes);
 app.use('/api/partnerships', authenticateUser, partnershipRoutes);
+app.use('/api/circles', authenticateUser, circleRoutes);
 app.use('/api/messages', authenticateUser, messageRoutes);
 app.use('/api/reflections', authenticateUser, reflectionRoutes);
 app.use('/api/ai', authenticateUser, aiRoutes);
 app.use('/api/analytics', authenticateUser, analyticsRoutes);
 app.use('/api/notifications', authenticateUser, notificationRoutes);
+app.use('/api/blocks', authenticateUser, blockRoutes);
+app.use('/api/reports', authenticateUser, reportRoutes);
+app.use('/api/moderation', authenticateUser, moderationRoutes);
+app.use('/api/realtime', authenticateUser, realtimeRoutes);
 
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
 });
 
+// Background jobs
+startReminderScheduler();
+startInsightScheduler();
+startEventCleanupScheduler();
+
@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { toPrompt } from './local';
+import { readEventData } from './stream';
+import { LlmProvider, LlmUsage } from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+function getText(data: any): string {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  return parts.map((p: any) => p.text || '').join('');
+}
+
+function getUsage(data: any): LlmUsage | undefined {
+  const usage = data.usageMetadata;
+  return usage && {
+    promptTokens: usage.promptTokenCount || 0,
+    completionTokens: usage.candidatesTokenCount || 0
+  };
+}
+
+export function createGeminiProvider(): LlmProvider {
+  return {
+    name: 'gemini',
+    defaultModel: 'gemini-1.5-flash',
+
+    async generate({ messages, model, temperature, maxTokens, timeoutMs, onText }) {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is not set');
+      }
+
+      const baseUrl = process.env.GEMINI_BASE_URL || GEMINI_BASE_URL;
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      const contents = messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+      const body = {
+        contents,
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        generationConfig: { temperature, maxOutputTokens: maxTokens }
+      };
+      const config = {
+        headers: { 'x-goog-api-key': apiKey, 'Content-Type': 'application/json' },
+        timeout: timeoutMs
+      };
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+
+      if (onText) {
+        const response = await axios.post(
+          `${baseUrl}/models/${model}:streamGenerateContent?alt=sse`,
+          body,
+          { ...config, responseType: 'stream' }
+        );
+
+        // Every event carries the next piece of text; the last one has the usage
+        await readEventData(response.data, data => {
+          const chunk = getText(data);
+          if (chunk) {
+            text += chunk;
+            onText(chunk);
+          }
+          usage = getUsage(data) || usage;
+        });
+      } else {
+        const response = await axios.post(`${baseUrl}/models/${model}:generateContent`, body, config);
+        text = getText(response.data);
+        usage = getUsage(response.data);
+      }
+
+      text = text.trim();
+      if (!text) {
+        throw new Error('Gemini returned an empty completion');
+      }
+
+      return { text, model, usage };
+    }
+  };
+}
+
+// Gemini through the router set in LLAMA_ROUTER_URL, as the app called it
+// before providers were pluggable. The router doesn't stream, so listeners
+// get the whole reply at once.
+export function createLlamaRouterProvider(): LlmProvider {
+  return {
+    name: 'llama-router',
+    defaultModel: 'gemini-pro',
+
+    async generate({ messages, model, temperature, maxTokens, timeoutMs, onText }) {
+      const url = process.env.LLAMA_ROUTER_URL;
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!url || !apiKey) {
+        throw new Error('LLAMA_ROUTER_URL and GEMINI_API_KEY must both be set');
+      }
+
+      const response = await axios.post(
+        url,
+        { model, prompt: toPrompt(messages), max_tokens: maxTokens, temperature },
+        {
+          headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+          timeout: timeoutMs
+        }
+      );
+
+      const text = (response.data.text || response.data.message || '').trim();
+      if (!text) {
+        throw new Error('The Llama router returned an empty completion');
+      }
+
+      if (onText) onText(text);
+      return { text, model };
+    }
+  };
+}
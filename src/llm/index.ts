@@ -0,0 +1,128 @@
+import { createGeminiProvider, createLlamaRouterProvider } from './gemini';
+import { createLlamaCppProvider, createOllamaProvider } from './local';
+import { createOpenAiProvider } from './openai';
+import { createStubProvider } from './stub';
+import { LlmCompletion, LlmMessage, LlmProvider, LlmSettings, LlmUseCase, TextListener } from './types';
+
+export * from './types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const USE_CASE_DEFAULTS: Record<LlmUseCase, { temperature: number; maxTokens: number }> = {
+  'encouragement': { temperature: 0.7, maxTokens: 300 },
+  'weekly-insight': { temperature: 0.5, maxTokens: 500 },
+  'streak-break': { temperature: 0.7, maxTokens: 300 },
+  'chat': { temperature: 0.7, maxTokens: 500 },
+  'chat-summary': { temperature: 0.2, maxTokens: 400 },
+  'habit-plan': { temperature: 0.4, maxTokens: 800 },
+  'text-analysis': { temperature: 0, maxTokens: 150 },
+  'monthly-summary': { temperature: 0.5, maxTokens: 500 }
+};
+
+const providers = new Map<string, LlmProvider>();
+
+function createProvider(name: string): LlmProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'llama-router':
+      return createLlamaRouterProvider();
+    case 'openai':
+      return createOpenAiProvider();
+    case 'ollama':
+      return createOllamaProvider();
+    case 'llamacpp':
+      return createLlamaCppProvider();
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+export function getProvider(name: string): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return isFinite(parsed) ? parsed : fallback;
+}
+
+let warnedAboutStub = false;
+
+// Deployments configured before providers were pluggable set LLAMA_ROUTER_URL
+// or GEMINI_API_KEY. Without either the stub answers, which is only meant
+// for development, so that's logged.
+function getDefaultProvider(): string {
+  if (process.env.LLAMA_ROUTER_URL) return 'llama-router';
+  if (process.env.GEMINI_API_KEY) return 'gemini';
+
+  if (!warnedAboutStub) {
+    warnedAboutStub = true;
+    console.warn('No LLM provider is configured; using the stub provider. Set LLM_PROVIDER to use a real model.');
+  }
+  return 'stub';
+}
+
+// Settings come from LLM_* variables, overridable per use case with the use
+// case as a prefix, e.g. LLM_WEEKLY_INSIGHT_MODEL or LLM_STREAK_BREAK_TIMEOUT_MS.
+// Without any configuration the provider is picked by getDefaultProvider.
+export function getLlmSettings(useCase: LlmUseCase): LlmSettings {
+  const prefix = `LLM_${useCase.toUpperCase().replace(/-/g, '_')}_`;
+  const setting = (name: string) => process.env[prefix + name] || process.env[`LLM_${name}`];
+  const defaults = USE_CASE_DEFAULTS[useCase];
+
+  const provider = setting('PROVIDER') || getDefaultProvider();
+
+  return {
+    provider,
+    model: setting('MODEL') || getProvider(provider).defaultModel,
+    temperature: readNumber(setting('TEMPERATURE'), defaults.temperature),
+    maxTokens: readNumber(setting('MAX_TOKENS'), defaults.maxTokens),
+    timeoutMs: readNumber(setting('TIMEOUT_MS'), DEFAULT_TIMEOUT_MS),
+    promptCostPer1k: readNumber(setting('PROMPT_COST_PER_1K'), 0),
+    completionCostPer1k: readNumber(setting('COMPLETION_COST_PER_1K'), 0)
+  };
+}
+
+export async function generateText(useCase: LlmUseCase, prompt: string, onText?: TextListener): Promise<LlmCompletion> {
+  return generateChat(useCase, [{ role: 'user', content: prompt }], onText);
+}
+
+// Streams the completion through onText when it's given
+export async function generateChat(
+  useCase: LlmUseCase,
+  messages: LlmMessage[],
+  onText?: TextListener
+): Promise<LlmCompletion> {
+  const settings = getLlmSettings(useCase);
+  const startedAt = Date.now();
+
+  const response = await getProvider(settings.provider).generate({
+    useCase,
+    messages,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    timeoutMs: settings.timeoutMs,
+    onText
+  });
+
+  const usage = response.usage || { promptTokens: 0, completionTokens: 0 };
+  const costUsd = (usage.promptTokens * settings.promptCostPer1k +
+    usage.completionTokens * settings.completionCostPer1k) / 1000;
+
+  return {
+    ...response,
+    usage,
+    provider: settings.provider,
+    latencyMs: Date.now() - startedAt,
+    costUsd
+  };
+}
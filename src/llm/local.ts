@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { readEventData, readLines } from './stream';
+import { LlmMessage, LlmProvider, LlmUsage } from './types';
+
+// Plain-text transcript for servers that only take a single prompt
+export function toPrompt(messages: LlmMessage[]): string {
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return messages[0].content;
+  }
+
+  const labels = { system: 'System', user: 'User', assistant: 'Assistant' };
+  return messages.map(m => `${labels[m.role]}: ${m.content}`).join('\n\n') + '\n\nAssistant:';
+}
+
+export function createOllamaProvider(): LlmProvider {
+  return {
+    name: 'ollama',
+    defaultModel: 'llama3.1',
+
+    async generate({ messages, model, temperature, maxTokens, timeoutMs, onText }) {
+      const baseUrl = process.env.OLLAMA_URL || 'http://localhost:11434';
+      const url = `${baseUrl.replace(/\/$/, '')}/api/chat`;
+      const body = {
+        model,
+        messages,
+        stream: !!onText,
+        options: { temperature, num_predict: maxTokens }
+      };
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      const getUsage = (data: any) => ({
+        promptTokens: data.prompt_eval_count || 0,
+        completionTokens: data.eval_count || 0
+      });
+
+      if (onText) {
+        const response = await axios.post(url, body, { timeout: timeoutMs, responseType: 'stream' });
+
+        // One JSON object per line; the last has done set and the token counts
+        await readLines(response.data, line => {
+          const data = JSON.parse(line);
+          const chunk = data.message?.content;
+          if (chunk) {
+            text += chunk;
+            onText(chunk);
+          }
+          if (data.done) {
+            usage = getUsage(data);
+          }
+        });
+      } else {
+        const response = await axios.post(url, body, { timeout: timeoutMs });
+        text = response.data.message?.content || '';
+        usage = getUsage(response.data);
+      }
+
+      text = text.trim();
+      if (!text) {
+        throw new Error('Ollama returned an empty completion');
+      }
+
+      return { text, model, usage };
+    }
+  };
+}
+
+// llama.cpp's native server; it serves whichever model it was started with
+export function createLlamaCppProvider(): LlmProvider {
+  return {
+    name: 'llamacpp',
+    defaultModel: 'local',
+
+    async generate({ messages, model, temperature, maxTokens, timeoutMs, onText }) {
+      const baseUrl = process.env.LLAMACPP_URL || 'http://localhost:8080';
+      const url = `${baseUrl.replace(/\/$/, '')}/completion`;
+      const body = { prompt: toPrompt(messages), temperature, n_predict: maxTokens, stream: !!onText };
+
+      let text = '';
+      let responseModel = model;
+      let usage: LlmUsage | undefined;
+      const getUsage = (data: any) => ({
+        promptTokens: data.tokens_evaluated || 0,
+        completionTokens: data.tokens_predicted || 0
+      });
+
+      if (onText) {
+        const response = await axios.post(url, body, { timeout: timeoutMs, responseType: 'stream' });
+
+        // The final event has stop set and the token counts
+        await readEventData(response.data, data => {
+          if (data.content) {
+            text += data.content;
+            onText(data.content);
+          }
+          if (data.stop) {
+            responseModel = data.model || responseModel;
+            usage = getUsage(data);
+          }
+        });
+      } else {
+        const response = await axios.post(url, body, { timeout: timeoutMs });
+        text = response.data.content || '';
+        responseModel = response.data.model || model;
+        usage = getUsage(response.data);
+      }
+
+      text = text.trim();
+      if (!text) {
+        throw new Error('llama.cpp returned an empty completion');
+      }
+
+      return { text, model: responseModel, usage };
+    }
+  };
+}
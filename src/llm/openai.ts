@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { readEventData } from './stream';
+import { LlmProvider, LlmUsage } from './types';
+
+function getUsage(data: any): LlmUsage | undefined {
+  const usage = data.usage;
+  return usage && {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0
+  };
+}
+
+// Any server implementing the OpenAI chat completions API (OpenAI, OpenRouter,
+// vLLM, LM Studio, llama.cpp's /v1 endpoints, ...)
+export function createOpenAiProvider(): LlmProvider {
+  return {
+    name: 'openai',
+    defaultModel: 'gpt-4o-mini',
+
+    async generate({ messages, model, temperature, maxTokens, timeoutMs, onText }) {
+      const baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+      const apiKey = process.env.OPENAI_API_KEY;
+
+      const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+      const body = {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens
+      };
+      const config = {
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json'
+        },
+        timeout: timeoutMs
+      };
+
+      let text = '';
+      let responseModel = model;
+      let usage: LlmUsage | undefined;
+
+      if (onText) {
+        const response = await axios.post(
+          url,
+          { ...body, stream: true, stream_options: { include_usage: true } },
+          { ...config, responseType: 'stream' }
+        );
+
+        await readEventData(response.data, data => {
+          const chunk = data.choices?.[0]?.delta?.content;
+          if (chunk) {
+            text += chunk;
+            onText(chunk);
+          }
+          responseModel = data.model || responseModel;
+          usage = getUsage(data) || usage;
+        });
+      } else {
+        const response = await axios.post(url, body, config);
+        text = response.data.choices?.[0]?.message?.content || '';
+        responseModel = response.data.model || model;
+        usage = getUsage(response.data);
+      }
+
+      text = text.trim();
+      if (!text) {
+        throw new Error('Chat completion was empty');
+      }
+
+      return { text, model: responseModel, usage };
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import { Readable } from 'stream';
+
+// Calls onLine for each non-empty line of a streamed response body
+export async function readLines(body: Readable, onLine: (line: string) => void): Promise<void> {
+  body.setEncoding('utf8');
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += chunk;
+
+    let index;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      if (line.trim()) onLine(line);
+    }
+  }
+
+  if (buffer.trim()) onLine(buffer);
+}
+
+// Server-sent events: calls onData with each parsed JSON data payload.
+// OpenAI's closing [DONE] marker is skipped.
+export async function readEventData(body: Readable, onData: (data: any) => void): Promise<void> {
+  await readLines(body, line => {
+    if (!line.startsWith('data:')) return;
+
+    const payload = line.slice(5).trim();
+    if (payload && payload !== '[DONE]') {
+      onData(JSON.parse(payload));
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import { LlmProvider, LlmUseCase } from './types';
+
+const STUB_MESSAGES: Record<LlmUseCase, string[]> = {
+  'encouragement': [
+    'Nice work checking in today. Small, steady steps are exactly how habits stick.',
+    'Another day done! Your consistency is starting to add up.',
+    'You showed up again today. That is the whole game - keep it going.'
+  ],
+  'weekly-insight': [
+    'Solid week overall. Your best days had something in common - try repeating that setup on your toughest day.',
+    'You kept the habit alive this week. Pick one day that slipped and plan a smaller version of the habit for it.',
+    'Good effort this week. Checking in at a consistent time could make next week even smoother.'
+  ],
+  'streak-break': [
+    'A missed day does not erase what you have built. Check in tomorrow and start the next run.',
+    'Streaks end, progress stays. Every day you completed still counts.',
+    'Take a breath and reset. The best time to restart is the very next day.'
+  ],
+  'chat': [
+    'Good question. Looking at your recent check-ins, the days you miss tend to be the busiest ones - try a smaller version of the habit on those days.',
+    'It sounds like timing matters most for you. Anchoring the habit to something you already do every day could help.',
+    'You are doing better than it feels. Focus on not missing twice in a row and the streak will take care of itself.'
+  ],
+  'chat-summary': [
+    'Earlier in this conversation the user asked about their habit progress and the coach suggested small, consistent adjustments.'
+  ],
+  'habit-plan': [
+    JSON.stringify({
+      suggestions: [
+        {
+          habit_name: 'Take a 10-minute walk',
+          category: 'Health',
+          difficulty: 'easy',
+          reasons: ['A short daily walk is easy to start and builds a base for more activity.']
+        },
+        {
+          habit_name: 'Write down one thing you learned today',
+          category: 'Learning',
+          difficulty: 'easy',
+          reasons: ['Writing it down makes progress visible and helps it stick.']
+        }
+      ]
+    })
+  ],
+  'text-analysis': [
+    JSON.stringify({ sentiment: 'positive', obstacles: [], themes: ['progress'] }),
+    JSON.stringify({ sentiment: 'negative', obstacles: ['tired'], themes: ['sleep'] }),
+    JSON.stringify({ sentiment: 'mixed', obstacles: ['busy at work'], themes: ['time management'] })
+  ],
+  'monthly-summary': [
+    'This month you wrote most about fitting your habits around a busy schedule. Tiredness came up on several days - try moving the habit earlier on the days you expect to be drained.',
+    'Your notes this month were mostly upbeat, with a dip mid-month when things got hectic. The weeks you planned ahead read noticeably calmer - keep doing that.'
+  ]
+};
+
+// Deterministic replies for offline development: the same prompt always gets
+// the same message, and no network calls are made
+export function createStubProvider(): LlmProvider {
+  return {
+    name: 'stub',
+    defaultModel: 'stub',
+
+    async generate({ useCase, messages, model, onText }) {
+      const prompt = messages.map(m => m.content).join('\n');
+      let hash = 0;
+      for (let i = 0; i < prompt.length; i++) {
+        hash = (hash * 31 + prompt.charCodeAt(i)) >>> 0;
+      }
+
+      const replies = STUB_MESSAGES[useCase];
+      const text = replies[hash % replies.length];
+
+      // Streams word by word, like a real provider would
+      if (onText) {
+        for (const word of text.match(/\S+\s*/g) || []) {
+          onText(word);
+        }
+      }
+
+      return {
+        text,
+        model,
+        usage: { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(text.length / 4) }
+      };
+    }
+  };
+}
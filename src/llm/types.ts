@@ -0,0 +1,63 @@
+export type LlmUseCase =
+  | 'encouragement'
+  | 'weekly-insight'
+  | 'streak-break'
+  | 'chat'
+  | 'chat-summary'
+  | 'habit-plan'
+  | 'text-analysis'
+  | 'monthly-summary';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  // USD per 1,000 tokens, for cost accounting
+  promptCostPer1k: number;
+  completionCostPer1k: number;
+}
+
+// Receives each piece of text as a streaming provider produces it
+export type TextListener = (chunk: string) => void;
+
+export interface LlmRequest {
+  useCase: LlmUseCase;
+  messages: LlmMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  // When set, the provider streams and calls this as text arrives
+  onText?: TextListener;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmCompletion extends LlmResponse {
+  provider: string;
+  latencyMs: number;
+  costUsd: number;
+}
+
+// Providers throw on transport errors and empty completions
+export interface LlmProvider {
+  name: string;
+  defaultModel: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
@@ -1,11 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
+import { Locale } from '../i18n';
+import { sendError } from './errors';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email?: string;
   };
+  // Set by getRequestLocale
+  locale?: Locale;
 }
 
 export async function authenticateUser(
@@ -17,15 +21,15 @@ export async function authenticateUser(
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
+      return sendError(req, res, 401, 'NO_TOKEN');
     }
 
     const token = authHeader.split('Bearer ')[1];
     
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await repositories.auth.getUser(token);
     
-    if (error || !user) {
-      return res.status(401).json({ error: 'Invalid token' });
+    if (!user) {
+      return sendError(req, res, 401, 'INVALID_TOKEN');
     }
 
     req.user = {
@@ -36,7 +40,12 @@ export async function authenticateUser(
     next();
   } catch (error) {
     console.error('Authentication error:', error);
-    return res.status(401).json({ error: 'Authentication failed' });
+    return sendError(req, res, 401, 'AUTH_FAILED');
   }
 }
 
+// Comma-separated user IDs in ADMIN_USER_IDS
+export function isAdmin(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return adminIds.includes(userId);
+}
@@ -0,0 +1,36 @@
+import { Response } from 'express';
+import { repositories } from '../repositories';
+import { ApiError, DEFAULT_LOCALE, ErrorCode, Locale, parseAcceptLanguage, parseLocale, translateError } from '../i18n';
+import { AuthenticatedRequest } from './auth';
+
+// The locale on the user's profile, else the Accept-Language header, else
+// English. Looked up once per request.
+export async function getRequestLocale(req: AuthenticatedRequest): Promise<Locale> {
+  if (req.locale) return req.locale;
+
+  let locale: Locale | null = null;
+  if (req.user) {
+    try {
+      locale = parseLocale((await repositories.profiles.findById(req.user.id))?.locale);
+    } catch (error) {
+      console.error('Error loading profile locale:', error);
+    }
+  }
+
+  req.locale = locale || parseAcceptLanguage(req.headers['accept-language']) || DEFAULT_LOCALE;
+  return req.locale;
+}
+
+// Responds with a stable error code and a message in the user's language
+export async function sendError(
+  req: AuthenticatedRequest,
+  res: Response,
+  status: number,
+  error: ErrorCode | ApiError,
+  extra: object = {}
+) {
+  const { code, params } = typeof error === 'string' ? { code: error, params: undefined } : error;
+  const locale = await getRequestLocale(req);
+
+  res.status(status).json({ error: translateError(locale, { code, params }), code, ...extra });
+}
@@ -0,0 +1,51 @@
+import { createOpenAiModerationModel } from './openai';
+import { classifyWithRules, strictestAction } from './rules';
+import { ContentKind, ModerationModel, ModerationResult } from './types';
+
+export * from './types';
+
+let model: ModerationModel | null | undefined;
+
+// MODERATION_PROVIDER picks a model that runs after the local rules:
+// 'openai' or 'none' (default)
+function getModel(): ModerationModel | null {
+  if (model === undefined) {
+    const name = process.env.MODERATION_PROVIDER || 'none';
+    switch (name) {
+      case 'none':
+        model = null;
+        break;
+      case 'openai':
+        model = createOpenAiModerationModel();
+        break;
+      default:
+        throw new Error(`Unknown moderation provider: ${name}`);
+    }
+  }
+  return model;
+}
+
+export function setModerationModel(custom: ModerationModel | null) {
+  model = custom;
+}
+
+// The stricter of the rules and the model. Text the rules already block
+// isn't sent to the model, and model errors leave the rules' verdict.
+export async function moderateText(text: string, kind: ContentKind): Promise<ModerationResult> {
+  const rules = classifyWithRules(text, kind);
+  const classifier = getModel();
+  if (!classifier || rules.action === 'block') {
+    return rules;
+  }
+
+  try {
+    const result = await classifier.classify(text, kind);
+    return {
+      action: strictestAction([rules.action, result.action]),
+      categories: Array.from(new Set([...rules.categories, ...result.categories]))
+    };
+  } catch (error: any) {
+    console.error(`Moderation error (${classifier.name}):`, error.response?.data || error.message);
+    return rules;
+  }
+}
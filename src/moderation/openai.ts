@@ -0,0 +1,59 @@
+import axios from 'axios';
+import { strictestAction } from './rules';
+import { ModerationAction, ModerationCategory, ModerationModel } from './types';
+
+// Subcategories severe enough to reject a message outright
+const BLOCKED_CATEGORIES = [
+  'harassment/threatening',
+  'hate/threatening',
+  'self-harm/instructions',
+  'sexual/minors',
+  'illicit/violent'
+];
+
+const CATEGORY_NAMES: Record<string, ModerationCategory> = {
+  'harassment': 'harassment',
+  'hate': 'hate',
+  'self-harm': 'self-harm',
+  'sexual': 'sexual',
+  'violence': 'violence',
+  'illicit': 'unsafe-advice'
+};
+
+// The OpenAI moderations endpoint, or any server implementing it
+export function createOpenAiModerationModel(): ModerationModel {
+  return {
+    name: 'openai',
+
+    async classify(text) {
+      const baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+      const apiKey = process.env.OPENAI_API_KEY;
+
+      const response = await axios.post(
+        `${baseUrl.replace(/\/$/, '')}/moderations`,
+        { model: process.env.MODERATION_MODEL || 'omni-moderation-latest', input: text },
+        {
+          headers: {
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+            'Content-Type': 'application/json'
+          },
+          timeout: parseInt(process.env.MODERATION_TIMEOUT_MS || '5000')
+        }
+      );
+
+      const result = response.data.results?.[0];
+      if (!result) {
+        throw new Error('Moderation response had no results');
+      }
+
+      const flagged = Object.keys(result.categories || {}).filter(name => result.categories[name]);
+      const actions: ModerationAction[] = flagged.map(name => BLOCKED_CATEGORIES.includes(name) ? 'block' : 'flag');
+      const categories = flagged.map(name => CATEGORY_NAMES[name.split('/')[0]]).filter(Boolean);
+
+      return {
+        action: result.flagged ? strictestAction(['flag', ...actions]) : 'allow',
+        categories: Array.from(new Set(categories))
+      };
+    }
+  };
+}
@@ -0,0 +1,87 @@
+import { ContentKind, ModerationAction, ModerationCategory, ModerationResult } from './types';
+
+interface Rule {
+  category: ModerationCategory;
+  action: ModerationAction;
+  pattern: RegExp;
+  // Applies to every kind when omitted
+  kinds?: ContentKind[];
+}
+
+const RULES: Rule[] = [
+  { category: 'harassment', action: 'block', pattern: /\b(kill|hang|shoot) (yo)?urself\b|\bkys\b/ },
+  {
+    category: 'violence',
+    action: 'block',
+    pattern: /\b(i'?ll|i will|i'?m (gonna|going to)|gonna) (kill|hurt|beat|stab|shoot|find) you\b/
+  },
+  { category: 'harassment', action: 'flag', pattern: /\b(idiot|stupid|loser|pathetic|worthless|useless|moron|dumb|shut up)\b/ },
+  { category: 'profanity', action: 'flag', pattern: /\bf+u+c+k+|\bsh+i+t+|\bbitch|\bassholes?\b|\bcunts?\b/ },
+  { category: 'self-harm', action: 'flag', pattern: /\b(suicid\w*|kill myself|end (it all|my life)|self[- ]?harm\w*|cut myself)\b/ },
+  { category: 'spam', action: 'flag', pattern: /https?:\/\/|\bwww\.|(.)\1{9,}/, kinds: ['message'] },
+
+  // Advice a habit coach must never give
+  {
+    category: 'unsafe-advice',
+    action: 'block',
+    pattern: /\b(stop|skip|quit|reduce|cut back on) (taking )?(your |any )?(medications?|meds|insulin|prescriptions?)\b/,
+    kinds: ['ai-output']
+  },
+  {
+    category: 'unsafe-advice',
+    action: 'block',
+    pattern: /\b(don'?t|do not|stop) eat(ing)? (at all|anything|for \w+ days)\b|\bfast(ing)? for (\d+|several|a few) days\b|\b[1-7]\d{2} ?(calories|kcal) (a|per) day\b/,
+    kinds: ['ai-output']
+  },
+  {
+    category: 'unsafe-advice',
+    action: 'block',
+    pattern: /\b(push|work|train|run) through (the |any )?(pain|injury|chest pain)\b|\b(skip|without|no) sleep(ing)? for\b/,
+    kinds: ['ai-output']
+  }
+];
+
+// Common character swaps used to slip past keyword lists
+const SUBSTITUTIONS: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '@': 'a', '$': 's' };
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[01345@$]/g, c => SUBSTITUTIONS[c])
+    .replace(/\s+/g, ' ');
+}
+
+// MODERATION_BLOCKED_TERMS and MODERATION_FLAGGED_TERMS add comma-separated
+// terms to the built-in rules, reported as harassment
+function getConfiguredTerms(variable: string): string[] {
+  return (process.env[variable] || '').split(',').map(term => normalize(term.trim())).filter(Boolean);
+}
+
+const ACTION_RANK: Record<ModerationAction, number> = { allow: 0, flag: 1, block: 2 };
+
+export function strictestAction(actions: ModerationAction[]): ModerationAction {
+  return actions.reduce<ModerationAction>((strictest, action) =>
+    ACTION_RANK[action] > ACTION_RANK[strictest] ? action : strictest, 'allow');
+}
+
+export function classifyWithRules(text: string, kind: ContentKind): ModerationResult {
+  const normalized = normalize(text);
+  // Digits are kept for rules about amounts
+  const lowered = text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+
+  const matches: { category: ModerationCategory; action: ModerationAction }[] = RULES
+    .filter(rule => !rule.kinds || rule.kinds.includes(kind))
+    .filter(rule => rule.pattern.test(normalized) || rule.pattern.test(lowered));
+
+  for (const [variable, action] of [['MODERATION_BLOCKED_TERMS', 'block'], ['MODERATION_FLAGGED_TERMS', 'flag']] as const) {
+    if (getConfiguredTerms(variable).some(term => normalized.includes(term))) {
+      matches.push({ category: 'harassment', action });
+    }
+  }
+
+  return {
+    action: strictestAction(matches.map(m => m.action)),
+    categories: Array.from(new Set(matches.map(m => m.category)))
+  };
+}
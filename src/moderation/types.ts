@@ -0,0 +1,25 @@
+export type ModerationAction = 'allow' | 'flag' | 'block';
+
+export type ModerationCategory =
+  | 'harassment'
+  | 'hate'
+  | 'profanity'
+  | 'self-harm'
+  | 'sexual'
+  | 'violence'
+  | 'spam'
+  | 'unsafe-advice';
+
+// Partner messages are held or rejected; AI output is replaced
+export type ContentKind = 'message' | 'ai-output';
+
+export interface ModerationResult {
+  action: ModerationAction;
+  categories: ModerationCategory[];
+}
+
+// Classifiers throw on transport errors
+export interface ModerationModel {
+  name: string;
+  classify(text: string, kind: ContentKind): Promise<ModerationResult>;
+}
@@ -0,0 +1,57 @@
+import { EncouragementContext, PromptTemplate } from './types';
+
+function formatDays(lastSevenDays: (boolean | null)[]): string {
+  return lastSevenDays.map(d => d === null ? '–' : d ? '✓' : '✗').join(' ') +
+    (lastSevenDays.includes(null) ? ' (– = rest day)' : '');
+}
+
+function renderV1(data: EncouragementContext): string {
+  const { habitName, category, streakLength, lastSevenDays, dayOfWeek, milestone } = data;
+  
+  const daysDisplay = formatDays(lastSevenDays);
+  
+  let prompt = `You are an encouraging and supportive habit coach. A user just checked in for their daily habit.
+
+Habit: ${habitName}
+Category: ${category}
+Current Streak: ${streakLength} days
+Last 7 Days: ${daysDisplay}
+Day of Week: ${dayOfWeek}
+${milestone ? `🎉 MILESTONE: ${milestone}!` : ''}
+
+Generate a personalized, encouraging message (50-150 words) that:
+1. Celebrates their check-in today
+2. Acknowledges their current streak ${milestone ? 'and milestone achievement' : ''}
+3. ${streakLength < 7 ? 'Encourages them to keep building momentum' : 'Reinforces their consistency'}
+4. Is warm, genuine, and not overly generic
+5. Uses their actual habit name naturally
+
+Be conversational and human. Avoid clichés. Make them feel genuinely supported.`;
+
+  return prompt;
+}
+
+// Shorter and more concrete: points at the numbers instead of general praise
+function renderV2(data: EncouragementContext): string {
+  const { habitName, category, streakLength, lastSevenDays, dayOfWeek, milestone } = data;
+  const completedThisWeek = lastSevenDays.filter(d => d === true).length;
+
+  return `You are a habit coach who keeps things short and specific. A user just checked in.
+
+Habit: ${habitName} (${category})
+Current Streak: ${streakLength} days
+Last 7 Days: ${formatDays(lastSevenDays)} (${completedThisWeek} completed)
+Day of Week: ${dayOfWeek}
+${milestone ? `Milestone reached: ${milestone}` : ''}
+
+Write 2-3 sentences (under 60 words) that:
+1. Name one concrete thing from their numbers worth noticing${milestone ? ', starting with the milestone' : ''}
+2. Suggest what to aim for tomorrow
+
+No exclamation-mark cheerleading or generic motivation. Sound like a friend who pays attention.`;
+}
+
+export const encouragementTemplates: PromptTemplate<EncouragementContext>[] = [
+  { version: 'v1', weight: 50, render: renderV1 },
+  { version: 'v2', weight: 50, render: renderV2 }
+];
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { encouragementTemplates } from './encouragement';
+import { streakBreakTemplates } from './streakBreak';
+import { PromptName, PromptTemplate } from './types';
+import { weeklyInsightTemplates } from './weeklyInsight';
+
+export * from './types';
+
+const TEMPLATES: Record<PromptName, PromptTemplate<any>[]> = {
+  'encouragement': encouragementTemplates,
+  'weekly-insight': weeklyInsightTemplates,
+  'streak-break': streakBreakTemplates
+};
+
+export const PROMPT_NAMES = Object.keys(TEMPLATES) as PromptName[];
+
+// PROMPT_WEIGHTS_ENCOURAGEMENT=v1:80,v2:20 overrides the template weights;
+// versions it leaves out get no users. Ignored unless some weight is positive.
+export function getPromptWeights(name: PromptName): { version: string; weight: number }[] {
+  const defaults = TEMPLATES[name].map(t => ({ version: t.version, weight: t.weight }));
+  const configured = process.env[`PROMPT_WEIGHTS_${name.toUpperCase().replace(/-/g, '_')}`];
+  if (!configured) return defaults;
+
+  const overrides = new Map<string, number>();
+  for (const entry of configured.split(',')) {
+    const [version, weight] = entry.split(':').map(part => part.trim());
+    const parsed = Number(weight);
+    if (version && isFinite(parsed) && parsed >= 0) {
+      overrides.set(version, parsed);
+    }
+  }
+
+  const weights = defaults.map(d => ({ version: d.version, weight: overrides.get(d.version) ?? 0 }));
+  return weights.some(w => w.weight > 0) ? weights : defaults;
+}
+
+// Users keep the same version as long as the weights don't change
+export function selectPromptTemplate<T>(name: PromptName, userId: string): PromptTemplate<T> {
+  const weights = getPromptWeights(name);
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+  const bucket = parseInt(createHash('sha256').update(`${name}:${userId}`).digest('hex').slice(0, 8), 16) % total;
+
+  let cumulative = 0;
+  for (const { version, weight } of weights) {
+    cumulative += weight;
+    if (bucket < cumulative) {
+      return TEMPLATES[name].find(t => t.version === version)!;
+    }
+  }
+
+  return TEMPLATES[name][0];
+}
@@ -0,0 +1,48 @@
+import { PromptTemplate, StreakBreakContext } from './types';
+
+function renderV1(data: StreakBreakContext): string {
+  const { habitName, brokenStreakLength, totalDaysActive, previousLongestStreak } = data;
+  
+  let prompt = `You are a compassionate habit coach. A user just broke their streak.
+
+Habit: ${habitName}
+Broken Streak: ${brokenStreakLength} days
+Total Days Active: ${totalDaysActive}
+Previous Longest Streak: ${previousLongestStreak} days
+
+Generate a supportive message (75-150 words) that:
+1. Acknowledges the break without judgment
+2. Reframes it positively (progress isn't erased)
+3. Reminds them of their total accomplishments
+4. Encourages immediate restart
+5. Is empathetic and forward-looking
+
+This is a vulnerable moment. Be genuinely understanding and motivating.`;
+
+  return prompt;
+}
+
+// Practical rather than consoling: focuses on the smallest next step
+function renderV2(data: StreakBreakContext): string {
+  const { habitName, brokenStreakLength, totalDaysActive, previousLongestStreak } = data;
+
+  return `You are a practical habit coach. A user just missed a day and their streak ended.
+
+Habit: ${habitName}
+Broken Streak: ${brokenStreakLength} days
+Total Days Active: ${totalDaysActive}
+Previous Longest Streak: ${previousLongestStreak} days
+
+Write a short message (50-100 words) that:
+1. Briefly acknowledges the miss without dwelling on it
+2. Points out that ${totalDaysActive} days of practice still count
+3. Suggests the smallest possible version of the habit to do tomorrow
+4. Mentions "never miss twice" as a rule of thumb
+
+Keep it calm and matter-of-fact.`;
+}
+
+export const streakBreakTemplates: PromptTemplate<StreakBreakContext>[] = [
+  { version: 'v1', weight: 50, render: renderV1 },
+  { version: 'v2', weight: 50, render: renderV2 }
+];
@@ -0,0 +1,41 @@
+import { Locale } from '../i18n';
+
+export type PromptName = 'encouragement' | 'weekly-insight' | 'streak-break';
+
+export interface PromptTemplate<T> {
+  version: string;
+  // Relative share of users who get this version; PROMPT_WEIGHTS_* overrides
+  weight: number;
+  render(data: T): string;
+}
+
+// Every context carries the language the reply should be written in
+export interface EncouragementContext {
+  locale: Locale;
+  habitName: string;
+  category: string;
+  streakLength: number;
+  lastSevenDays: (boolean | null)[];
+  dayOfWeek: string;
+  milestone?: string;
+}
+
+export interface WeeklyInsightContext {
+  locale: Locale;
+  habitName: string;
+  weekCheckIns: boolean[];
+  bestDay: string;
+  worstDay: string;
+  checkInTimes: string[];
+  partnerCheckIns: number;
+  // Most mentioned first
+  topObstacles: string[];
+}
+
+export interface StreakBreakContext {
+  locale: Locale;
+  habitName: string;
+  brokenStreakLength: number;
+  totalDaysActive: number;
+  previousLongestStreak: number;
+}
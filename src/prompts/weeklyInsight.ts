@@ -0,0 +1,36 @@
+import { PromptTemplate, WeeklyInsightContext } from './types';
+
+function renderV1(data: WeeklyInsightContext): string {
+  const { habitName, weekCheckIns, bestDay, worstDay, checkInTimes, partnerCheckIns, topObstacles } = data;
+  
+  const successCount = weekCheckIns.filter(d => d).length;
+  const dayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const daysDisplay = weekCheckIns.map((d, i) => 
+    `${dayNames[i]}: ${d ? '✓' : '✗'}`
+  ).join(', ');
+  
+  let prompt = `You are a thoughtful habit analyst. Analyze this user's weekly performance.
+
+Habit: ${habitName}
+This Week: ${successCount}/7 check-ins
+Days: ${daysDisplay}
+Best Day: ${bestDay}
+Challenging Day: ${worstDay}
+Check-in Times: ${checkInTimes.join(', ')}
+Partner's Check-ins: ${partnerCheckIns}/7
+${topObstacles.length > 0 ? `Obstacles They Wrote About: ${topObstacles.join(', ')}\n` : ''}
+Generate an insightful weekly summary (100-200 words) that:
+1. Celebrates what went well
+2. Identifies patterns (e.g., better on weekdays, struggles on weekends)
+3. Offers ONE specific, actionable insight to improve${topObstacles.length > 0 ? ', ideally addressing an obstacle they mentioned' : ''}
+4. Mentions their accountability partner's performance briefly
+5. Is analytical but encouraging
+
+Be specific to their data. Avoid generic advice.`;
+
+  return prompt;
+}
+
+export const weeklyInsightTemplates: PromptTemplate<WeeklyInsightContext>[] = [
+  { version: 'v1', weight: 100, render: renderV1 }
+];
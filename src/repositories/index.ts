@@ -0,0 +1,55 @@
+import { createMemoryRepositories } from './memory';
+import { createSupabaseRepositories } from './supabase';
+import { Repositories } from './types';
+
+export * from './types';
+
+let instance: Repositories | null = null;
+
+// STORAGE_DRIVER selects the backend: 'supabase' (default) or 'memory'
+function createRepositories(driver: string): Repositories {
+  switch (driver) {
+    case 'supabase':
+      return createSupabaseRepositories();
+    case 'memory':
+      // Its auth takes any bearer token as a user ID, so it must never serve real users
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The memory storage driver is for development only and cannot run in production');
+      }
+      return createMemoryRepositories();
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+export function getRepositories(): Repositories {
+  if (!instance) {
+    instance = createRepositories(process.env.STORAGE_DRIVER || 'supabase');
+  }
+  return instance;
+}
+
+export function setRepositories(repositories: Repositories) {
+  instance = repositories;
+}
+
+// Resolves the configured driver on first use, after the environment is loaded
+export const repositories: Repositories = {
+  get profiles() { return getRepositories().profiles; },
+  get habits() { return getRepositories().habits; },
+  get checkIns() { return getRepositories().checkIns; },
+  get habitStats() { return getRepositories().habitStats; },
+  get partnerships() { return getRepositories().partnerships; },
+  get messages() { return getRepositories().messages; },
+  get nudges() { return getRepositories().nudges; },
+  get blocks() { return getRepositories().blocks; },
+  get reports() { return getRepositories().reports; },
+  get circles() { return getRepositories().circles; },
+  get reflections() { return getRepositories().reflections; },
+  get notifications() { return getRepositories().notifications; },
+  get realtimeEvents() { return getRepositories().realtimeEvents; },
+  get aiResponses() { return getRepositories().aiResponses; },
+  get aiFeedback() { return getRepositories().aiFeedback; },
+  get conversations() { return getRepositories().conversations; },
+  get auth() { return getRepositories().auth; }
+};
@@ -0,0 +1,466 @@
+import { randomUUID } from 'crypto';
+import {
+  AiFeedback,
+  AiResponse,
+  Block,
+  CheckIn,
+  Circle,
+  CircleMember,
+  CircleMessage,
+  Conversation,
+  ConversationMessage,
+  DateRange,
+  Habit,
+  HabitStats,
+  Message,
+  Notification,
+  Nudge,
+  Partnership,
+  Profile,
+  RealtimeEvent,
+  Reflection,
+  Report,
+  Repositories,
+  RestDay,
+  StreakFreeze
+} from './types';
+
+// In-process storage for local development and tests. Data lives only as
+// long as the process does.
+class MemoryTable<T extends { id: string; created_at?: string }> {
+  private rows = new Map<string, T>();
+
+  insert(row: Omit<T, 'id' | 'created_at'> & { id?: string }): T {
+    const created = { ...row, id: row.id || randomUUID(), created_at: new Date().toISOString() } as T;
+    this.rows.set(created.id, created);
+    return { ...created };
+  }
+
+  get(id: string): T | null {
+    const row = this.rows.get(id);
+    return row ? { ...row } : null;
+  }
+
+  update(id: string, changes: Partial<T>): T | null {
+    const row = this.rows.get(id);
+    if (!row) return null;
+    const updated = { ...row, ...changes, id: row.id };
+    this.rows.set(id, updated);
+    return { ...updated };
+  }
+
+  remove(id: string): T | null {
+    const row = this.get(id);
+    this.rows.delete(id);
+    return row;
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return Array.from(this.rows.values()).filter(predicate).map(row => ({ ...row }));
+  }
+
+  find(predicate: (row: T) => boolean): T | null {
+    return this.filter(predicate)[0] || null;
+  }
+
+  removeWhere(predicate: (row: T) => boolean) {
+    for (const [id, row] of this.rows) {
+      if (predicate(row)) this.rows.delete(id);
+    }
+  }
+}
+
+function mustExist<T>(row: T | null, table: string): T {
+  if (!row) throw new Error(`Row not found in ${table}`);
+  return row;
+}
+
+function inRange(date: string, range: DateRange): boolean {
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+function byKey<T>(key: (row: T) => any, descending = false) {
+  return (a: T, b: T) => {
+    const left = key(a);
+    const right = key(b);
+    if (left === right) return 0;
+    if (left === null || left === undefined) return 1;
+    if (right === null || right === undefined) return -1;
+    return (left < right ? -1 : 1) * (descending ? -1 : 1);
+  };
+}
+
+export function createMemoryRepositories(): Repositories {
+  const profiles = new MemoryTable<Profile>();
+  const habits = new MemoryTable<Habit>();
+  const checkIns = new MemoryTable<CheckIn>();
+  const restDays = new MemoryTable<RestDay>();
+  const freezes = new MemoryTable<StreakFreeze>();
+  const habitStats = new Map<string, HabitStats>();
+  const partnerships = new MemoryTable<Partnership>();
+  const messages = new MemoryTable<Message>();
+  const nudges = new MemoryTable<Nudge>();
+  const blocks = new MemoryTable<Block>();
+  const reports = new MemoryTable<Report>();
+  const circles = new MemoryTable<Circle>();
+  const circleMembers = new MemoryTable<CircleMember>();
+  const circleMessages = new MemoryTable<CircleMessage>();
+  const reflections = new MemoryTable<Reflection>();
+  const notifications = new MemoryTable<Notification>();
+  const realtimeEvents = new MemoryTable<RealtimeEvent>();
+  let lastEventSeq = 0;
+  const aiResponses = new MemoryTable<AiResponse>();
+  const aiFeedback = new MemoryTable<AiFeedback>();
+  const conversations = new MemoryTable<Conversation>();
+  const conversationMessages = new MemoryTable<ConversationMessage>();
+
+  return {
+    profiles: {
+      findById: async id => profiles.get(id),
+      findByIds: async ids => profiles.filter(p => ids.includes(p.id)),
+      findWithReminders: async () =>
+        profiles.filter(p => p.reminder_enabled === true && p.reminder_time !== null && p.reminder_time !== undefined),
+      create: async profile => {
+        if (profiles.get(profile.id)) throw new Error('Profile already exists');
+        return profiles.insert(profile);
+      },
+      update: async (id, changes) => profiles.update(id, changes)
+    },
+
+    habits: {
+      findById: async id => habits.get(id),
+      findByIdForUser: async (id, userId) => habits.find(h => h.id === id && h.user_id === userId),
+      listActive: async userId =>
+        habits
+          .filter(h => h.user_id === userId && h.is_active)
+          .sort((a, b) => byKey<Habit>(h => h.sort_order)(a, b) || byKey<Habit>(h => h.created_at)(a, b)),
+      listArchived: async userId =>
+        habits
+          .filter(h => h.user_id === userId && !h.is_active)
+          .sort(byKey<Habit>(h => h.archived_at, true)),
+      listVisible: async (excludeUserIds, limit, categories) =>
+        habits
+          .filter(h =>
+            h.is_active &&
+            !excludeUserIds.includes(h.user_id) &&
+            ['public', 'partner-only'].includes(h.privacy_setting) &&
+            (!categories || categories.length === 0 || categories.includes(h.category))
+          )
+          .sort(byKey<Habit>(h => h.created_at, true))
+          .slice(0, limit),
+      listAllActive: async () => habits.filter(h => h.is_active),
+      create: async habit => habits.insert(habit),
+      update: async (id, changes) => mustExist(habits.update(id, changes), 'habits')
+    },
+
+    checkIns: {
+      findByDate: async (habitId, date) => checkIns.find(c => c.habit_id === habitId && c.date === date),
+      listForHabit: async (habitId, range = {}, descending = false) =>
+        checkIns
+          .filter(c => c.habit_id === habitId && inRange(c.date, range))
+          .sort(byKey<CheckIn>(c => c.date, descending)),
+      listForUser: async (userId, range = {}) =>
+        checkIns
+          .filter(c => c.user_id === userId && inRange(c.date, range))
+          .sort(byKey<CheckIn>(c => c.date)),
+      listForUsers: async (userIds, range = {}) =>
+        checkIns
+          .filter(c => userIds.includes(c.user_id) && inRange(c.date, range))
+          .sort(byKey<CheckIn>(c => c.date)),
+      listCompletedDates: async habitId =>
+        checkIns.filter(c => c.habit_id === habitId && c.completed).map(c => c.date),
+      create: async checkIn => {
+        if (checkIns.find(c => c.habit_id === checkIn.habit_id && c.date === checkIn.date)) {
+          throw new Error('Check-in already exists for this date');
+        }
+        return checkIns.insert(checkIn);
+      },
+      update: async (id, changes) => mustExist(checkIns.update(id, changes), 'check_ins'),
+
+      listRestDays: async habitId =>
+        restDays.filter(r => r.habit_id === habitId).sort(byKey<RestDay>(r => r.date)),
+      findRestDay: async (habitId, date) => restDays.find(r => r.habit_id === habitId && r.date === date),
+      createRestDay: async restDay => restDays.insert(restDay),
+      deleteRestDay: async (habitId, userId, date) => {
+        const restDay = restDays.find(r => r.habit_id === habitId && r.user_id === userId && r.date === date);
+        return restDay ? restDays.remove(restDay.id) : null;
+      },
+
+      listFreezes: async habitId => freezes.filter(f => f.habit_id === habitId),
+      createFreeze: async freeze => freezes.insert(freeze)
+    },
+
+    habitStats: {
+      findByHabit: async habitId => {
+        const stats = habitStats.get(habitId);
+        return stats ? { ...stats } : null;
+      },
+      save: async stats => {
+        const saved = { ...stats, updated_at: new Date().toISOString() };
+        habitStats.set(stats.habit_id, saved);
+        return { ...saved };
+      }
+    },
+
+    partnerships: {
+      findById: async id => partnerships.get(id),
+      findAcceptedForUser: async userId =>
+        partnerships.find(p => p.status === 'accepted' && (p.requester_id === userId || p.receiver_id === userId)),
+      listAcceptedForUser: async userId =>
+        partnerships.filter(p => p.status === 'accepted' && (p.requester_id === userId || p.receiver_id === userId)),
+      findPending: async (requesterId, receiverId) =>
+        partnerships.find(p => p.status === 'pending' && p.requester_id === requesterId && p.receiver_id === receiverId),
+      listPendingForUser: async userId =>
+        partnerships.filter(p => p.status === 'pending' && (p.requester_id === userId || p.receiver_id === userId)),
+      create: async partnership => partnerships.insert(partnership),
+      update: async (id, changes) => mustExist(partnerships.update(id, changes), 'partnerships')
+    },
+
+    messages: {
+      findById: async id => messages.get(id),
+      listForPartnership: async (partnershipId, limit) =>
+        messages
+          .filter(m => m.partnership_id === partnershipId)
+          .sort(byKey<Message>(m => m.created_at, true))
+          .slice(0, limit),
+      listByModerationStatus: async (status, limit) =>
+        messages
+          .filter(m => m.moderation_status === status)
+          .sort(byKey<Message>(m => m.created_at))
+          .slice(0, limit),
+      countDelivered: async (partnershipId, fromUserId) =>
+        messages.filter(m =>
+          m.partnership_id === partnershipId &&
+          m.from_user_id === fromUserId &&
+          (m.moderation_status || 'approved') === 'approved'
+        ).length,
+      create: async message => messages.insert({ ...message, is_read: false }),
+      update: async (id, changes) => mustExist(messages.update(id, changes), 'messages')
+    },
+
+    nudges: {
+      findForDate: async (fromUserId, toUserId, date) =>
+        nudges.find(n => n.from_user_id === fromUserId && n.to_user_id === toUserId && n.date === date),
+      listSince: async (since, userId) =>
+        nudges.filter(n =>
+          n.created_at! >= since.toISOString() &&
+          (!userId || n.from_user_id === userId || n.to_user_id === userId)
+        ),
+      create: async nudge => nudges.insert(nudge)
+    },
+
+    blocks: {
+      findBetween: async (userId, otherUserId) =>
+        blocks.find(b =>
+          (b.blocker_id === userId && b.blocked_id === otherUserId) ||
+          (b.blocker_id === otherUserId && b.blocked_id === userId)
+        ),
+      listForUser: async userId =>
+        blocks
+          .filter(b => b.blocker_id === userId || b.blocked_id === userId)
+          .sort(byKey<Block>(b => b.created_at, true)),
+      create: async block => blocks.insert(block),
+      delete: async (blockerId, blockedId) => {
+        const block = blocks.find(b => b.blocker_id === blockerId && b.blocked_id === blockedId);
+        return block ? blocks.remove(block.id) : null;
+      }
+    },
+
+    reports: {
+      findById: async id => reports.get(id),
+      listByStatus: async (status, limit) =>
+        reports
+          .filter(r => r.status === status)
+          .sort(byKey<Report>(r => r.created_at))
+          .slice(0, limit),
+      create: async report => reports.insert(report),
+      update: async (id, changes) => mustExist(reports.update(id, changes), 'reports')
+    },
+
+    circles: {
+      findById: async id => circles.get(id),
+      findByInviteCode: async inviteCode => circles.find(c => c.invite_code === inviteCode),
+      listForUser: async userId => {
+        const circleIds = circleMembers.filter(m => m.user_id === userId).map(m => m.circle_id);
+        return circles.filter(c => circleIds.includes(c.id)).sort(byKey<Circle>(c => c.created_at));
+      },
+      create: async circle => circles.insert(circle),
+      update: async (id, changes) => mustExist(circles.update(id, changes), 'circles'),
+      delete: async id => {
+        circles.remove(id);
+        circleMembers.removeWhere(m => m.circle_id === id);
+        circleMessages.removeWhere(m => m.circle_id === id);
+      },
+      // Insertion order breaks ties between members who joined in the same millisecond
+      listMembers: async circleId => circleMembers.filter(m => m.circle_id === circleId),
+      findMember: async (circleId, userId) =>
+        circleMembers.find(m => m.circle_id === circleId && m.user_id === userId),
+      addMember: async member => {
+        if (circleMembers.find(m => m.circle_id === member.circle_id && m.user_id === member.user_id)) {
+          throw new Error('Already a member of this circle');
+        }
+        return circleMembers.insert(member);
+      },
+      updateMember: async (id, changes) => mustExist(circleMembers.update(id, changes), 'circle_members'),
+      removeMember: async id => {
+        circleMembers.remove(id);
+      },
+      findMessage: async id => circleMessages.get(id),
+      listMessages: async (circleId, limit) =>
+        circleMessages
+          .filter(m => m.circle_id === circleId)
+          .sort(byKey<CircleMessage>(m => m.created_at, true))
+          .slice(0, limit),
+      listMessagesByModerationStatus: async (status, limit) =>
+        circleMessages
+          .filter(m => m.moderation_status === status)
+          .sort(byKey<CircleMessage>(m => m.created_at))
+          .slice(0, limit),
+      createMessage: async message => circleMessages.insert(message),
+      updateMessage: async (id, changes) => mustExist(circleMessages.update(id, changes), 'circle_messages')
+    },
+
+    reflections: {
+      findById: async id => reflections.get(id),
+      listForUser: async (userId, habitId) =>
+        reflections
+          .filter(r => r.user_id === userId && (!habitId || r.habit_id === habitId))
+          .sort(byKey<Reflection>(r => r.week_start_date, true)),
+      create: async reflection => reflections.insert(reflection),
+      update: async (id, changes) => mustExist(reflections.update(id, changes), 'reflections')
+    },
+
+    notifications: {
+      listForUser: async (userId, unreadOnly, limit) =>
+        notifications
+          .filter(n => n.user_id === userId && (!unreadOnly || !n.is_read))
+          .sort(byKey<Notification>(n => n.created_at, true))
+          .slice(0, limit),
+      existsSince: async (userId, type, since) =>
+        notifications.find(n =>
+          n.user_id === userId && n.type === type && n.created_at! >= since.toISOString()
+        ) !== null,
+      create: async notification => notifications.insert({ ...notification, is_read: false }),
+      markRead: async (id, userId) => {
+        const notification = notifications.get(id);
+        if (!notification || notification.user_id !== userId) return null;
+        return notifications.update(id, { is_read: true });
+      },
+      markAllRead: async userId => {
+        for (const notification of notifications.filter(n => n.user_id === userId && !n.is_read)) {
+          notifications.update(notification.id, { is_read: true });
+        }
+      }
+    },
+
+    realtimeEvents: {
+      create: async event => realtimeEvents.insert({ ...event, seq: ++lastEventSeq }),
+      listAfter: async (userId, afterSeq, limit) =>
+        realtimeEvents
+          .filter(e => e.user_id === userId && e.seq > afterSeq)
+          .sort(byKey<RealtimeEvent>(e => e.seq))
+          .slice(0, limit),
+      latestSeq: async userId =>
+        Math.max(0, ...realtimeEvents.filter(e => e.user_id === userId).map(e => e.seq)),
+      deleteBefore: async before => {
+        realtimeEvents.removeWhere(e => e.created_at! < before.toISOString());
+      }
+    },
+
+    aiResponses: {
+      findById: async id => aiResponses.get(id),
+      listForUser: async (userId, type, limit, before, habitId) => {
+        const rows = aiResponses
+          .filter(r =>
+            r.user_id === userId &&
+            r.response_type === type &&
+            (r.status || 'completed') === 'completed' &&
+            (!before || r.created_at! < before) &&
+            (!habitId || r.habit_id === habitId)
+          )
+          .sort(byKey<AiResponse>(r => r.created_at, true));
+        const items = rows.slice(0, limit);
+        return {
+          items,
+          nextCursor: rows.length > limit ? items[items.length - 1].created_at! : null
+        };
+      },
+      existsScheduledForHabitSince: async (habitId, type, since) =>
+        aiResponses.find(r =>
+          r.habit_id === habitId && r.response_type === type && r.created_at! >= since.toISOString() &&
+          r.context?.scheduled === true && r.status !== 'failed'
+        ) !== null,
+      findByContextKey: async (userId, contextKey, since) =>
+        aiResponses
+          .filter(r => r.user_id === userId && r.context_key === contextKey && r.created_at! >= since.toISOString())
+          .sort(byKey<AiResponse>(r => r.created_at, true))[0] || null,
+      countSince: async (userId, type, since) =>
+        aiResponses.filter(r =>
+          r.user_id === userId && r.response_type === type && r.created_at! >= since.toISOString() &&
+          r.status !== 'failed'
+        ).length,
+      listSince: async (since, userId) =>
+        aiResponses.filter(r => r.created_at! >= since.toISOString() && (!userId || r.user_id === userId)),
+      create: async response => aiResponses.insert(response),
+      update: async (id, changes) => mustExist(aiResponses.update(id, changes), 'ai_responses')
+    },
+
+    aiFeedback: {
+      save: async feedback => {
+        const existing = aiFeedback.find(f =>
+          f.ai_response_id === feedback.ai_response_id && f.user_id === feedback.user_id
+        );
+        const changes = { ...feedback, updated_at: new Date().toISOString() };
+        return existing
+          ? mustExist(aiFeedback.update(existing.id, changes), 'ai_response_feedback')
+          : aiFeedback.insert(changes);
+      },
+      listSince: async since => aiFeedback.filter(f => f.created_at! >= since.toISOString())
+    },
+
+    conversations: {
+      findById: async id => conversations.get(id),
+      listForUser: async userId =>
+        conversations
+          .filter(c => c.user_id === userId)
+          .sort(byKey<Conversation>(c => c.updated_at || c.created_at, true)),
+      create: async conversation => conversations.insert(conversation),
+      update: async (id, changes) => mustExist(conversations.update(id, changes), 'ai_conversations'),
+      // Insertion order breaks ties between messages created in the same millisecond
+      listMessages: async conversationId =>
+        conversationMessages.filter(m => m.conversation_id === conversationId),
+      addMessage: async message => conversationMessages.insert(message)
+    },
+
+    // Development auth: the bearer token is taken as the user ID
+    auth: {
+      getUser: async token => (token ? { id: token } : null),
+      deleteUser: async userId => {
+        const ownedBy = (row: { user_id: string }) => row.user_id === userId;
+        profiles.removeWhere(p => p.id === userId);
+        habits.removeWhere(ownedBy);
+        checkIns.removeWhere(ownedBy);
+        restDays.removeWhere(ownedBy);
+        freezes.removeWhere(ownedBy);
+        for (const stats of habitStats.values()) {
+          if (stats.user_id === userId) habitStats.delete(stats.habit_id);
+        }
+        partnerships.removeWhere(p => p.requester_id === userId || p.receiver_id === userId);
+        messages.removeWhere(m => m.from_user_id === userId || m.to_user_id === userId);
+        nudges.removeWhere(n => n.from_user_id === userId || n.to_user_id === userId);
+        blocks.removeWhere(b => b.blocker_id === userId || b.blocked_id === userId);
+        reports.removeWhere(r => r.reporter_id === userId || r.reported_user_id === userId);
+        circleMembers.removeWhere(ownedBy);
+        circleMessages.removeWhere(ownedBy);
+        circles.removeWhere(c => circleMembers.find(m => m.circle_id === c.id) === null);
+        reflections.removeWhere(ownedBy);
+        notifications.removeWhere(ownedBy);
+        realtimeEvents.removeWhere(ownedBy);
+        aiResponses.removeWhere(ownedBy);
+        aiFeedback.removeWhere(ownedBy);
+        conversations.removeWhere(ownedBy);
+        conversationMessages.removeWhere(ownedBy);
+      }
+    }
+  };
+}
@@ -0,0 +1,726 @@
+import { getSupabase } from '../config/supabase';
+import {
+  AiFeedback,
+  AiResponse,
+  Block,
+  CheckIn,
+  Circle,
+  CircleMember,
+  CircleMessage,
+  Conversation,
+  ConversationMessage,
+  Habit,
+  HabitStats,
+  Message,
+  Notification,
+  Nudge,
+  Partnership,
+  Profile,
+  RealtimeEvent,
+  Reflection,
+  Report,
+  Repositories,
+  RestDay,
+  StreakFreeze
+} from './types';
+
+type QueryResult = PromiseLike<{ data: any; error: any }>;
+
+async function many<T>(query: QueryResult): Promise<T[]> {
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as T[];
+}
+
+async function maybeOne<T>(query: QueryResult): Promise<T | null> {
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as T) || null;
+}
+
+async function one<T>(query: QueryResult): Promise<T> {
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as T;
+}
+
+const db = () => getSupabase();
+
+export function createSupabaseRepositories(): Repositories {
+  return {
+    profiles: {
+      findById: id =>
+        maybeOne<Profile>(db().from('users_profiles').select('*').eq('id', id).maybeSingle()),
+
+      findByIds: ids =>
+        ids.length === 0
+          ? Promise.resolve([])
+          : many<Profile>(db().from('users_profiles').select('*').in('id', ids)),
+
+      findWithReminders: () =>
+        many<Profile>(
+          db()
+            .from('users_profiles')
+            .select('*')
+            .eq('reminder_enabled', true)
+            .not('reminder_time', 'is', null)
+        ),
+
+      create: profile =>
+        one<Profile>(db().from('users_profiles').insert(profile).select().single()),
+
+      update: (id, changes) =>
+        maybeOne<Profile>(db().from('users_profiles').update(changes).eq('id', id).select().maybeSingle())
+    },
+
+    habits: {
+      findById: id =>
+        maybeOne<Habit>(db().from('habits').select('*').eq('id', id).maybeSingle()),
+
+      findByIdForUser: (id, userId) =>
+        maybeOne<Habit>(db().from('habits').select('*').eq('id', id).eq('user_id', userId).maybeSingle()),
+
+      listActive: userId =>
+        many<Habit>(
+          db()
+            .from('habits')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('is_active', true)
+            .order('sort_order', { ascending: true })
+            .order('created_at', { ascending: true })
+        ),
+
+      listArchived: userId =>
+        many<Habit>(
+          db()
+            .from('habits')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('is_active', false)
+            .order('archived_at', { ascending: false })
+        ),
+
+      listVisible: (excludeUserIds, limit, categories) => {
+        let query = db()
+          .from('habits')
+          .select('*')
+          .eq('is_active', true)
+          .not('user_id', 'in', `(${excludeUserIds.join(',')})`)
+          .in('privacy_setting', ['public', 'partner-only']);
+
+        if (categories && categories.length > 0) {
+          query = query.in('category', categories);
+        }
+
+        return many<Habit>(query.order('created_at', { ascending: false }).limit(limit));
+      },
+
+      listAllActive: () =>
+        many<Habit>(db().from('habits').select('*').eq('is_active', true)),
+
+      create: habit =>
+        one<Habit>(db().from('habits').insert(habit).select().single()),
+
+      update: (id, changes) =>
+        one<Habit>(db().from('habits').update(changes).eq('id', id).select().single())
+    },
+
+    checkIns: {
+      findByDate: (habitId, date) =>
+        maybeOne<CheckIn>(
+          db().from('check_ins').select('*').eq('habit_id', habitId).eq('date', date).maybeSingle()
+        ),
+
+      listForHabit: (habitId, range = {}, descending = false) => {
+        let query = db().from('check_ins').select('*').eq('habit_id', habitId);
+        if (range.from) query = query.gte('date', range.from);
+        if (range.to) query = query.lte('date', range.to);
+        return many<CheckIn>(query.order('date', { ascending: !descending }));
+      },
+
+      listForUser: (userId, range = {}) => {
+        let query = db().from('check_ins').select('*').eq('user_id', userId);
+        if (range.from) query = query.gte('date', range.from);
+        if (range.to) query = query.lte('date', range.to);
+        return many<CheckIn>(query.order('date', { ascending: true }));
+      },
+
+      listForUsers: async (userIds, range = {}) => {
+        if (userIds.length === 0) return [];
+        let query = db().from('check_ins').select('*').in('user_id', userIds);
+        if (range.from) query = query.gte('date', range.from);
+        if (range.to) query = query.lte('date', range.to);
+        return many<CheckIn>(query.order('date', { ascending: true }));
+      },
+
+      listCompletedDates: async habitId => {
+        const rows = await many<{ date: string }>(
+          db().from('check_ins').select('date').eq('habit_id', habitId).eq('completed', true)
+        );
+        return rows.map(r => r.date);
+      },
+
+      create: checkIn =>
+        one<CheckIn>(db().from('check_ins').insert(checkIn).select().single()),
+
+      update: (id, changes) =>
+        one<CheckIn>(db().from('check_ins').update(changes).eq('id', id).select().single()),
+
+      listRestDays: habitId =>
+        many<RestDay>(
+          db().from('rest_days').select('*').eq('habit_id', habitId).order('date', { ascending: true })
+        ),
+
+      findRestDay: (habitId, date) =>
+        maybeOne<RestDay>(
+          db().from('rest_days').select('*').eq('habit_id', habitId).eq('date', date).maybeSingle()
+        ),
+
+      createRestDay: restDay =>
+        one<RestDay>(db().from('rest_days').insert(restDay).select().single()),
+
+      deleteRestDay: (habitId, userId, date) =>
+        maybeOne<RestDay>(
+          db()
+            .from('rest_days')
+            .delete()
+            .eq('habit_id', habitId)
+            .eq('user_id', userId)
+            .eq('date', date)
+            .select()
+            .maybeSingle()
+        ),
+
+      listFreezes: habitId =>
+        many<StreakFreeze>(db().from('streak_freezes').select('*').eq('habit_id', habitId)),
+
+      createFreeze: freeze =>
+        one<StreakFreeze>(db().from('streak_freezes').insert(freeze).select().single())
+    },
+
+    habitStats: {
+      findByHabit: habitId =>
+        maybeOne<HabitStats>(db().from('habit_stats').select('*').eq('habit_id', habitId).maybeSingle()),
+
+      save: stats =>
+        one<HabitStats>(
+          db()
+            .from('habit_stats')
+            .upsert({ ...stats, updated_at: new Date().toISOString() }, { onConflict: 'habit_id' })
+            .select()
+            .single()
+        )
+    },
+
+    partnerships: {
+      findById: id =>
+        maybeOne<Partnership>(db().from('partnerships').select('*').eq('id', id).maybeSingle()),
+
+      findAcceptedForUser: userId =>
+        maybeOne<Partnership>(
+          db()
+            .from('partnerships')
+            .select('*')
+            .or(`requester_id.eq.${userId},receiver_id.eq.${userId}`)
+            .eq('status', 'accepted')
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      listAcceptedForUser: userId =>
+        many<Partnership>(
+          db()
+            .from('partnerships')
+            .select('*')
+            .or(`requester_id.eq.${userId},receiver_id.eq.${userId}`)
+            .eq('status', 'accepted')
+        ),
+
+      findPending: (requesterId, receiverId) =>
+        maybeOne<Partnership>(
+          db()
+            .from('partnerships')
+            .select('*')
+            .eq('requester_id', requesterId)
+            .eq('receiver_id', receiverId)
+            .eq('status', 'pending')
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      listPendingForUser: userId =>
+        many<Partnership>(
+          db()
+            .from('partnerships')
+            .select('*')
+            .or(`requester_id.eq.${userId},receiver_id.eq.${userId}`)
+            .eq('status', 'pending')
+        ),
+
+      create: partnership =>
+        one<Partnership>(db().from('partnerships').insert(partnership).select().single()),
+
+      update: (id, changes) =>
+        one<Partnership>(db().from('partnerships').update(changes).eq('id', id).select().single())
+    },
+
+    messages: {
+      findById: id =>
+        maybeOne<Message>(db().from('messages').select('*').eq('id', id).maybeSingle()),
+
+      listForPartnership: (partnershipId, limit) =>
+        many<Message>(
+          db()
+            .from('messages')
+            .select('*')
+            .eq('partnership_id', partnershipId)
+            .order('created_at', { ascending: false })
+            .limit(limit)
+        ),
+
+      listByModerationStatus: (status, limit) =>
+        many<Message>(
+          db()
+            .from('messages')
+            .select('*')
+            .eq('moderation_status', status)
+            .order('created_at', { ascending: true })
+            .limit(limit)
+        ),
+
+      countDelivered: async (partnershipId, fromUserId) => {
+        const { count, error } = await db()
+          .from('messages')
+          .select('id', { count: 'exact', head: true })
+          .eq('partnership_id', partnershipId)
+          .eq('from_user_id', fromUserId)
+          .or('moderation_status.is.null,moderation_status.eq.approved');
+        if (error) throw error;
+        return count || 0;
+      },
+
+      create: message =>
+        one<Message>(db().from('messages').insert(message).select().single()),
+
+      update: (id, changes) =>
+        one<Message>(db().from('messages').update(changes).eq('id', id).select().single())
+    },
+
+    nudges: {
+      findForDate: (fromUserId, toUserId, date) =>
+        maybeOne<Nudge>(
+          db()
+            .from('nudges')
+            .select('*')
+            .eq('from_user_id', fromUserId)
+            .eq('to_user_id', toUserId)
+            .eq('date', date)
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      listSince: (since, userId) => {
+        let query = db().from('nudges').select('*').gte('created_at', since.toISOString());
+        if (userId) {
+          query = query.or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`);
+        }
+        return many<Nudge>(query);
+      },
+
+      create: nudge =>
+        one<Nudge>(db().from('nudges').insert(nudge).select().single())
+    },
+
+    blocks: {
+      findBetween: (userId, otherUserId) =>
+        maybeOne<Block>(
+          db()
+            .from('blocks')
+            .select('*')
+            .or(
+              `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),` +
+              `and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+            )
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      listForUser: userId =>
+        many<Block>(
+          db()
+            .from('blocks')
+            .select('*')
+            .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)
+            .order('created_at', { ascending: false })
+        ),
+
+      create: block =>
+        one<Block>(db().from('blocks').insert(block).select().single()),
+
+      delete: (blockerId, blockedId) =>
+        maybeOne<Block>(
+          db()
+            .from('blocks')
+            .delete()
+            .eq('blocker_id', blockerId)
+            .eq('blocked_id', blockedId)
+            .select()
+            .maybeSingle()
+        )
+    },
+
+    reports: {
+      findById: id =>
+        maybeOne<Report>(db().from('reports').select('*').eq('id', id).maybeSingle()),
+
+      listByStatus: (status, limit) =>
+        many<Report>(
+          db()
+            .from('reports')
+            .select('*')
+            .eq('status', status)
+            .order('created_at', { ascending: true })
+            .limit(limit)
+        ),
+
+      create: report =>
+        one<Report>(db().from('reports').insert(report).select().single()),
+
+      update: (id, changes) =>
+        one<Report>(db().from('reports').update(changes).eq('id', id).select().single())
+    },
+
+    circles: {
+      findById: id =>
+        maybeOne<Circle>(db().from('circles').select('*').eq('id', id).maybeSingle()),
+
+      findByInviteCode: inviteCode =>
+        maybeOne<Circle>(db().from('circles').select('*').eq('invite_code', inviteCode).maybeSingle()),
+
+      listForUser: async userId => {
+        const rows = await many<{ circle: Circle }>(
+          db()
+            .from('circle_members')
+            .select('circle:circles(*)')
+            .eq('user_id', userId)
+        );
+        return rows
+          .map(r => r.circle)
+          .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+      },
+
+      create: circle =>
+        one<Circle>(db().from('circles').insert(circle).select().single()),
+
+      update: (id, changes) =>
+        one<Circle>(db().from('circles').update(changes).eq('id', id).select().single()),
+
+      // circle_members and circle_messages cascade
+      delete: async id => {
+        const { error } = await db().from('circles').delete().eq('id', id);
+        if (error) throw error;
+      },
+
+      listMembers: circleId =>
+        many<CircleMember>(
+          db()
+            .from('circle_members')
+            .select('*')
+            .eq('circle_id', circleId)
+            .order('created_at', { ascending: true })
+        ),
+
+      findMember: (circleId, userId) =>
+        maybeOne<CircleMember>(
+          db()
+            .from('circle_members')
+            .select('*')
+            .eq('circle_id', circleId)
+            .eq('user_id', userId)
+            .maybeSingle()
+        ),
+
+      addMember: member =>
+        one<CircleMember>(db().from('circle_members').insert(member).select().single()),
+
+      updateMember: (id, changes) =>
+        one<CircleMember>(db().from('circle_members').update(changes).eq('id', id).select().single()),
+
+      removeMember: async id => {
+        const { error } = await db().from('circle_members').delete().eq('id', id);
+        if (error) throw error;
+      },
+
+      findMessage: id =>
+        maybeOne<CircleMessage>(db().from('circle_messages').select('*').eq('id', id).maybeSingle()),
+
+      listMessages: (circleId, limit) =>
+        many<CircleMessage>(
+          db()
+            .from('circle_messages')
+            .select('*')
+            .eq('circle_id', circleId)
+            .order('created_at', { ascending: false })
+            .limit(limit)
+        ),
+
+      listMessagesByModerationStatus: (status, limit) =>
+        many<CircleMessage>(
+          db()
+            .from('circle_messages')
+            .select('*')
+            .eq('moderation_status', status)
+            .order('created_at', { ascending: true })
+            .limit(limit)
+        ),
+
+      createMessage: message =>
+        one<CircleMessage>(db().from('circle_messages').insert(message).select().single()),
+
+      updateMessage: (id, changes) =>
+        one<CircleMessage>(db().from('circle_messages').update(changes).eq('id', id).select().single())
+    },
+
+    reflections: {
+      findById: id =>
+        maybeOne<Reflection>(db().from('reflections').select('*').eq('id', id).maybeSingle()),
+
+      listForUser: (userId, habitId) => {
+        let query = db().from('reflections').select('*').eq('user_id', userId);
+        if (habitId) {
+          query = query.eq('habit_id', habitId);
+        }
+        return many<Reflection>(query.order('week_start_date', { ascending: false }));
+      },
+
+      create: reflection =>
+        one<Reflection>(db().from('reflections').insert(reflection).select().single()),
+
+      update: (id, changes) =>
+        one<Reflection>(db().from('reflections').update(changes).eq('id', id).select().single())
+    },
+
+    notifications: {
+      listForUser: (userId, unreadOnly, limit) => {
+        let query = db().from('notifications').select('*').eq('user_id', userId);
+        if (unreadOnly) {
+          query = query.eq('is_read', false);
+        }
+        return many<Notification>(query.order('created_at', { ascending: false }).limit(limit));
+      },
+
+      existsSince: async (userId, type, since) => {
+        const rows = await many<{ id: string }>(
+          db()
+            .from('notifications')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('type', type)
+            .gte('created_at', since.toISOString())
+            .limit(1)
+        );
+        return rows.length > 0;
+      },
+
+      create: notification =>
+        one<Notification>(db().from('notifications').insert(notification).select().single()),
+
+      markRead: (id, userId) =>
+        maybeOne<Notification>(
+          db()
+            .from('notifications')
+            .update({ is_read: true })
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle()
+        ),
+
+      markAllRead: async userId => {
+        const { error } = await db()
+          .from('notifications')
+          .update({ is_read: true })
+          .eq('user_id', userId)
+          .eq('is_read', false);
+        if (error) throw error;
+      }
+    },
+
+    realtimeEvents: {
+      create: event =>
+        one<RealtimeEvent>(db().from('realtime_events').insert(event).select().single()),
+
+      listAfter: (userId, afterSeq, limit) =>
+        many<RealtimeEvent>(
+          db()
+            .from('realtime_events')
+            .select('*')
+            .eq('user_id', userId)
+            .gt('seq', afterSeq)
+            .order('seq', { ascending: true })
+            .limit(limit)
+        ),
+
+      latestSeq: async userId => {
+        const latest = await maybeOne<{ seq: number }>(
+          db()
+            .from('realtime_events')
+            .select('seq')
+            .eq('user_id', userId)
+            .order('seq', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        );
+        return latest?.seq || 0;
+      },
+
+      deleteBefore: async before => {
+        const { error } = await db()
+          .from('realtime_events')
+          .delete()
+          .lt('created_at', before.toISOString());
+        if (error) throw error;
+      }
+    },
+
+    aiResponses: {
+      findById: id =>
+        maybeOne<AiResponse>(db().from('ai_responses').select('*').eq('id', id).maybeSingle()),
+
+      listForUser: async (userId, type, limit, before, habitId) => {
+        let query = db()
+          .from('ai_responses')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('response_type', type)
+          .or('status.is.null,status.eq.completed');
+        if (before) query = query.lt('created_at', before);
+        if (habitId) query = query.eq('habit_id', habitId);
+
+        // One extra row tells whether another page follows
+        const rows = await many<AiResponse>(query.order('created_at', { ascending: false }).limit(limit + 1));
+        const items = rows.slice(0, limit);
+        return {
+          items,
+          nextCursor: rows.length > limit ? items[items.length - 1].created_at! : null
+        };
+      },
+
+      existsScheduledForHabitSince: async (habitId, type, since) => {
+        const rows = await many<{ id: string }>(
+          db()
+            .from('ai_responses')
+            .select('id')
+            .eq('habit_id', habitId)
+            .eq('response_type', type)
+            .gte('created_at', since.toISOString())
+            .eq('context->>scheduled', 'true')
+            .or('status.is.null,status.neq.failed')
+            .limit(1)
+        );
+        return rows.length > 0;
+      },
+
+      findByContextKey: (userId, contextKey, since) =>
+        maybeOne<AiResponse>(
+          db()
+            .from('ai_responses')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('context_key', contextKey)
+            .gte('created_at', since.toISOString())
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      countSince: async (userId, type, since) => {
+        const { count, error } = await db()
+          .from('ai_responses')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('response_type', type)
+          .gte('created_at', since.toISOString())
+          .or('status.is.null,status.neq.failed');
+        if (error) throw error;
+        return count || 0;
+      },
+
+      listSince: (since, userId) => {
+        let query = db()
+          .from('ai_responses')
+          .select('id, user_id, habit_id, response_type, provider, model, prompt_tokens, completion_tokens, cost_usd, latency_ms, context, created_at')
+          .gte('created_at', since.toISOString());
+        if (userId) query = query.eq('user_id', userId);
+        return many<AiResponse>(query);
+      },
+
+      create: response =>
+        one<AiResponse>(db().from('ai_responses').insert(response).select().single()),
+
+      update: (id, changes) =>
+        one<AiResponse>(db().from('ai_responses').update(changes).eq('id', id).select().single())
+    },
+
+    aiFeedback: {
+      save: feedback =>
+        one<AiFeedback>(
+          db()
+            .from('ai_response_feedback')
+            .upsert({ ...feedback, updated_at: new Date().toISOString() }, { onConflict: 'ai_response_id,user_id' })
+            .select()
+            .single()
+        ),
+
+      listSince: since =>
+        many<AiFeedback>(db().from('ai_response_feedback').select('*').gte('created_at', since.toISOString()))
+    },
+
+    conversations: {
+      findById: id =>
+        maybeOne<Conversation>(db().from('ai_conversations').select('*').eq('id', id).maybeSingle()),
+
+      listForUser: userId =>
+        many<Conversation>(
+          db()
+            .from('ai_conversations')
+            .select('*')
+            .eq('user_id', userId)
+            .order('updated_at', { ascending: false })
+        ),
+
+      create: conversation =>
+        one<Conversation>(db().from('ai_conversations').insert(conversation).select().single()),
+
+      update: (id, changes) =>
+        one<Conversation>(db().from('ai_conversations').update(changes).eq('id', id).select().single()),
+
+      listMessages: conversationId =>
+        many<ConversationMessage>(
+          db()
+            .from('ai_conversation_messages')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .order('created_at', { ascending: true })
+        ),
+
+      addMessage: message =>
+        one<ConversationMessage>(db().from('ai_conversation_messages').insert(message).select().single())
+    },
+
+    auth: {
+      getUser: async token => {
+        const { data: { user }, error } = await db().auth.getUser(token);
+        if (error || !user) return null;
+        return { id: user.id, email: user.email };
+      },
+
+      // Deleting the auth user cascades to all related data
+      deleteUser: async userId => {
+        const { error } = await db().auth.admin.deleteUser(userId);
+        if (error) throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,530 @@
+// Row shapes mirror the database tables. Repositories return null when a
+// single row isn't found and throw on storage errors.
+
+export interface Profile {
+  id: string;
+  display_name: string;
+  timezone: string;
+  // Language for AI messages and API errors, e.g. 'es'
+  locale?: string | null;
+  preferred_categories: string[];
+  reminder_enabled?: boolean;
+  reminder_time?: string | null;
+  // Local 'HH:MM' window in which partners can't nudge the user
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  created_at?: string;
+}
+
+export interface Habit {
+  id: string;
+  user_id: string;
+  habit_name: string;
+  category: string;
+  start_date: string;
+  privacy_setting: string;
+  is_active: boolean;
+  archived_at?: string | null;
+  sort_order?: number | null;
+  schedule?: any;
+  target_value?: number | null;
+  unit?: string | null;
+  aggregation?: 'sum' | 'max' | null;
+  grace_days?: number | null;
+  auto_freeze?: boolean | null;
+  created_at?: string;
+}
+
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+export interface CheckIn {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  date: string;
+  completed: boolean;
+  check_in_time: string | null;
+  notes: string | null;
+  value?: number | null;
+  entries?: { value: number; logged_at: string }[] | null;
+  backfilled?: boolean;
+  // Tags from AI analysis of the notes
+  sentiment?: Sentiment | null;
+  obstacles?: string[] | null;
+  themes?: string[] | null;
+  analyzed_at?: string | null;
+  created_at?: string;
+}
+
+export interface RestDay {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  date: string;
+  created_at?: string;
+}
+
+export interface StreakFreeze {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  date: string;
+  created_at?: string;
+}
+
+// Cached streak values for a habit, valid for the as_of day
+// Where a walk over a habit's history stood at the end of a settled day, so
+// stats can be brought up to date without replaying everything before it
+export interface StreakCheckpoint {
+  date: string;
+  // Completed due days since the last missed one
+  run: number;
+  longest_streak: number;
+  total_checkins: number;
+  due_days: number;
+  completed_due_days: number;
+  freeze_balance: number;
+  freezes_earned: number;
+  freezes_used: number;
+}
+
+export interface HabitStats {
+  habit_id: string;
+  user_id: string;
+  as_of: string;
+  current_streak: number;
+  longest_streak: number;
+  total_checkins: number;
+  due_days: number;
+  completed_due_days: number;
+  freeze_balance: number;
+  freezes_earned: number;
+  freezes_used: number;
+  last_seven_days: (boolean | null)[];
+  checkpoint?: StreakCheckpoint | null;
+  updated_at?: string;
+}
+
+export interface Partnership {
+  id: string;
+  requester_id: string;
+  receiver_id: string;
+  status: 'pending' | 'accepted' | 'declined' | 'ended';
+  request_message: string | null;
+  accepted_at?: string | null;
+  ended_at?: string | null;
+  created_at?: string;
+}
+
+export type ModerationStatus = 'approved' | 'pending' | 'rejected';
+
+export interface Message {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  partnership_id: string;
+  message_text: string;
+  is_read: boolean;
+  // Flagged messages are held until reviewed; missing means approved
+  moderation_status?: ModerationStatus;
+  moderation_categories?: string[] | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+}
+
+// A partner's reminder to check in. date is the receiver's local day.
+export interface Nudge {
+  id: string;
+  partnership_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  date: string;
+  created_at?: string;
+}
+
+// The blocker no longer sees or hears from the blocked user, and the other
+// way around
+export interface Block {
+  id: string;
+  blocker_id: string;
+  blocked_id: string;
+  created_at?: string;
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'impersonation' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+// A user reported to moderators, optionally pointing at the message or
+// partnership it's about
+export interface Report {
+  id: string;
+  reporter_id: string;
+  reported_user_id: string;
+  reason: ReportReason;
+  details: string | null;
+  message_id: string | null;
+  partnership_id: string | null;
+  status: ReportStatus;
+  resolution_note?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+}
+
+// Accountability group alongside the 1:1 partnerships, joined by invite code
+export interface Circle {
+  id: string;
+  name: string;
+  invite_code: string;
+  created_by: string;
+  created_at?: string;
+}
+
+export type CircleRole = 'owner' | 'member';
+
+export interface CircleMember {
+  id: string;
+  circle_id: string;
+  user_id: string;
+  role: CircleRole;
+  created_at?: string;
+}
+
+export interface CircleMessage {
+  id: string;
+  circle_id: string;
+  user_id: string;
+  message_text: string;
+  moderation_status?: ModerationStatus;
+  moderation_categories?: string[] | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+}
+
+export interface Reflection {
+  id: string;
+  user_id: string;
+  habit_id: string;
+  week_start_date: string;
+  reflection_text: string | null;
+  share_with_partner: boolean;
+  // Tags from AI analysis of the text
+  sentiment?: Sentiment | null;
+  obstacles?: string[] | null;
+  themes?: string[] | null;
+  analyzed_at?: string | null;
+  created_at?: string;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  is_read: boolean;
+  ai_response_id?: string | null;
+  created_at?: string;
+}
+
+export type RealtimeEventType =
+  | 'notification'
+  | 'message'
+  | 'message-read'
+  | 'partner-checkin'
+  | 'circle-message'
+  | 'circle-checkin';
+
+// Per-user feed pushed to connected clients. seq increases with every event
+// and is the cursor clients resume from.
+export interface RealtimeEvent {
+  id: string;
+  seq: number;
+  user_id: string;
+  type: RealtimeEventType;
+  data: Record<string, any>;
+  created_at?: string;
+}
+
+export interface AiResponse {
+  id: string;
+  user_id: string;
+  habit_id?: string | null;
+  response_type: string;
+  context: any;
+  ai_message: string;
+  // Responses start out pending while they're generated; missing means completed
+  status?: 'pending' | 'completed' | 'failed';
+  // Hash of the context the message was generated for, used to reuse it
+  context_key?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost_usd?: number;
+  latency_ms?: number;
+  created_at?: string;
+}
+
+// A user's rating of one AI response
+export interface AiFeedback {
+  id: string;
+  ai_response_id: string;
+  user_id: string;
+  helpful: boolean;
+  reason: string | null;
+  updated_at?: string | null;
+  created_at?: string;
+}
+
+export interface Conversation {
+  id: string;
+  user_id: string;
+  // Coaching about one habit, or all active habits when null
+  habit_id: string | null;
+  title: string;
+  // Summary of the first summarized_count messages, which are no longer
+  // sent to the model verbatim
+  summary: string | null;
+  summarized_count: number;
+  updated_at?: string | null;
+  created_at?: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  ai_response_id?: string | null;
+  created_at?: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+// Fields the storage layer fills in on insert
+type Generated = 'id' | 'created_at';
+export type NewRow<T> = Omit<T, Generated>;
+export type RowUpdate<T> = Partial<Omit<T, Generated>>;
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface ProfileRepository {
+  findById(id: string): Promise<Profile | null>;
+  findByIds(ids: string[]): Promise<Profile[]>;
+  findWithReminders(): Promise<Profile[]>;
+  create(profile: Omit<Profile, 'created_at'>): Promise<Profile>;
+  update(id: string, changes: RowUpdate<Profile>): Promise<Profile | null>;
+}
+
+export interface HabitRepository {
+  findById(id: string): Promise<Habit | null>;
+  findByIdForUser(id: string, userId: string): Promise<Habit | null>;
+  // Active habits in the user's chosen order
+  listActive(userId: string): Promise<Habit[]>;
+  // Archived habits, most recently archived first
+  listArchived(userId: string): Promise<Habit[]>;
+  // Active public/partner-only habits of users other than the excluded ones,
+  // newest first, optionally only in the given categories
+  listVisible(excludeUserIds: string[], limit: number, categories?: string[]): Promise<Habit[]>;
+  // Active habits of every user, for background jobs
+  listAllActive(): Promise<Habit[]>;
+  create(habit: NewRow<Habit>): Promise<Habit>;
+  update(id: string, changes: RowUpdate<Habit>): Promise<Habit>;
+}
+
+export interface CheckInRepository {
+  findByDate(habitId: string, date: string): Promise<CheckIn | null>;
+  // Oldest first unless descending is set
+  listForHabit(habitId: string, range?: DateRange, descending?: boolean): Promise<CheckIn[]>;
+  listForUser(userId: string, range?: DateRange): Promise<CheckIn[]>;
+  listForUsers(userIds: string[], range?: DateRange): Promise<CheckIn[]>;
+  listCompletedDates(habitId: string): Promise<string[]>;
+  create(checkIn: NewRow<CheckIn>): Promise<CheckIn>;
+  update(id: string, changes: RowUpdate<CheckIn>): Promise<CheckIn>;
+
+  listRestDays(habitId: string): Promise<RestDay[]>;
+  findRestDay(habitId: string, date: string): Promise<RestDay | null>;
+  createRestDay(restDay: NewRow<RestDay>): Promise<RestDay>;
+  deleteRestDay(habitId: string, userId: string, date: string): Promise<RestDay | null>;
+
+  listFreezes(habitId: string): Promise<StreakFreeze[]>;
+  createFreeze(freeze: NewRow<StreakFreeze>): Promise<StreakFreeze>;
+}
+
+export interface HabitStatsRepository {
+  findByHabit(habitId: string): Promise<HabitStats | null>;
+  // Inserts or replaces the record for the habit
+  save(stats: HabitStats): Promise<HabitStats>;
+}
+
+export interface PartnershipRepository {
+  findById(id: string): Promise<Partnership | null>;
+  findAcceptedForUser(userId: string): Promise<Partnership | null>;
+  listAcceptedForUser(userId: string): Promise<Partnership[]>;
+  findPending(requesterId: string, receiverId: string): Promise<Partnership | null>;
+  // Sent or received
+  listPendingForUser(userId: string): Promise<Partnership[]>;
+  create(partnership: NewRow<Partnership>): Promise<Partnership>;
+  update(id: string, changes: RowUpdate<Partnership>): Promise<Partnership>;
+}
+
+export interface MessageRepository {
+  findById(id: string): Promise<Message | null>;
+  // Newest first
+  listForPartnership(partnershipId: string, limit: number): Promise<Message[]>;
+  // Oldest first, for the review queue
+  listByModerationStatus(status: 'pending' | 'rejected', limit: number): Promise<Message[]>;
+  // Messages the user sent in the partnership that reached their partner
+  countDelivered(partnershipId: string, fromUserId: string): Promise<number>;
+  create(message: Omit<NewRow<Message>, 'is_read'>): Promise<Message>;
+  update(id: string, changes: RowUpdate<Message>): Promise<Message>;
+}
+
+export interface NudgeRepository {
+  findForDate(fromUserId: string, toUserId: string, date: string): Promise<Nudge | null>;
+  // Sent or received by the user when one is given
+  listSince(since: Date, userId?: string): Promise<Nudge[]>;
+  create(nudge: NewRow<Nudge>): Promise<Nudge>;
+}
+
+export interface BlockRepository {
+  // Either user blocking the other
+  findBetween(userId: string, otherUserId: string): Promise<Block | null>;
+  // Blocks made by or against the user
+  listForUser(userId: string): Promise<Block[]>;
+  create(block: NewRow<Block>): Promise<Block>;
+  delete(blockerId: string, blockedId: string): Promise<Block | null>;
+}
+
+export interface ReportRepository {
+  findById(id: string): Promise<Report | null>;
+  // Oldest first, for the review queue
+  listByStatus(status: ReportStatus, limit: number): Promise<Report[]>;
+  create(report: NewRow<Report>): Promise<Report>;
+  update(id: string, changes: RowUpdate<Report>): Promise<Report>;
+}
+
+export interface CircleRepository {
+  findById(id: string): Promise<Circle | null>;
+  findByInviteCode(inviteCode: string): Promise<Circle | null>;
+  listForUser(userId: string): Promise<Circle[]>;
+  create(circle: NewRow<Circle>): Promise<Circle>;
+  update(id: string, changes: RowUpdate<Circle>): Promise<Circle>;
+  // Removes its members and messages too
+  delete(id: string): Promise<void>;
+
+  // Longest-standing first
+  listMembers(circleId: string): Promise<CircleMember[]>;
+  findMember(circleId: string, userId: string): Promise<CircleMember | null>;
+  addMember(member: NewRow<CircleMember>): Promise<CircleMember>;
+  updateMember(id: string, changes: RowUpdate<CircleMember>): Promise<CircleMember>;
+  removeMember(id: string): Promise<void>;
+
+  findMessage(id: string): Promise<CircleMessage | null>;
+  // Newest first
+  listMessages(circleId: string, limit: number): Promise<CircleMessage[]>;
+  // Oldest first, for the review queue
+  listMessagesByModerationStatus(status: 'pending' | 'rejected', limit: number): Promise<CircleMessage[]>;
+  createMessage(message: NewRow<CircleMessage>): Promise<CircleMessage>;
+  updateMessage(id: string, changes: RowUpdate<CircleMessage>): Promise<CircleMessage>;
+}
+
+export interface ReflectionRepository {
+  findById(id: string): Promise<Reflection | null>;
+  // Most recent week first
+  listForUser(userId: string, habitId?: string): Promise<Reflection[]>;
+  create(reflection: NewRow<Reflection>): Promise<Reflection>;
+  update(id: string, changes: RowUpdate<Reflection>): Promise<Reflection>;
+}
+
+export interface NotificationRepository {
+  // Newest first
+  listForUser(userId: string, unreadOnly: boolean, limit: number): Promise<Notification[]>;
+  existsSince(userId: string, type: string, since: Date): Promise<boolean>;
+  create(notification: Omit<NewRow<Notification>, 'is_read'>): Promise<Notification>;
+  markRead(id: string, userId: string): Promise<Notification | null>;
+  markAllRead(userId: string): Promise<void>;
+}
+
+export interface RealtimeEventRepository {
+  create(event: Omit<NewRow<RealtimeEvent>, 'seq'>): Promise<RealtimeEvent>;
+  // Oldest first
+  listAfter(userId: string, afterSeq: number, limit: number): Promise<RealtimeEvent[]>;
+  // 0 when the user has no events
+  latestSeq(userId: string): Promise<number>;
+  deleteBefore(before: Date): Promise<void>;
+}
+
+export interface AiResponsePage {
+  items: AiResponse[];
+  // created_at of the last item when more may follow
+  nextCursor: string | null;
+}
+
+export interface AiResponseRepository {
+  findById(id: string): Promise<AiResponse | null>;
+  // Completed responses, newest first, starting after the cursor
+  listForUser(userId: string, type: string, limit: number, before?: string, habitId?: string): Promise<AiResponsePage>;
+  // Scheduled responses that haven't failed
+  existsScheduledForHabitSince(habitId: string, type: string, since: Date): Promise<boolean>;
+  findByContextKey(userId: string, contextKey: string, since: Date): Promise<AiResponse | null>;
+  // Responses that haven't failed, so provider outages don't use up quotas
+  countSince(userId: string, type: string, since: Date): Promise<number>;
+  // All users when userId is omitted
+  listSince(since: Date, userId?: string): Promise<AiResponse[]>;
+  create(response: NewRow<AiResponse>): Promise<AiResponse>;
+  update(id: string, changes: RowUpdate<AiResponse>): Promise<AiResponse>;
+}
+
+export interface AiFeedbackRepository {
+  // Inserts or replaces the user's feedback on the response
+  save(feedback: NewRow<AiFeedback>): Promise<AiFeedback>;
+  listSince(since: Date): Promise<AiFeedback[]>;
+}
+
+export interface ConversationRepository {
+  findById(id: string): Promise<Conversation | null>;
+  // Most recently active first
+  listForUser(userId: string): Promise<Conversation[]>;
+  create(conversation: NewRow<Conversation>): Promise<Conversation>;
+  update(id: string, changes: RowUpdate<Conversation>): Promise<Conversation>;
+  // Oldest first
+  listMessages(conversationId: string): Promise<ConversationMessage[]>;
+  addMessage(message: NewRow<ConversationMessage>): Promise<ConversationMessage>;
+}
+
+export interface AuthProvider {
+  getUser(token: string): Promise<AuthUser | null>;
+  deleteUser(userId: string): Promise<void>;
+}
+
+export interface Repositories {
+  profiles: ProfileRepository;
+  habits: HabitRepository;
+  checkIns: CheckInRepository;
+  habitStats: HabitStatsRepository;
+  partnerships: PartnershipRepository;
+  messages: MessageRepository;
+  nudges: NudgeRepository;
+  blocks: BlockRepository;
+  reports: ReportRepository;
+  circles: CircleRepository;
+  reflections: ReflectionRepository;
+  notifications: NotificationRepository;
+  realtimeEvents: RealtimeEventRepository;
+  aiResponses: AiResponseRepository;
+  aiFeedback: AiFeedbackRepository;
+  conversations: ConversationRepository;
+  auth: AuthProvider;
+}
@@ -1,230 +1,574 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
-import { AuthenticatedRequest } from '../middleware/auth';
-import { getEncouragementMessage, getWeeklyInsight, getStreakBreakSupport } from '../services/geminiService';
+import { AiResponse, repositories } from '../repositories';
+import { AuthenticatedRequest, isAdmin } from '../middleware/auth';
+import { getRequestLocale, sendError } from '../middleware/errors';
+import { apiError, translateError } from '../i18n';
+import {
+  AiRequest,
+  followAiResponse,
+  getAiUsage,
+  getOrCreateAiResponse,
+  getQuotaStatus,
+  hasQuotaRemaining,
+  startAiResponse
+} from '../services/aiResponseService';
+import { getEncouragementMessage, getStreakBreakSupport } from '../services/aiService';
+import { MAX_CHAT_MESSAGE_LENGTH, sendCoachMessage, startCoachReply, startConversation } from '../services/coachService';
+import { getUserToday, getWeekdayName } from '../services/dateService';
+import { openEventStream } from '../services/eventStreamService';
+import { createHabit, parseNewHabit } from '../services/habitService';
+import { findHabitPlan, generateHabitPlan, MAX_GOAL_LENGTH } from '../services/habitPlanService';
+import { getUserLocale } from '../services/localeService';
+import { getMonthlyWritingSummary } from '../services/textAnalysisService';
+import { getPromptReport, parseFeedback } from '../services/feedbackService';
+import { buildWeeklyInsightRequest } from '../services/insightService';
+import { getHabitStats } from '../services/streakService';
 
 const router = express.Router();
 
+function isStreamRequest(req: express.Request): boolean {
+  return req.path.endsWith('/stream');
+}
+
+// Sends a response's text as server-sent events: start, token for each
+// piece of text, then done with the full stored message (or error)
+async function streamAiResponse(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  response: AiResponse,
+  cached: boolean,
+  extra: object = {}
+) {
+  const locale = await getRequestLocale(req);
+  const send = openEventStream(res);
+  const sendFailure = () => send('error', {
+    error: translateError(locale, { code: 'AI_GENERATION_FAILED' }),
+    code: 'AI_GENERATION_FAILED'
+  });
+  send('start', { ai_response_id: response.id, cached, ...extra });
+
+  try {
+    const follow = response.status === 'pending' ? followAiResponse(response.id, text => send('token', { text })) : null;
+
+    let final: AiResponse | null;
+    if (follow) {
+      res.on('close', follow.unsubscribe);
+      final = await follow.done;
+    } else {
+      // Already complete, or generated elsewhere - send what's stored
+      const stored = response.status === 'pending' ? await repositories.aiResponses.findById(response.id) : response;
+      final = stored && (stored.status || 'completed') === 'completed' ? stored : null;
+      if (final) send('token', { text: final.ai_message });
+    }
+
+    if (final) {
+      send('done', {
+        ai_response_id: final.id,
+        message: final.ai_message,
+        cached,
+        // The streamed text failed moderation and message replaces it
+        replaced: !!final.context?.moderation_categories
+      });
+    } else {
+      sendFailure();
+    }
+  } catch (error: any) {
+    console.error('Error streaming AI response:', error);
+    sendFailure();
+  }
+
+  res.end();
+}
+
+async function startAiStream(req: AuthenticatedRequest, res: express.Response, request: AiRequest) {
+  const { response, cached, error } = await startAiResponse(request);
+
+  if (error) {
+    return sendError(req, res, 429, error);
+  }
+
+  await streamAiResponse(req, res, response!, cached!);
+}
+
 // POST /api/ai/encouragement - Generate post-check-in message
-router.post('/encouragement', async (req: AuthenticatedRequest, res) => {
+// POST /api/ai/encouragement/stream - Same, streamed as server-sent events
+router.post(['/encouragement', '/encouragement/stream'], async (req: AuthenticatedRequest, res) => {
   try {
     const { habit_id, streak_length, last_seven_days, milestone } = req.body;
 
     if (!habit_id) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     // Get habit details
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('habit_name, category')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    const dayOfWeek = new Date().toLocaleDateString('en-US', { weekday: 'long' });
-    const aiMessage = await getEncouragementMessage({
-      habitName: habit.habit_name,
-      category: habit.category,
-      streakLength: streak_length || 0,
-      lastSevenDays: last_seven_days || [],
-      dayOfWeek,
-      milestone
-    });
-
-    // Save AI response
-    await supabase.from('ai_responses').insert({
-      user_id: req.user!.id,
-      response_type: 'post-checkin',
+    const today = await getUserToday(req.user!.id);
+    const locale = await getUserLocale(req.user!.id);
+    const dayOfWeek = getWeekdayName(today);
+    const request: AiRequest = {
+      userId: req.user!.id,
+      habitId: habit_id,
+      type: 'post-checkin',
       context: { habit_id, streak_length, milestone },
-      ai_message: aiMessage
-    });
+      cacheContext: { habit_id, streak_length, milestone, date: today, locale },
+      generate: onText => getEncouragementMessage(req.user!.id, {
+        locale,
+        habitName: habit.habit_name,
+        category: habit.category,
+        streakLength: streak_length || 0,
+        lastSevenDays: last_seven_days || [],
+        dayOfWeek,
+        milestone
+      }, onText)
+    };
+
+    if (isStreamRequest(req)) {
+      return await startAiStream(req, res, request);
+    }
 
-    res.json({ message: aiMessage });
+    const { response, cached, error } = await getOrCreateAiResponse(request);
+
+    if (error) {
+      return sendError(req, res, 429, error);
+    }
+
+    res.json({ ai_response_id: response!.id, message: response!.ai_message, cached });
   } catch (error: any) {
     console.error('Error generating encouragement:', error);
-    res.status(500).json({ error: 'Failed to generate encouragement' });
+    sendError(req, res, 500, 'GENERATE_ENCOURAGEMENT_FAILED');
   }
 });
 
 // POST /api/ai/weekly-insight - Generate weekly insight
-router.post('/weekly-insight', async (req: AuthenticatedRequest, res) => {
+// POST /api/ai/weekly-insight/stream - Same, streamed as server-sent events
+router.post(['/weekly-insight', '/weekly-insight/stream'], async (req: AuthenticatedRequest, res) => {
   try {
     const { habit_id } = req.body;
 
     if (!habit_id) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     // Get habit details
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('habit_name')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
-    }
-
-    // Get last 7 days of check-ins
-    const today = new Date();
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - 6);
-
-    const { data: checkIns } = await supabase
-      .from('check_ins')
-      .select('date, completed, check_in_time')
-      .eq('habit_id', habit_id)
-      .gte('date', weekStart.toISOString().split('T')[0])
-      .lte('date', today.toISOString().split('T')[0])
-      .order('date', { ascending: true });
-
-    const weekCheckIns: boolean[] = [];
-    const checkInTimes: string[] = [];
-    const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    const dayCounts: { [key: string]: { success: number; total: number } } = {};
-
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(weekStart);
-      date.setDate(weekStart.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-      const dayName = dayNames[date.getDay()];
-
-      const checkIn = checkIns?.find(c => c.date === dateStr);
-      const completed = checkIn?.completed || false;
-      weekCheckIns.push(completed);
-      checkInTimes.push(checkIn?.check_in_time || 'skip');
-
-      if (!dayCounts[dayName]) {
-        dayCounts[dayName] = { success: 0, total: 0 };
-      }
-      dayCounts[dayName].total++;
-      if (completed) dayCounts[dayName].success++;
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    // Find best and worst days
-    let bestDay = 'Monday';
-    let worstDay = 'Monday';
-    let bestRatio = 0;
-    let worstRatio = 1;
+    const today = await getUserToday(req.user!.id);
+    const request = await buildWeeklyInsightRequest(habit, today);
 
-    for (const [day, counts] of Object.entries(dayCounts)) {
-      const ratio = counts.total > 0 ? counts.success / counts.total : 0;
-      if (ratio > bestRatio) {
-        bestRatio = ratio;
-        bestDay = day;
-      }
-      if (ratio < worstRatio) {
-        worstRatio = ratio;
-        worstDay = day;
-      }
+    if (isStreamRequest(req)) {
+      return await startAiStream(req, res, request);
     }
 
-    // Get partner's check-ins if partnership exists
-    const { data: partnership } = await supabase
-      .from('partnerships')
-      .select('requester_id, receiver_id')
-      .or(`requester_id.eq.${req.user!.id},receiver_id.eq.${req.user!.id}`)
-      .eq('status', 'accepted')
-      .single();
-
-    let partnerCheckIns = 0;
-    if (partnership) {
-      const partnerId = partnership.requester_id === req.user!.id 
-        ? partnership.receiver_id 
-        : partnership.requester_id;
-
-      const { count } = await supabase
-        .from('check_ins')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', partnerId)
-        .gte('date', weekStart.toISOString().split('T')[0])
-        .lte('date', today.toISOString().split('T')[0])
-        .eq('completed', true);
-
-      partnerCheckIns = count || 0;
-    }
-
-    const aiMessage = await getWeeklyInsight({
-      habitName: habit.habit_name,
-      weekCheckIns,
-      bestDay,
-      worstDay,
-      checkInTimes,
-      partnerCheckIns
-    });
+    const { response, cached, error } = await getOrCreateAiResponse(request);
 
-    // Save AI response
-    await supabase.from('ai_responses').insert({
-      user_id: req.user!.id,
-      response_type: 'weekly-insight',
-      context: { habit_id, weekCheckIns, bestDay, worstDay },
-      ai_message: aiMessage
-    });
+    if (error) {
+      return sendError(req, res, 429, error);
+    }
 
-    res.json({ message: aiMessage });
+    res.json({ ai_response_id: response!.id, message: response!.ai_message, cached });
   } catch (error: any) {
     console.error('Error generating weekly insight:', error);
-    res.status(500).json({ error: 'Failed to generate weekly insight' });
+    sendError(req, res, 500, 'GENERATE_WEEKLY_INSIGHT_FAILED');
   }
 });
 
 // POST /api/ai/streak-break-support - Generate support message after streak break
-router.post('/streak-break-support', async (req: AuthenticatedRequest, res) => {
+// POST /api/ai/streak-break-support/stream - Same, streamed as server-sent events
+router.post(['/streak-break-support', '/streak-break-support/stream'], async (req: AuthenticatedRequest, res) => {
   try {
     const { habit_id, broken_streak_length } = req.body;
 
     if (!habit_id) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     // Get habit details
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('habit_name')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
+
+    const today = await getUserToday(req.user!.id);
+    const stats = await getHabitStats(habit, today);
+    const locale = await getUserLocale(req.user!.id);
+
+    const request: AiRequest = {
+      userId: req.user!.id,
+      habitId: habit_id,
+      type: 'streak-break',
+      context: { habit_id, broken_streak_length },
+      cacheContext: { habit_id, broken_streak_length, date: today, locale },
+      generate: onText => getStreakBreakSupport(req.user!.id, {
+        locale,
+        habitName: habit.habit_name,
+        brokenStreakLength: broken_streak_length || 0,
+        totalDaysActive: stats.total_checkins,
+        previousLongestStreak: Math.max(stats.longest_streak, broken_streak_length || 0)
+      }, onText)
+    };
+
+    if (isStreamRequest(req)) {
+      return await startAiStream(req, res, request);
+    }
+
+    const { response, cached, error } = await getOrCreateAiResponse(request);
+
+    if (error) {
+      return sendError(req, res, 429, error);
     }
 
-    // Get total days active
-    const { count: totalDaysActive } = await supabase
-      .from('check_ins')
-      .select('id', { count: 'exact', head: true })
-      .eq('habit_id', habit_id)
-      .eq('completed', true);
+    res.json({ ai_response_id: response!.id, message: response!.ai_message, cached });
+  } catch (error: any) {
+    console.error('Error generating streak break support:', error);
+    sendError(req, res, 500, 'GENERATE_SUPPORT_MESSAGE_FAILED');
+  }
+});
 
-    // Get longest streak (simplified - could be more accurate)
-    const previousLongestStreak = broken_streak_length || 0;
+// POST /api/ai/monthly-summary - Summarize what the user wrote in their
+// check-in notes and reflections during a month (default: this month)
+router.post('/monthly-summary', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { month, habit_id } = req.body;
+    const currentMonth = (await getUserToday(req.user!.id)).slice(0, 7);
 
-    const aiMessage = await getStreakBreakSupport({
-      habitName: habit.habit_name,
-      brokenStreakLength: broken_streak_length || 0,
-      totalDaysActive: totalDaysActive || 0,
-      previousLongestStreak
+    if (month !== undefined && (typeof month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month))) {
+      return sendError(req, res, 400, 'INVALID_MONTH');
+    }
+    if (month > currentMonth) {
+      return sendError(req, res, 400, 'FUTURE_MONTH');
+    }
+
+    if (habit_id) {
+      const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
+      if (!habit) {
+        return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+      }
+    }
+
+    const { summary, cached, error } = await getMonthlyWritingSummary(req.user!.id, month || currentMonth, habit_id);
+
+    if (error) {
+      return sendError(req, res, 429, error);
+    }
+
+    res.json({ ...summary, cached });
+  } catch (error: any) {
+    console.error('Error generating monthly summary:', error);
+    sendError(req, res, 500, 'GENERATE_MONTHLY_SUMMARY_FAILED');
+  }
+});
+
+// POST /api/ai/habit-plan - Suggest habits for a goal described in free text
+router.post('/habit-plan', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { goal } = req.body;
+
+    if (typeof goal !== 'string' || !goal.trim()) {
+      return sendError(req, res, 400, 'GOAL_REQUIRED');
+    }
+    if (goal.length > MAX_GOAL_LENGTH) {
+      return sendError(req, res, 400, apiError('GOAL_TOO_LONG', { max: MAX_GOAL_LENGTH }));
+    }
+
+    const { plan, cached, error } = await generateHabitPlan(req.user!.id, goal.trim());
+
+    if (error) {
+      return sendError(req, res, 429, error);
+    }
+
+    if (plan!.suggestions.length === 0) {
+      return sendError(req, res, 502, 'NO_HABIT_PLAN');
+    }
+
+    res.json({ ...plan, cached });
+  } catch (error: any) {
+    console.error('Error generating habit plan:', error);
+    sendError(req, res, 500, 'GENERATE_HABIT_PLAN_FAILED');
+  }
+});
+
+// POST /api/ai/habit-plan/:id/accept - Create a habit from one of the plan's
+// suggestions. Other habit fields (schedule, privacy...) may be passed along.
+router.post('/habit-plan/:id/accept', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { suggestion_index = 0, ...overrides } = req.body;
+
+    const plan = await findHabitPlan(req.user!.id, req.params.id);
+
+    if (!plan) {
+      return sendError(req, res, 404, 'HABIT_PLAN_NOT_FOUND');
+    }
+
+    const suggestion = plan.suggestions[suggestion_index];
+    if (!Number.isInteger(suggestion_index) || !suggestion) {
+      return sendError(req, res, 400, 'INVALID_SUGGESTION_INDEX');
+    }
+
+    const parsed = parseNewHabit({
+      habit_name: suggestion.habit_name,
+      category: suggestion.category,
+      start_date: suggestion.start_date,
+      ...overrides
     });
+    if (parsed.error) {
+      return sendError(req, res, 400, parsed.error);
+    }
+
+    const today = await getUserToday(req.user!.id);
+    const { habit, error } = await createHabit(req.user!.id, parsed.habit!, today);
+
+    if (error) {
+      return sendError(req, res, 400, error);
+    }
 
-    // Save AI response
-    await supabase.from('ai_responses').insert({
+    res.status(201).json(habit);
+  } catch (error: any) {
+    console.error('Error creating habit from plan:', error);
+    sendError(req, res, 500, 'CREATE_HABIT_FAILED');
+  }
+});
+
+// GET /api/ai/responses/:id - Get an AI response, e.g. the one a check-in started
+router.get('/responses/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const response = await repositories.aiResponses.findById(req.params.id);
+
+    if (!response || response.user_id !== req.user!.id) {
+      return sendError(req, res, 404, 'AI_RESPONSE_NOT_FOUND');
+    }
+
+    res.json({ ...response, status: response.status || 'completed' });
+  } catch (error: any) {
+    console.error('Error fetching AI response:', error);
+    sendError(req, res, 500, 'FETCH_AI_RESPONSE_FAILED');
+  }
+});
+
+// GET /api/ai/responses/:id/stream - Follow an AI response as server-sent events
+router.get('/responses/:id/stream', async (req: AuthenticatedRequest, res) => {
+  try {
+    const response = await repositories.aiResponses.findById(req.params.id);
+
+    if (!response || response.user_id !== req.user!.id) {
+      return sendError(req, res, 404, 'AI_RESPONSE_NOT_FOUND');
+    }
+
+    await streamAiResponse(req, res, response, false);
+  } catch (error: any) {
+    console.error('Error streaming AI response:', error);
+    sendError(req, res, 500, 'STREAM_AI_RESPONSE_FAILED');
+  }
+});
+
+// POST /api/ai/responses/:id/feedback - Rate a response as helpful or not
+router.post('/responses/:id/feedback', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { feedback, error } = parseFeedback(req.body);
+    if (error) {
+      return sendError(req, res, 400, error);
+    }
+
+    const response = await repositories.aiResponses.findById(req.params.id);
+    if (!response || response.user_id !== req.user!.id) {
+      return sendError(req, res, 404, 'AI_RESPONSE_NOT_FOUND');
+    }
+    if (response.status === 'pending' || response.status === 'failed') {
+      return sendError(req, res, 400, 'RESPONSE_NOT_RATABLE');
+    }
+
+    const saved = await repositories.aiFeedback.save({
+      ai_response_id: response.id,
       user_id: req.user!.id,
-      response_type: 'streak-break',
-      context: { habit_id, broken_streak_length },
-      ai_message: aiMessage
+      ...feedback!
     });
 
-    res.json({ message: aiMessage });
+    res.json(saved);
   } catch (error: any) {
-    console.error('Error generating streak break support:', error);
-    res.status(500).json({ error: 'Failed to generate support message' });
+    console.error('Error saving AI feedback:', error);
+    sendError(req, res, 500, 'SAVE_FEEDBACK_FAILED');
+  }
+});
+
+// GET /api/ai/prompts/report - Feedback per prompt template version (admin only)
+router.get('/prompts/report', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!isAdmin(req.user!.id)) {
+      return sendError(req, res, 403, 'ADMIN_REQUIRED');
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    res.json({ days, ...(await getPromptReport(since)) });
+  } catch (error: any) {
+    console.error('Error fetching prompt report:', error);
+    sendError(req, res, 500, 'FETCH_PROMPT_REPORT_FAILED');
+  }
+});
+
+// GET /api/ai/usage - AI consumption and today's quota. Admins can pass
+// user_id to view another user, or scope=all for everyone.
+router.get('/usage', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { user_id, scope } = req.query;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    if ((user_id && user_id !== req.user!.id) || scope === 'all') {
+      if (!isAdmin(req.user!.id)) {
+        return sendError(req, res, 403, 'ADMIN_REQUIRED');
+      }
+      if (scope === 'all') {
+        return res.json({ scope: 'all', days, ...(await getAiUsage(since)) });
+      }
+    }
+
+    const userId = (user_id as string) || req.user!.id;
+
+    res.json({
+      user_id: userId,
+      days,
+      quota: await getQuotaStatus(userId),
+      ...(await getAiUsage(since, userId))
+    });
+  } catch (error: any) {
+    console.error('Error fetching AI usage:', error);
+    sendError(req, res, 500, 'FETCH_AI_USAGE_FAILED');
+  }
+});
+
+// GET /api/ai/insights - Page through past weekly insights that completed
+router.get('/insights', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { habit_id, before } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+    const page = await repositories.aiResponses.listForUser(
+      req.user!.id,
+      'weekly-insight',
+      limit,
+      before as string | undefined,
+      habit_id as string | undefined
+    );
+
+    res.json({ insights: page.items, next_cursor: page.nextCursor });
+  } catch (error: any) {
+    console.error('Error fetching insights:', error);
+    sendError(req, res, 500, 'FETCH_INSIGHTS_FAILED');
+  }
+});
+
+// GET /api/ai/insights/:id - Get a single insight
+router.get('/insights/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const insight = await repositories.aiResponses.findById(req.params.id);
+
+    if (!insight || insight.user_id !== req.user!.id || insight.response_type !== 'weekly-insight' ||
+        insight.status === 'failed') {
+      return sendError(req, res, 404, 'INSIGHT_NOT_FOUND');
+    }
+
+    res.json(insight);
+  } catch (error: any) {
+    console.error('Error fetching insight:', error);
+    sendError(req, res, 500, 'FETCH_INSIGHT_FAILED');
+  }
+});
+
+// POST /api/ai/chat - Send a message to the habit coach. Starts a new
+// conversation unless conversation_id is given.
+// POST /api/ai/chat/stream - Same, with the reply streamed as server-sent events
+router.post(['/chat', '/chat/stream'], async (req: AuthenticatedRequest, res) => {
+  try {
+    const { message, conversation_id, habit_id } = req.body;
+
+    if (typeof message !== 'string' || !message.trim()) {
+      return sendError(req, res, 400, 'MESSAGE_REQUIRED');
+    }
+    if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return sendError(req, res, 400, apiError('MESSAGE_TOO_LONG', { max: MAX_CHAT_MESSAGE_LENGTH }));
+    }
+
+    let conversation;
+    if (conversation_id) {
+      conversation = await repositories.conversations.findById(conversation_id);
+      if (!conversation || conversation.user_id !== req.user!.id) {
+        return sendError(req, res, 404, 'CONVERSATION_NOT_FOUND');
+      }
+    } else if (habit_id) {
+      const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
+      if (!habit) {
+        return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+      }
+    }
+
+    // Checked up front so an over-quota message isn't saved without a reply
+    if (!(await hasQuotaRemaining(req.user!.id, 'chat'))) {
+      return sendError(req, res, 429, 'CHAT_DAILY_LIMIT');
+    }
+
+    if (!conversation) {
+      conversation = await startConversation(req.user!.id, habit_id || null, message.trim());
+    }
+
+    if (isStreamRequest(req)) {
+      const { response, cached, error } = await startCoachReply(conversation, message.trim());
+      if (error) {
+        return sendError(req, res, 429, error);
+      }
+      return await streamAiResponse(req, res, response!, cached!, { conversation_id: conversation.id });
+    }
+
+    const { reply, error } = await sendCoachMessage(conversation, message.trim());
+
+    if (error) {
+      return sendError(req, res, 429, error);
+    }
+
+    res.json({ conversation_id: conversation.id, reply });
+  } catch (error: any) {
+    console.error('Error sending chat message:', error);
+    sendError(req, res, 500, 'SEND_CHAT_MESSAGE_FAILED');
+  }
+});
+
+// GET /api/ai/chat - List the user's coach conversations
+router.get('/chat', async (req: AuthenticatedRequest, res) => {
+  try {
+    const conversations = await repositories.conversations.listForUser(req.user!.id);
+
+    res.json(conversations);
+  } catch (error: any) {
+    console.error('Error fetching conversations:', error);
+    sendError(req, res, 500, 'FETCH_CONVERSATIONS_FAILED');
+  }
+});
+
+// GET /api/ai/chat/:id - Get a conversation with its messages
+router.get('/chat/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const conversation = await repositories.conversations.findById(req.params.id);
+
+    if (!conversation || conversation.user_id !== req.user!.id) {
+      return sendError(req, res, 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    const messages = await repositories.conversations.listMessages(conversation.id);
+
+    res.json({ ...conversation, messages });
+  } catch (error: any) {
+    console.error('Error fetching conversation:', error);
+    sendError(req, res, 500, 'FETCH_CONVERSATION_FAILED');
   }
 });
 
@@ -1,6 +1,13 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
-import { AuthenticatedRequest } from '../middleware/auth';
+import { repositories } from '../repositories';
+import { AuthenticatedRequest, isAdmin } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { addDays, daysBetween, formatDate, getDaysInMonth, getUserToday, getWeekdayName } from '../services/dateService';
+import { getNudgeReport } from '../services/nudgeService';
+import { getPartnershipDashboard } from '../services/partnershipStatsService';
+import { DayStatus } from '../services/scheduleService';
+import { getHabitStats, getStreakHistory } from '../services/streakService';
+import { summarizeQuantities } from '../services/targetService';
 
 const router = express.Router();
 
@@ -10,75 +17,39 @@ router.get('/overview', async (req: AuthenticatedRequest, res) => {
     const { habit_id } = req.query;
 
     if (!habit_id) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id, start_date')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id as string, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
     // Get all check-ins
-    const { data: checkIns } = await supabase
-      .from('check_ins')
-      .select('date, completed')
-      .eq('habit_id', habit_id)
-      .order('date', { ascending: true });
-
-    // Calculate stats
-    const totalCheckIns = checkIns?.filter(c => c.completed).length || 0;
-    const totalDays = checkIns?.length || 0;
-    const successRate = totalDays > 0 ? (totalCheckIns / totalDays) * 100 : 0;
-
-    // Calculate current streak
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-    const today = new Date().toISOString().split('T')[0];
-
-    if (checkIns) {
-      // Current streak (from today backwards)
-      let checkDate = new Date(today);
-      while (true) {
-        const dateStr = checkDate.toISOString().split('T')[0];
-        const checkIn = checkIns.find(c => c.date === dateStr && c.completed);
-        if (!checkIn) break;
-        currentStreak++;
-        checkDate.setDate(checkDate.getDate() - 1);
-      }
+    const checkIns = await repositories.checkIns.listForHabit(habit.id);
 
-      // Longest streak
-      for (const checkIn of checkIns) {
-        if (checkIn.completed) {
-          tempStreak++;
-          longestStreak = Math.max(longestStreak, tempStreak);
-        } else {
-          tempStreak = 0;
-        }
-      }
-    }
+    const today = await getUserToday(req.user!.id);
+    const stats = await getHabitStats(habit, today);
+
+    // Success rate only counts days the habit was due and not frozen
+    const successRate = stats.due_days > 0 ? (stats.completed_due_days / stats.due_days) * 100 : 0;
 
     // Days since started
-    const startDate = new Date(habit.start_date);
-    const daysSinceStarted = Math.floor((new Date().getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    const daysSinceStarted = daysBetween(habit.start_date, today);
 
     res.json({
-      current_streak: currentStreak,
-      longest_streak: longestStreak,
-      total_checkins: totalCheckIns,
+      current_streak: stats.current_streak,
+      longest_streak: stats.longest_streak,
+      total_checkins: stats.total_checkins,
       success_rate: Math.round(successRate * 100) / 100,
-      days_since_started: daysSinceStarted
+      days_since_started: daysSinceStarted,
+      quantity: summarizeQuantities(habit, checkIns)
     });
   } catch (error: any) {
     console.error('Error fetching analytics overview:', error);
-    res.status(500).json({ error: 'Failed to fetch analytics' });
+    sendError(req, res, 500, 'FETCH_ANALYTICS_FAILED');
   }
 });
 
@@ -88,21 +59,23 @@ router.get('/weekly', async (req: AuthenticatedRequest, res) => {
     const { habit_id } = req.query;
 
     if (!habit_id) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
+    }
+
+    // Verify habit belongs to user
+    const habit = await repositories.habits.findByIdForUser(habit_id as string, req.user!.id);
+
+    if (!habit) {
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
     // Get last 7 days
-    const today = new Date();
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - 6);
-
-    const { data: checkIns } = await supabase
-      .from('check_ins')
-      .select('date, completed, check_in_time')
-      .eq('habit_id', habit_id)
-      .gte('date', weekStart.toISOString().split('T')[0])
-      .lte('date', today.toISOString().split('T')[0])
-      .order('date', { ascending: true });
+    const today = await getUserToday(req.user!.id);
+    const weekStart = addDays(today, -6);
+
+    const checkIns = await repositories.checkIns.listForHabit(habit.id, { from: weekStart, to: today });
+
+    const history = await getStreakHistory(habit, today);
 
     const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
     const dayStats: { [key: string]: { completed: number; total: number; avgTime?: string } } = {};
@@ -111,20 +84,23 @@ router.get('/weekly', async (req: AuthenticatedRequest, res) => {
       dayStats[day] = { completed: 0, total: 0 };
     });
 
+    // Only days the habit was due (and not frozen) count towards the totals
+    for (let date = weekStart; date <= today; date = addDays(date, 1)) {
+      const status = history.statuses.get(date);
+      if (status !== 'completed' && status !== 'missed') continue;
+      const dayName = getWeekdayName(date);
+      dayStats[dayName].total++;
+      if (status === 'completed') dayStats[dayName].completed++;
+    }
+
     let totalCheckInTimes = 0;
     let checkInTimeSum = 0;
 
-    checkIns?.forEach(checkIn => {
-      const date = new Date(checkIn.date);
-      const dayName = dayNames[date.getDay()];
-      dayStats[dayName].total++;
-      if (checkIn.completed) {
-        dayStats[dayName].completed++;
-        if (checkIn.check_in_time) {
-          const [hours, minutes] = checkIn.check_in_time.split(':').map(Number);
-          checkInTimeSum += hours * 60 + minutes;
-          totalCheckInTimes++;
-        }
+    checkIns.forEach(checkIn => {
+      if (checkIn.completed && checkIn.check_in_time) {
+        const [hours, minutes] = checkIn.check_in_time.split(':').map(Number);
+        checkInTimeSum += hours * 60 + minutes;
+        totalCheckInTimes++;
       }
     });
 
@@ -146,19 +122,20 @@ router.get('/weekly', async (req: AuthenticatedRequest, res) => {
     const avgTime = avgMinutes > 0 ? `${avgHours}:${avgMins.toString().padStart(2, '0')}` : undefined;
 
     // Calculate consistency score (0-100)
-    const totalDays = checkIns?.length || 0;
-    const completedDays = checkIns?.filter(c => c.completed).length || 0;
+    const totalDays = Object.values(dayStats).reduce((sum, d) => sum + d.total, 0);
+    const completedDays = Object.values(dayStats).reduce((sum, d) => sum + d.completed, 0);
     const consistencyScore = totalDays > 0 ? Math.round((completedDays / totalDays) * 100) : 0;
 
     res.json({
       day_stats: dayStats,
       best_day: bestDay,
       average_checkin_time: avgTime,
-      consistency_score: consistencyScore
+      consistency_score: consistencyScore,
+      quantity: summarizeQuantities(habit, checkIns)
     });
   } catch (error: any) {
     console.error('Error fetching weekly analytics:', error);
-    res.status(500).json({ error: 'Failed to fetch weekly analytics' });
+    sendError(req, res, 500, 'FETCH_WEEKLY_ANALYTICS_FAILED');
   }
 });
 
@@ -169,58 +146,42 @@ router.get('/monthly/:year/:month', async (req: AuthenticatedRequest, res) => {
     const habitId = (habit_id || req.query.habit_id) as string;
 
     if (!habitId) {
-      return res.status(400).json({ error: 'Habit ID is required' });
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     const yearNum = parseInt(year);
     const monthNum = parseInt(month);
 
-    const startDate = new Date(yearNum, monthNum - 1, 1);
-    const endDate = new Date(yearNum, monthNum, 0);
+    const daysInMonth = getDaysInMonth(yearNum, monthNum);
 
-    const { data: checkIns } = await supabase
-      .from('check_ins')
-      .select('date, completed')
-      .eq('habit_id', habitId)
-      .gte('date', startDate.toISOString().split('T')[0])
-      .lte('date', endDate.toISOString().split('T')[0]);
+    // Get habit start date and schedule
+    const habit = await repositories.habits.findByIdForUser(habitId, req.user!.id);
 
-    // Create calendar map
-    const calendar: { [date: string]: { completed: boolean; status: 'completed' | 'missed' | 'future' } } = {};
+    if (!habit) {
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
 
-    // Get habit start date
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('start_date')
-      .eq('id', habitId)
-      .single();
+    const today = await getUserToday(req.user!.id);
+    const history = await getStreakHistory(habit, today);
 
-    const habitStartDate = habit ? new Date(habit.start_date) : startDate;
+    // Create calendar map
+    const calendar: { [date: string]: { completed: boolean; status: DayStatus | 'future' } } = {};
 
-    for (let day = 1; day <= endDate.getDate(); day++) {
-      const date = new Date(yearNum, monthNum - 1, day);
-      const dateStr = date.toISOString().split('T')[0];
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dateStr = formatDate(yearNum, monthNum, day);
       
-      if (date < habitStartDate) {
-        calendar[dateStr] = { completed: false, status: 'future' };
-      } else if (date > new Date()) {
+      if (dateStr < habit.start_date || dateStr > today) {
         calendar[dateStr] = { completed: false, status: 'future' };
       } else {
-        const checkIn = checkIns?.find(c => c.date === dateStr);
-        if (checkIn) {
-          calendar[dateStr] = {
-            completed: checkIn.completed,
-            status: checkIn.completed ? 'completed' : 'missed'
-          };
-        } else {
-          calendar[dateStr] = { completed: false, status: 'missed' };
-        }
+        const status = history.statuses.get(dateStr)!;
+        calendar[dateStr] = { completed: status === 'completed', status };
       }
     }
 
-    // Calculate monthly stats
-    const totalDays = Object.keys(calendar).length;
-    const completedDays = Object.values(calendar).filter(c => c.status === 'completed').length;
+    // Calculate monthly stats over the days the habit was due
+    const dueDays = Object.values(calendar).filter(c => c.status === 'completed' || c.status === 'missed');
+    const totalDays = dueDays.length;
+    const completedDays = dueDays.filter(c => c.status === 'completed').length;
     const successRate = totalDays > 0 ? (completedDays / totalDays) * 100 : 0;
 
     res.json({
@@ -233,7 +194,48 @@ router.get('/monthly/:year/:month', async (req: AuthenticatedRequest, res) => {
     });
   } catch (error: any) {
     console.error('Error fetching monthly analytics:', error);
-    res.status(500).json({ error: 'Failed to fetch monthly analytics' });
+    sendError(req, res, 500, 'FETCH_MONTHLY_ANALYTICS_FAILED');
+  }
+});
+
+// GET /api/analytics/nudges - How often nudges were followed by a check-in
+// the same day. Admins can pass scope=all for everyone.
+router.get('/nudges', async (req: AuthenticatedRequest, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    if (req.query.scope === 'all') {
+      if (!isAdmin(req.user!.id)) {
+        return sendError(req, res, 403, 'ADMIN_REQUIRED');
+      }
+      return res.json({ scope: 'all', days, ...(await getNudgeReport(since)) });
+    }
+
+    res.json({ days, ...(await getNudgeReport(since, req.user!.id)) });
+  } catch (error: any) {
+    console.error('Error fetching nudge analytics:', error);
+    sendError(req, res, 500, 'FETCH_NUDGE_ANALYTICS_FAILED');
+  }
+});
+
+// GET /api/analytics/partnership - Both partners' streaks side by side, their
+// joint streak, who checks in first, messages and nudges sent, and a
+// week-by-week comparison since the partnership was accepted
+router.get('/partnership', async (req: AuthenticatedRequest, res) => {
+  try {
+    const partnership = await repositories.partnerships.findAcceptedForUser(req.user!.id);
+
+    if (!partnership) {
+      return sendError(req, res, 404, 'NO_ACTIVE_PARTNERSHIP');
+    }
+
+    const data = await getPartnershipDashboard(partnership, req.user!.id);
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error fetching partnership analytics:', error);
+    sendError(req, res, 500, 'FETCH_PARTNERSHIP_ANALYTICS_FAILED');
   }
 });
 
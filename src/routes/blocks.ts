@@ -0,0 +1,74 @@
+import express from 'express';
+import { repositories } from '../repositories';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { blockUser } from '../services/blockService';
+
+const router = express.Router();
+
+// GET /api/blocks - Users the user has blocked, most recent first
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const blocks = (await repositories.blocks.listForUser(req.user!.id))
+      .filter(b => b.blocker_id === req.user!.id);
+    const profiles = await repositories.profiles.findByIds(blocks.map(b => b.blocked_id));
+
+    res.json(blocks.map(block => ({
+      ...block,
+      blocked_user: { display_name: profiles.find(p => p.id === block.blocked_id)?.display_name }
+    })));
+  } catch (error: any) {
+    console.error('Error fetching blocks:', error);
+    sendError(req, res, 500, 'FETCH_BLOCKS_FAILED');
+  }
+});
+
+// POST /api/blocks - Block a user and end any partnership with them
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { user_id } = req.body;
+
+    if (!user_id || typeof user_id !== 'string') {
+      return sendError(req, res, 400, 'USER_ID_REQUIRED');
+    }
+
+    if (user_id === req.user!.id) {
+      return sendError(req, res, 400, 'SELF_BLOCK');
+    }
+
+    if (!await repositories.profiles.findById(user_id)) {
+      return sendError(req, res, 404, 'USER_NOT_FOUND');
+    }
+
+    const existing = await repositories.blocks.findBetween(req.user!.id, user_id);
+
+    if (existing && existing.blocker_id === req.user!.id) {
+      return sendError(req, res, 400, 'ALREADY_BLOCKED');
+    }
+
+    const data = await blockUser(req.user!.id, user_id);
+
+    res.status(201).json(data);
+  } catch (error: any) {
+    console.error('Error blocking user:', error);
+    sendError(req, res, 500, 'BLOCK_USER_FAILED');
+  }
+});
+
+// DELETE /api/blocks/:userId - Unblock a user. Ended partnerships stay ended.
+router.delete('/:userId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const data = await repositories.blocks.delete(req.user!.id, req.params.userId);
+
+    if (!data) {
+      return sendError(req, res, 404, 'BLOCK_NOT_FOUND');
+    }
+
+    res.json({ message: 'User unblocked' });
+  } catch (error: any) {
+    console.error('Error unblocking user:', error);
+    sendError(req, res, 500, 'UNBLOCK_USER_FAILED');
+  }
+});
+
+export default router;
@@ -1,136 +1,242 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { CheckIn, Habit, repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
-import { getEncouragementMessage, getStreakBreakSupport } from '../services/geminiService';
+import { sendError } from '../middleware/errors';
+import { apiError } from '../i18n';
+import { startAiResponse } from '../services/aiResponseService';
+import { getEncouragementMessage, getStreakBreakSupport } from '../services/aiService';
+import {
+  addDays,
+  daysBetween,
+  getLocalDateTime,
+  getUserTimezone,
+  getUserToday,
+  getWeekdayName,
+  isValidDate
+} from '../services/dateService';
+import { queueCircleCheckInUpdates } from '../services/circleService';
+import { getUserLocale } from '../services/localeService';
+import { queuePartnerCheckInEvents } from '../services/realtimeService';
+import {
+  buildStreakHistory,
+  countCurrentStreak,
+  DEFAULT_GRACE_DAYS,
+  normalizeSchedule
+} from '../services/scheduleService';
+import {
+  getHabitStats,
+  getStreakHistory,
+  HabitStreakHistory,
+  refreshHabitStats
+} from '../services/streakService';
+import { aggregateEntries, CheckInEntry, getTargetPercentage, isQuantitative } from '../services/targetService';
+import { queueCheckInAnalysis } from '../services/textAnalysisService';
 
 const router = express.Router();
 
+const MILESTONES = [7, 14, 30, 50, 100];
+
+// A check-in as returned to the client, with progress and the AI follow-up
+interface CheckInResult extends CheckIn {
+  target_percentage?: number;
+  ai_response_id?: string;
+  ai_encouragement?: string;
+  ai_message?: string;
+}
+
 // POST /api/checkins - Create daily check-in
 router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { habit_id, completed, notes } = req.body;
+    const { habit_id, completed, value, notes, date } = req.body;
 
-    if (!habit_id || completed === undefined) {
-      return res.status(400).json({ error: 'Habit ID and completed status are required' });
+    if (!habit_id) {
+      return sendError(req, res, 400, 'HABIT_ID_REQUIRED');
     }
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('*')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
+
+    const quantitative = isQuantitative(habit);
+
+    if (quantitative) {
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        return sendError(req, res, 400, 'VALUE_REQUIRED');
+      }
+    } else if (completed === undefined) {
+      return sendError(req, res, 400, 'CHECKIN_FIELDS_REQUIRED');
+    } else if (typeof completed !== 'boolean') {
+      return sendError(req, res, 400, 'INVALID_COMPLETED');
     }
 
-    const today = new Date().toISOString().split('T')[0];
-    const checkInTime = new Date().toTimeString().split(' ')[0];
+    const timezone = await getUserTimezone(req.user!.id);
+    const { date: today, time: checkInTime } = getLocalDateTime(timezone);
 
-    // Check if already checked in today
-    const { data: existingCheckIn } = await supabase
-      .from('check_ins')
-      .select('id')
-      .eq('habit_id', habit_id)
-      .eq('date', today)
-      .single();
+    // Past days can be logged within the habit's grace window
+    const checkInDate: string = date || today;
+    const backfilled = checkInDate !== today;
 
-    if (existingCheckIn) {
-      // Update existing check-in
-      const { data, error } = await supabase
-        .from('check_ins')
-        .update({
-          completed,
-          check_in_time: checkInTime,
-          notes: notes || null
-        })
-        .eq('id', existingCheckIn.id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return res.json(data);
+    if (backfilled) {
+      if (!isValidDate(checkInDate)) {
+        return sendError(req, res, 400, 'INVALID_DATE');
+      }
+      if (checkInDate > today) {
+        return sendError(req, res, 400, 'FUTURE_CHECKIN');
+      }
+      if (checkInDate < habit.start_date) {
+        return sendError(req, res, 400, 'CHECKIN_BEFORE_START');
+      }
+      const graceDays = habit.grace_days ?? DEFAULT_GRACE_DAYS;
+      if (daysBetween(checkInDate, today) > graceDays) {
+        return sendError(req, res, 400, apiError('BACKDATE_LIMIT', { days: graceDays }));
+      }
+    }
+
+    // Check if already checked in for that day
+    const existingCheckIn = await repositories.checkIns.findByDate(habit_id, checkInDate);
+
+    // Quantitative habits accumulate entries through the day and complete
+    // once the aggregated value reaches the target
+    let isCompleted: boolean = completed;
+    let entries: CheckInEntry[] | null = null;
+    let aggregatedValue: number | null = null;
+
+    if (quantitative) {
+      entries = [...(existingCheckIn?.entries || []), { value, logged_at: checkInTime }];
+      aggregatedValue = aggregateEntries(habit.aggregation || 'sum', entries);
+      isCompleted = aggregatedValue >= habit.target_value!;
     }
 
-    // Create new check-in
-    const { data, error } = await supabase
-      .from('check_ins')
-      .insert({
+    let data: CheckInResult;
+
+    if (existingCheckIn) {
+      // Update existing check-in. A backdated update keeps the day's
+      // original time and is marked as backfilled, so it isn't announced as
+      // a live check-in.
+      const updated: CheckInResult = await repositories.checkIns.update(existingCheckIn.id, {
+        completed: isCompleted,
+        check_in_time: backfilled ? existingCheckIn.check_in_time : checkInTime,
+        notes: notes !== undefined ? notes || null : existingCheckIn.notes,
+        value: aggregatedValue,
+        entries,
+        backfilled: backfilled || existingCheckIn.backfilled
+      });
+
+      if (updated.notes !== existingCheckIn.notes) {
+        queueCheckInAnalysis(updated);
+      }
+
+      if (isCompleted && !existingCheckIn.completed) {
+        queuePartnerCheckInEvents(habit, updated);
+        queueCircleCheckInUpdates(habit, updated);
+      }
+
+      if (quantitative) {
+        updated.target_percentage = getTargetPercentage(habit, aggregatedValue!);
+      }
+
+      // Only an update that completes the day gets encouragement: the entry
+      // that first reaches the target, or a check-in changed to completed
+      if (!isCompleted || existingCheckIn.completed) {
+        await refreshHabitStats(habit, today, checkInDate);
+        return res.json(updated);
+      }
+      data = updated;
+    } else {
+      // Create new check-in
+      data = await repositories.checkIns.create({
         habit_id,
         user_id: req.user!.id,
-        date: today,
-        completed,
+        date: checkInDate,
+        completed: isCompleted,
         check_in_time: checkInTime,
-        notes: notes || null
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Calculate streak and get AI encouragement if completed
-    if (completed) {
-      const streak = await calculateStreak(habit_id);
-      const lastSevenDays = await getLastSevenDays(habit_id);
-      
-      // Check for milestones
-      const milestones = [7, 14, 30, 50, 100];
-      const milestone = milestones.includes(streak) ? `${streak}-day` : undefined;
+        notes: notes || null,
+        value: aggregatedValue,
+        entries,
+        backfilled
+      });
+
+      if (data.notes) {
+        queueCheckInAnalysis(data);
+      }
+
+      if (isCompleted) {
+        queuePartnerCheckInEvents(habit, data);
+        queueCircleCheckInUpdates(habit, data);
+      }
+
+      if (quantitative) {
+        data.target_percentage = getTargetPercentage(habit, aggregatedValue!);
+      }
+    }
+
+    const { stats, history } = await refreshHabitStats(habit, today, checkInDate);
+
+    // The AI message is generated in the background so the check-in returns
+    // right away. Clients follow it via /api/ai/responses/:id/stream; a
+    // cached message is included directly.
+    if (isCompleted) {
+      const { streak, milestone } = getStreakAfterCheckIn(habit, checkInDate, today, history);
+      const lastSevenDays = stats.last_seven_days;
 
       // Get AI encouragement
       try {
-        const dayOfWeek = new Date().toLocaleDateString('en-US', { weekday: 'long' });
-        const aiMessage = await getEncouragementMessage({
-          habitName: habit.habit_name,
-          category: habit.category,
-          streakLength: streak,
-          lastSevenDays,
-          dayOfWeek,
-          milestone
+        const dayOfWeek = getWeekdayName(today);
+        const locale = await getUserLocale(req.user!.id);
+        const { response, cached } = await startAiResponse({
+          userId: req.user!.id,
+          habitId: habit_id,
+          type: 'post-checkin',
+          context: { habit_id, streak, milestone, date: checkInDate, backfilled },
+          cacheContext: { habit_id, streak_length: streak, milestone, date: checkInDate, locale },
+          generate: onText => getEncouragementMessage(req.user!.id, {
+            locale,
+            habitName: habit.habit_name,
+            category: habit.category,
+            streakLength: streak,
+            lastSevenDays,
+            dayOfWeek,
+            milestone
+          }, onText)
         });
 
-        // Save AI response
-        await supabase.from('ai_responses').insert({
-          user_id: req.user!.id,
-          response_type: 'post-checkin',
-          context: { habit_id, streak, milestone },
-          ai_message: aiMessage
-        });
-
-        // Add AI message to response
-        (data as any).ai_encouragement = aiMessage;
+        // None once the daily quota is used up
+        if (response) {
+          data.ai_response_id = response.id;
+          if (cached) data.ai_encouragement = response.ai_message;
+        }
       } catch (aiError) {
         console.error('AI service error:', aiError);
       }
-    } else {
-      // Streak was broken - get support message
-      const previousStreak = await calculateStreak(habit_id);
-      const { data: allCheckIns } = await supabase
-        .from('check_ins')
-        .select('id')
-        .eq('habit_id', habit_id)
-        .eq('completed', true);
-
-      const totalDaysActive = allCheckIns?.length || 0;
+    } else if (!quantitative && !backfilled) {
+      // Streak was broken - get support message. Partial progress on a
+      // quantitative habit is not a break.
+      const previousStreak = countCurrentStreak(history.statuses, addDays(today, -1), history.base);
 
       try {
-        const aiMessage = await getStreakBreakSupport({
-          habitName: habit.habit_name,
-          brokenStreakLength: previousStreak,
-          totalDaysActive,
-          previousLongestStreak: previousStreak // Simplified - could track separately
-        });
-
-        await supabase.from('ai_responses').insert({
-          user_id: req.user!.id,
-          response_type: 'streak-break',
+        const locale = await getUserLocale(req.user!.id);
+        const { response, cached } = await startAiResponse({
+          userId: req.user!.id,
+          habitId: habit_id,
+          type: 'streak-break',
           context: { habit_id, brokenStreak: previousStreak },
-          ai_message: aiMessage
+          cacheContext: { habit_id, broken_streak_length: previousStreak, date: today, locale },
+          generate: onText => getStreakBreakSupport(req.user!.id, {
+            locale,
+            habitName: habit.habit_name,
+            brokenStreakLength: previousStreak,
+            totalDaysActive: stats.total_checkins,
+            previousLongestStreak: stats.longest_streak
+          }, onText)
         });
 
-        (data as any).ai_message = aiMessage;
+        if (response) {
+          data.ai_response_id = response.id;
+          if (cached) data.ai_message = response.ai_message;
+        }
       } catch (aiError) {
         console.error('AI service error:', aiError);
       }
@@ -139,7 +245,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     res.json(data);
   } catch (error: any) {
     console.error('Error creating check-in:', error);
-    res.status(500).json({ error: 'Failed to create check-in' });
+    sendError(req, res, 500, 'CREATE_CHECKIN_FAILED');
   }
 });
 
@@ -149,29 +255,18 @@ router.get('/:habitId', async (req: AuthenticatedRequest, res) => {
     const { habitId } = req.params;
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('id', habitId)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habitId, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('check_ins')
-      .select('*')
-      .eq('habit_id', habitId)
-      .order('date', { ascending: false });
+    const data = await repositories.checkIns.listForHabit(habitId, {}, true);
 
-    if (error) throw error;
-
-    res.json(data || []);
+    res.json(data);
   } catch (error: any) {
     console.error('Error fetching check-ins:', error);
-    res.status(500).json({ error: 'Failed to fetch check-ins' });
+    sendError(req, res, 500, 'FETCH_CHECKINS_FAILED');
   }
 });
 
@@ -179,23 +274,14 @@ router.get('/:habitId', async (req: AuthenticatedRequest, res) => {
 router.get('/:habitId/today', async (req: AuthenticatedRequest, res) => {
   try {
     const { habitId } = req.params;
-    const today = new Date().toISOString().split('T')[0];
+    const today = await getUserToday(req.user!.id);
 
-    const { data, error } = await supabase
-      .from('check_ins')
-      .select('*')
-      .eq('habit_id', habitId)
-      .eq('date', today)
-      .single();
+    const data = await repositories.checkIns.findByDate(habitId, today);
 
-    if (error && error.code !== 'PGRST116') {
-      throw error;
-    }
-
-    res.json(data || null);
+    res.json(data);
   } catch (error: any) {
     console.error('Error fetching today\'s check-in:', error);
-    res.status(500).json({ error: 'Failed to fetch today\'s check-in' });
+    sendError(req, res, 500, 'FETCH_TODAY_CHECKIN_FAILED');
   }
 });
 
@@ -205,115 +291,132 @@ router.get('/:habitId/streak', async (req: AuthenticatedRequest, res) => {
     const { habitId } = req.params;
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('id', habitId)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habitId, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    const streak = await calculateStreak(habitId);
-    const lastSevenDays = await getLastSevenDays(habitId);
-
-    // Get longest streak
-    const { data: allCheckIns } = await supabase
-      .from('check_ins')
-      .select('date, completed')
-      .eq('habit_id', habitId)
-      .eq('completed', true)
-      .order('date', { ascending: true });
-
-    let longestStreak = 0;
-    let currentCount = 0;
-    let lastDate: Date | null = null;
-
-    if (allCheckIns) {
-      for (const checkIn of allCheckIns) {
-        const checkInDate = new Date(checkIn.date);
-        if (lastDate) {
-          const daysDiff = Math.floor((checkInDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-          if (daysDiff === 1) {
-            currentCount++;
-          } else {
-            longestStreak = Math.max(longestStreak, currentCount);
-            currentCount = 1;
-          }
-        } else {
-          currentCount = 1;
-        }
-        lastDate = checkInDate;
-      }
-      longestStreak = Math.max(longestStreak, currentCount);
-    }
-
-    // Get total check-ins
-    const { count } = await supabase
-      .from('check_ins')
-      .select('id', { count: 'exact', head: true })
-      .eq('habit_id', habitId)
-      .eq('completed', true);
+    const today = await getUserToday(req.user!.id);
+    const stats = await getHabitStats(habit, today);
 
     res.json({
-      current_streak: streak,
-      longest_streak: longestStreak,
-      total_checkins: count || 0,
-      last_seven_days: lastSevenDays
+      current_streak: stats.current_streak,
+      longest_streak: stats.longest_streak,
+      total_checkins: stats.total_checkins,
+      last_seven_days: stats.last_seven_days,
+      freeze_balance: stats.freeze_balance,
+      freezes_earned: stats.freezes_earned,
+      freezes_used: stats.freezes_used,
+      auto_freeze: habit.auto_freeze ?? true
     });
   } catch (error: any) {
     console.error('Error calculating streak:', error);
-    res.status(500).json({ error: 'Failed to calculate streak' });
+    sendError(req, res, 500, 'CALCULATE_STREAK_FAILED');
   }
 });
 
-// Helper functions
-async function calculateStreak(habitId: string): Promise<number> {
-  let streak = 0;
-  let currentDate = new Date();
-  currentDate.setHours(0, 0, 0, 0);
-
-  while (true) {
-    const dateStr = currentDate.toISOString().split('T')[0];
-    const { data } = await supabase
-      .from('check_ins')
-      .select('id')
-      .eq('habit_id', habitId)
-      .eq('date', dateStr)
-      .eq('completed', true)
-      .single();
-
-    if (!data) break;
-
-    streak++;
-    currentDate.setDate(currentDate.getDate() - 1);
+// POST /api/checkins/:habitId/freeze - Spend a streak freeze on a missed day
+router.post('/:habitId/freeze', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { habitId } = req.params;
+    const { date } = req.body;
+
+    if (!date) {
+      return sendError(req, res, 400, 'DATE_REQUIRED');
+    }
+
+    // Verify habit belongs to user
+    const habit = await repositories.habits.findByIdForUser(habitId, req.user!.id);
+
+    if (!habit) {
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
+
+    const today = await getUserToday(req.user!.id);
+    const history = await getStreakHistory(habit, today);
+    const status = history.statuses.get(date);
+
+    if (status === 'frozen') {
+      return sendError(req, res, 400, 'DAY_ALREADY_FROZEN');
+    }
+
+    if (date >= today || status !== 'missed') {
+      return sendError(req, res, 400, 'FREEZE_NOT_MISSED');
+    }
+
+    // Replay the history with this freeze to check a token is available then
+    const freezeDates = new Set(history.options.freezeDates);
+    freezeDates.add(date);
+    const updated = buildStreakHistory(
+      normalizeSchedule(habit.schedule),
+      habit.start_date,
+      today,
+      history.completedDates,
+      { ...history.options, freezeDates }
+    );
+
+    if (updated.statuses.get(date) !== 'frozen') {
+      return sendError(req, res, 400, 'NO_FREEZES_AVAILABLE');
+    }
+
+    const data = await repositories.checkIns.createFreeze({
+      habit_id: habitId,
+      user_id: req.user!.id,
+      date
+    });
+
+    const { stats } = await refreshHabitStats(habit, today, date);
+
+    res.status(201).json({
+      ...data,
+      current_streak: stats.current_streak,
+      freeze_balance: stats.freeze_balance
+    });
+  } catch (error: any) {
+    console.error('Error freezing streak:', error);
+    sendError(req, res, 500, 'FREEZE_STREAK_FAILED');
   }
+});
 
-  return streak;
-}
+// Helper functions
 
-async function getLastSevenDays(habitId: string): Promise<boolean[]> {
-  const days: boolean[] = [];
-  const today = new Date();
-  
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(today.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-    
-    const { data } = await supabase
-      .from('check_ins')
-      .select('completed')
-      .eq('habit_id', habitId)
-      .eq('date', dateStr)
-      .single();
-
-    days.push(data?.completed || false);
+// Streak of the run containing a newly completed day, and the milestone it
+// crossed if any. A backfilled day can bridge two runs (5 + 1 + 3), so the
+// milestone is any threshold between the longer old run and the joined one.
+function getStreakAfterCheckIn(
+  habit: Habit,
+  date: string,
+  today: string,
+  history: HabitStreakHistory
+): { streak: number; milestone?: string } {
+  const { statuses } = history;
+
+  // The run extends forward until the first missed day (an unfinished today included)
+  let runEnd = date;
+  while (runEnd < today && statuses.get(addDays(runEnd, 1)) !== 'missed') {
+    runEnd = addDays(runEnd, 1);
   }
 
-  return days;
+  const streak = countCurrentStreak(statuses, runEnd, history.base);
+
+  const withoutDate = new Set(history.completedDates);
+  withoutDate.delete(date);
+  const { statuses: previousStatuses } = buildStreakHistory(
+    normalizeSchedule(habit.schedule),
+    habit.start_date,
+    today,
+    withoutDate,
+    history.options,
+    history.base
+  );
+  const before = countCurrentStreak(previousStatuses, addDays(date, -1), history.base);
+  const after = runEnd > date ? countCurrentStreak(previousStatuses, runEnd, history.base) : 0;
+
+  const crossed = MILESTONES.filter(m => m > Math.max(before, after) && m <= streak);
+  const milestone = crossed.length > 0 ? `${crossed[crossed.length - 1]}-day` : undefined;
+
+  return { streak, milestone };
 }
 
 export default router;
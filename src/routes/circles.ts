@@ -0,0 +1,354 @@
+import express from 'express';
+import { Circle, CircleMember, repositories } from '../repositories';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getRequestLocale, sendError } from '../middleware/errors';
+import { apiError, translateNotice } from '../i18n';
+import { moderateText } from '../moderation';
+import { getBlockedUserIds } from '../services/blockService';
+import {
+  generateInviteCode,
+  getCircleStatus,
+  isCircleMessageVisibleTo,
+  MAX_CIRCLE_MEMBERS,
+  MAX_CIRCLE_MESSAGE_LENGTH,
+  MAX_CIRCLES_PER_USER,
+  normalizeInviteCode,
+  notifyCircleMembers,
+  parseCircleName,
+  publishCircleMessage,
+  removeCircleMember
+} from '../services/circleService';
+import { createNotification } from '../services/notificationService';
+
+const router = express.Router();
+
+// Non-members get a 404 so circle IDs can't be probed
+async function findMembership(circleId: string, userId: string): Promise<{ circle: Circle; member: CircleMember } | null> {
+  const circle = await repositories.circles.findById(circleId);
+  if (!circle) return null;
+
+  const member = await repositories.circles.findMember(circleId, userId);
+  return member ? { circle, member } : null;
+}
+
+// GET /api/circles - Circles the user belongs to
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const circles = await repositories.circles.listForUser(req.user!.id);
+
+    const data = [];
+    for (const circle of circles) {
+      const members = await repositories.circles.listMembers(circle.id);
+      data.push({
+        ...circle,
+        role: members.find(m => m.user_id === req.user!.id)?.role,
+        member_count: members.length
+      });
+    }
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error fetching circles:', error);
+    sendError(req, res, 500, 'FETCH_CIRCLES_FAILED');
+  }
+});
+
+// POST /api/circles - Create a circle with the user as owner
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const name = parseCircleName(req.body.name);
+
+    if (name.error) {
+      return sendError(req, res, 400, name.error);
+    }
+
+    const existing = await repositories.circles.listForUser(req.user!.id);
+
+    if (existing.length >= MAX_CIRCLES_PER_USER) {
+      return sendError(req, res, 400, apiError('CIRCLE_LIMIT', { max: MAX_CIRCLES_PER_USER }));
+    }
+
+    const circle = await repositories.circles.create({
+      name: name.value!,
+      invite_code: generateInviteCode(),
+      created_by: req.user!.id
+    });
+
+    await repositories.circles.addMember({ circle_id: circle.id, user_id: req.user!.id, role: 'owner' });
+
+    res.status(201).json({ ...circle, role: 'owner', member_count: 1 });
+  } catch (error: any) {
+    console.error('Error creating circle:', error);
+    sendError(req, res, 500, 'CREATE_CIRCLE_FAILED');
+  }
+});
+
+// POST /api/circles/join - Join a circle with its invite code
+router.post('/join', async (req: AuthenticatedRequest, res) => {
+  try {
+    const inviteCode = normalizeInviteCode(req.body.invite_code);
+    const circle = inviteCode ? await repositories.circles.findByInviteCode(inviteCode) : null;
+
+    if (!circle) {
+      return sendError(req, res, 404, 'INVITE_CODE_INVALID');
+    }
+
+    if (await repositories.circles.findMember(circle.id, req.user!.id)) {
+      return sendError(req, res, 400, 'ALREADY_CIRCLE_MEMBER');
+    }
+
+    const existing = await repositories.circles.listForUser(req.user!.id);
+
+    if (existing.length >= MAX_CIRCLES_PER_USER) {
+      return sendError(req, res, 400, apiError('CIRCLE_LIMIT', { max: MAX_CIRCLES_PER_USER }));
+    }
+
+    const members = await repositories.circles.listMembers(circle.id);
+
+    if (members.length >= MAX_CIRCLE_MEMBERS) {
+      return sendError(req, res, 409, apiError('CIRCLE_FULL', { max: MAX_CIRCLE_MEMBERS }));
+    }
+
+    await repositories.circles.addMember({ circle_id: circle.id, user_id: req.user!.id, role: 'member' });
+
+    const profile = await repositories.profiles.findById(req.user!.id);
+    await notifyCircleMembers(
+      circle,
+      req.user!.id,
+      'circle-member',
+      `${profile?.display_name || 'Someone'} joined ${circle.name}!`
+    );
+
+    res.status(201).json({ ...circle, role: 'member', member_count: members.length + 1 });
+  } catch (error: any) {
+    console.error('Error joining circle:', error);
+    sendError(req, res, 500, 'JOIN_CIRCLE_FAILED');
+  }
+});
+
+// GET /api/circles/:id - Circle details with each member's status today
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    const members = await repositories.circles.listMembers(membership.circle.id);
+    const status = await getCircleStatus(members);
+
+    res.json({
+      ...membership.circle,
+      role: membership.member.role,
+      ...status
+    });
+  } catch (error: any) {
+    console.error('Error fetching circle:', error);
+    sendError(req, res, 500, 'FETCH_CIRCLE_FAILED');
+  }
+});
+
+// POST /api/circles/:id/invite-code - Replace the invite code (owners only)
+router.post('/:id/invite-code', async (req: AuthenticatedRequest, res) => {
+  try {
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    if (membership.member.role !== 'owner') {
+      return sendError(req, res, 403, 'CIRCLE_OWNER_REQUIRED');
+    }
+
+    const data = await repositories.circles.update(membership.circle.id, { invite_code: generateInviteCode() });
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error resetting invite code:', error);
+    sendError(req, res, 500, 'RESET_INVITE_CODE_FAILED');
+  }
+});
+
+// POST /api/circles/:id/leave - Leave a circle
+router.post('/:id/leave', async (req: AuthenticatedRequest, res) => {
+  try {
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    await removeCircleMember(membership.circle, membership.member);
+
+    res.json({ message: 'Left circle' });
+  } catch (error: any) {
+    console.error('Error leaving circle:', error);
+    sendError(req, res, 500, 'LEAVE_CIRCLE_FAILED');
+  }
+});
+
+// PUT /api/circles/:id/members/:userId - Change a member's role (owners only)
+router.put('/:id/members/:userId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { role } = req.body;
+
+    if (role !== 'owner' && role !== 'member') {
+      return sendError(req, res, 400, 'INVALID_CIRCLE_ROLE');
+    }
+
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    if (membership.member.role !== 'owner') {
+      return sendError(req, res, 403, 'CIRCLE_OWNER_REQUIRED');
+    }
+
+    const target = await repositories.circles.findMember(membership.circle.id, req.params.userId);
+
+    if (!target) {
+      return sendError(req, res, 404, 'CIRCLE_MEMBER_NOT_FOUND');
+    }
+
+    // A circle always keeps at least one owner
+    if (role === 'member' && target.role === 'owner') {
+      const members = await repositories.circles.listMembers(membership.circle.id);
+      if (members.filter(m => m.role === 'owner').length === 1) {
+        return sendError(req, res, 400, 'CIRCLE_LAST_OWNER');
+      }
+    }
+
+    const data = await repositories.circles.updateMember(target.id, { role });
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error updating circle member:', error);
+    sendError(req, res, 500, 'UPDATE_CIRCLE_MEMBER_FAILED');
+  }
+});
+
+// DELETE /api/circles/:id/members/:userId - Remove a member (owners only).
+// The invite code is replaced so they can't rejoin with it.
+router.delete('/:id/members/:userId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    if (membership.member.role !== 'owner') {
+      return sendError(req, res, 403, 'CIRCLE_OWNER_REQUIRED');
+    }
+
+    if (req.params.userId === req.user!.id) {
+      return sendError(req, res, 400, 'CIRCLE_REMOVE_SELF');
+    }
+
+    const target = await repositories.circles.findMember(membership.circle.id, req.params.userId);
+
+    if (!target) {
+      return sendError(req, res, 404, 'CIRCLE_MEMBER_NOT_FOUND');
+    }
+
+    await removeCircleMember(membership.circle, target);
+
+    // A new invite code keeps the removed member from rejoining with the old one
+    const circle = await repositories.circles.update(membership.circle.id, { invite_code: generateInviteCode() });
+
+    await createNotification({
+      user_id: target.user_id,
+      type: 'circle-member',
+      title: membership.circle.name,
+      message: `You were removed from ${membership.circle.name}.`
+    });
+
+    res.json({ message: 'Member removed', invite_code: circle.invite_code });
+  } catch (error: any) {
+    console.error('Error removing circle member:', error);
+    sendError(req, res, 500, 'REMOVE_CIRCLE_MEMBER_FAILED');
+  }
+});
+
+// GET /api/circles/:id/messages - Group message feed, newest first. Messages
+// from users on either side of a block with the user are left out.
+router.get('/:id/messages', async (req: AuthenticatedRequest, res) => {
+  try {
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const blocked = await getBlockedUserIds(req.user!.id);
+    const messages = (await repositories.circles.listMessages(membership.circle.id, limit))
+      .filter(message => isCircleMessageVisibleTo(message, req.user!.id) && !blocked.has(message.user_id));
+    const profiles = await repositories.profiles.findByIds(Array.from(new Set(messages.map(m => m.user_id))));
+
+    res.json(messages.map(message => ({
+      ...message,
+      user: { display_name: profiles.find(p => p.id === message.user_id)?.display_name }
+    })));
+  } catch (error: any) {
+    console.error('Error fetching circle messages:', error);
+    sendError(req, res, 500, 'FETCH_MESSAGES_FAILED');
+  }
+});
+
+// POST /api/circles/:id/messages - Post to the group feed
+router.post('/:id/messages', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { message_text } = req.body;
+
+    if (typeof message_text !== 'string' || !message_text.trim()) {
+      return sendError(req, res, 400, 'MESSAGE_REQUIRED');
+    }
+
+    if (message_text.length > MAX_CIRCLE_MESSAGE_LENGTH) {
+      return sendError(req, res, 400, apiError('MESSAGE_TOO_LONG', { max: MAX_CIRCLE_MESSAGE_LENGTH }));
+    }
+
+    const membership = await findMembership(req.params.id, req.user!.id);
+
+    if (!membership) {
+      return sendError(req, res, 404, 'CIRCLE_NOT_FOUND');
+    }
+
+    const moderation = await moderateText(message_text, 'message');
+
+    if (moderation.action === 'block') {
+      return sendError(req, res, 422, 'MESSAGE_BLOCKED', { categories: moderation.categories });
+    }
+
+    const data = await repositories.circles.createMessage({
+      circle_id: membership.circle.id,
+      user_id: req.user!.id,
+      message_text,
+      moderation_status: moderation.action === 'flag' ? 'pending' : 'approved',
+      moderation_categories: moderation.categories.length > 0 ? moderation.categories : null
+    });
+
+    // Flagged messages reach the circle once a moderator approves them
+    if (moderation.action === 'flag') {
+      return res.status(202).json({
+        ...data,
+        code: 'MESSAGE_HELD_FOR_REVIEW',
+        notice: translateNotice(await getRequestLocale(req), 'MESSAGE_HELD_FOR_REVIEW')
+      });
+    }
+
+    await publishCircleMessage(data);
+
+    res.status(201).json(data);
+  } catch (error: any) {
+    console.error('Error sending circle message:', error);
+    sendError(req, res, 500, 'SEND_MESSAGE_FAILED');
+  }
+});
+
+export default router;
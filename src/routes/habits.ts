@@ -1,150 +1,185 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { apiError } from '../i18n';
+import { getUserToday, isValidDate } from '../services/dateService';
+import {
+  applyTargetChange,
+  createHabit,
+  isValidHabitName,
+  MAX_HABIT_NAME_LENGTH,
+  parseNewHabit,
+  PRIVACY_SETTINGS
+} from '../services/habitService';
+import { isValidGraceDays, MAX_GRACE_DAYS, parseSchedule } from '../services/scheduleService';
+import { refreshHabitStats } from '../services/streakService';
+import { parseTarget } from '../services/targetService';
 
 const router = express.Router();
 
 // POST /api/habits - Create new habit
 router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { habit_name, category, start_date, privacy_setting } = req.body;
-
-    if (!habit_name || !category) {
-      return res.status(400).json({ error: 'Habit name and category are required' });
-    }
-
-    if (habit_name.length > 100) {
-      return res.status(400).json({ error: 'Habit name must be 100 characters or less' });
+    const parsed = parseNewHabit(req.body);
+    if (parsed.error) {
+      return sendError(req, res, 400, parsed.error);
     }
 
-    const validCategories = ['Health', 'Learning', 'Creativity', 'Productivity', 'Wellness'];
-    if (!validCategories.includes(category)) {
-      return res.status(400).json({ error: 'Invalid category' });
-    }
-
-    // Check if user already has an active habit
-    const { data: existingHabit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('user_id', req.user!.id)
-      .eq('is_active', true)
-      .single();
+    const today = await getUserToday(req.user!.id);
+    const { habit, error } = await createHabit(req.user!.id, parsed.habit!, today);
 
-    if (existingHabit) {
-      return res.status(400).json({ error: 'You already have an active habit. Please archive it first.' });
+    if (error) {
+      return sendError(req, res, 400, error);
     }
 
-    const { data, error } = await supabase
-      .from('habits')
-      .insert({
-        user_id: req.user!.id,
-        habit_name,
-        category,
-        start_date: start_date || new Date().toISOString().split('T')[0],
-        privacy_setting: privacy_setting || 'partner-only',
-        is_active: true
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    res.status(201).json(data);
+    res.status(201).json(habit);
   } catch (error: any) {
     console.error('Error creating habit:', error);
-    res.status(500).json({ error: 'Failed to create habit' });
+    sendError(req, res, 500, 'CREATE_HABIT_FAILED');
   }
 });
 
-// GET /api/habits - Get user's active habit
+// GET /api/habits - Get user's active habits
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { data, error } = await supabase
-      .from('habits')
-      .select('*')
-      .eq('user_id', req.user!.id)
-      .eq('is_active', true)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: 'No active habit found' });
-      }
-      throw error;
-    }
+    const data = await repositories.habits.listActive(req.user!.id);
 
     res.json(data);
   } catch (error: any) {
-    console.error('Error fetching habit:', error);
-    res.status(500).json({ error: 'Failed to fetch habit' });
+    console.error('Error fetching habits:', error);
+    sendError(req, res, 500, 'FETCH_HABITS_FAILED');
   }
 });
 
 // GET /api/habits/archived - Get archived habits
 router.get('/archived', async (req: AuthenticatedRequest, res) => {
   try {
-    const { data, error } = await supabase
-      .from('habits')
-      .select('*')
-      .eq('user_id', req.user!.id)
-      .eq('is_active', false)
-      .order('archived_at', { ascending: false });
-
-    if (error) throw error;
+    const data = await repositories.habits.listArchived(req.user!.id);
 
-    res.json(data || []);
+    res.json(data);
   } catch (error: any) {
     console.error('Error fetching archived habits:', error);
-    res.status(500).json({ error: 'Failed to fetch archived habits' });
+    sendError(req, res, 500, 'FETCH_ARCHIVED_HABITS_FAILED');
   }
 });
 
-// PUT /api/habits/:id - Update habit
+// PUT /api/habits/order - Reorder active habits
+router.put('/order', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { habit_ids } = req.body;
+
+    if (!Array.isArray(habit_ids) || habit_ids.length === 0) {
+      return sendError(req, res, 400, 'HABIT_IDS_REQUIRED');
+    }
+
+    // Verify the list matches the user's active habits exactly
+    const activeHabits = await repositories.habits.listActive(req.user!.id);
+
+    const activeIds = new Set(activeHabits.map(h => h.id));
+    if (habit_ids.length !== activeIds.size ||
+        new Set(habit_ids).size !== activeIds.size ||
+        !habit_ids.every((id: string) => activeIds.has(id))) {
+      return sendError(req, res, 400, 'HABIT_ORDER_MISMATCH');
+    }
+
+    for (let i = 0; i < habit_ids.length; i++) {
+      await repositories.habits.update(habit_ids[i], { sort_order: i });
+    }
+
+    const data = await repositories.habits.listActive(req.user!.id);
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error reordering habits:', error);
+    sendError(req, res, 500, 'REORDER_HABITS_FAILED');
+  }
+});
+
+// PUT /api/habits/:id - Update habit. A new target applies from today on;
+// days already logged keep their completion.
 router.put('/:id', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { habit_name, privacy_setting } = req.body;
+    const {
+      habit_name,
+      privacy_setting,
+      schedule,
+      target_value,
+      unit,
+      aggregation,
+      grace_days,
+      auto_freeze
+    } = req.body;
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
     const updateData: any = {};
     if (habit_name !== undefined) {
-      if (habit_name.length > 100) {
-        return res.status(400).json({ error: 'Habit name must be 100 characters or less' });
+      if (!isValidHabitName(habit_name)) {
+        return sendError(req, res, 400, apiError('HABIT_NAME_TOO_LONG', { max: MAX_HABIT_NAME_LENGTH }));
       }
       updateData.habit_name = habit_name;
     }
     if (privacy_setting !== undefined) {
-      const validSettings = ['public', 'partner-only', 'private'];
-      if (!validSettings.includes(privacy_setting)) {
-        return res.status(400).json({ error: 'Invalid privacy setting' });
+      if (!PRIVACY_SETTINGS.includes(privacy_setting)) {
+        return sendError(req, res, 400, 'INVALID_PRIVACY_SETTING');
       }
       updateData.privacy_setting = privacy_setting;
     }
+    if (schedule !== undefined) {
+      const parsed = parseSchedule(schedule);
+      if (parsed.error) {
+        return sendError(req, res, 400, parsed.error);
+      }
+      updateData.schedule = parsed.schedule;
+    }
+    if (grace_days !== undefined) {
+      if (!isValidGraceDays(grace_days)) {
+        return sendError(req, res, 400, apiError('INVALID_GRACE_DAYS', { max: MAX_GRACE_DAYS }));
+      }
+      updateData.grace_days = grace_days;
+    }
+    if (auto_freeze !== undefined) {
+      if (typeof auto_freeze !== 'boolean') {
+        return sendError(req, res, 400, 'INVALID_AUTO_FREEZE');
+      }
+      updateData.auto_freeze = auto_freeze;
+    }
+    const targetChanged = target_value !== undefined || unit !== undefined || aggregation !== undefined;
+    if (targetChanged) {
+      const currentTarget = {
+        target_value: habit.target_value,
+        unit: habit.unit,
+        aggregation: habit.aggregation
+      };
 
-    const { data, error } = await supabase
-      .from('habits')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+      const parsed = parseTarget({ ...currentTarget, ...req.body });
+      if (parsed.error) {
+        return sendError(req, res, 400, parsed.error);
+      }
+      Object.assign(updateData, parsed.target);
+    }
+
+    const data = await repositories.habits.update(id, updateData);
 
-    if (error) throw error;
+    if (schedule !== undefined || auto_freeze !== undefined || targetChanged) {
+      const today = await getUserToday(req.user!.id);
+      if (targetChanged) {
+        await applyTargetChange(data, today);
+      }
+      await refreshHabitStats(data, today);
+    }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error updating habit:', error);
-    res.status(500).json({ error: 'Failed to update habit' });
+    sendError(req, res, 500, 'UPDATE_HABIT_FAILED');
   }
 });
 
@@ -154,33 +189,118 @@ router.post('/:id/archive', async (req: AuthenticatedRequest, res) => {
     const { id } = req.params;
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('habits')
-      .update({
-        is_active: false,
-        archived_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.habits.update(id, {
+      is_active: false,
+      archived_at: new Date().toISOString()
+    });
 
     res.json(data);
   } catch (error: any) {
     console.error('Error archiving habit:', error);
-    res.status(500).json({ error: 'Failed to archive habit' });
+    sendError(req, res, 500, 'ARCHIVE_HABIT_FAILED');
+  }
+});
+
+// GET /api/habits/:id/rest-days - Get declared rest days
+router.get('/:id/rest-days', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    // Verify habit belongs to user
+    const habit = await repositories.habits.findByIdForUser(id, req.user!.id);
+
+    if (!habit) {
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
+
+    const data = await repositories.checkIns.listRestDays(id);
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error fetching rest days:', error);
+    sendError(req, res, 500, 'FETCH_REST_DAYS_FAILED');
+  }
+});
+
+// POST /api/habits/:id/rest-days - Declare a planned rest day
+router.post('/:id/rest-days', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { date } = req.body;
+
+    if (!isValidDate(date)) {
+      return sendError(req, res, 400, 'INVALID_DATE');
+    }
+
+    // Verify habit belongs to user
+    const habit = await repositories.habits.findByIdForUser(id, req.user!.id);
+
+    if (!habit) {
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
+    }
+
+    // Rest days must be planned ahead, not used to cover a past miss
+    const today = await getUserToday(req.user!.id);
+    if (date < today) {
+      return sendError(req, res, 400, 'REST_DAY_IN_PAST');
+    }
+
+    const existing = await repositories.checkIns.findRestDay(id, date);
+
+    if (existing) {
+      return sendError(req, res, 400, 'REST_DAY_EXISTS');
+    }
+
+    const data = await repositories.checkIns.createRestDay({
+      habit_id: id,
+      user_id: req.user!.id,
+      date
+    });
+
+    await refreshHabitStats(habit, today, date);
+
+    res.status(201).json(data);
+  } catch (error: any) {
+    console.error('Error declaring rest day:', error);
+    sendError(req, res, 500, 'DECLARE_REST_DAY_FAILED');
+  }
+});
+
+// DELETE /api/habits/:id/rest-days/:date - Cancel a planned rest day
+router.delete('/:id/rest-days/:date', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, date } = req.params;
+
+    if (!isValidDate(date)) {
+      return sendError(req, res, 400, 'INVALID_DATE');
+    }
+
+    const today = await getUserToday(req.user!.id);
+    if (date < today) {
+      return sendError(req, res, 400, 'PAST_REST_DAY');
+    }
+
+    const data = await repositories.checkIns.deleteRestDay(id, req.user!.id, date);
+
+    if (!data) {
+      return sendError(req, res, 404, 'REST_DAY_NOT_FOUND');
+    }
+
+    const habit = await repositories.habits.findById(id);
+    if (habit) {
+      await refreshHabitStats(habit, today, date);
+    }
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error removing rest day:', error);
+    sendError(req, res, 500, 'REMOVE_REST_DAY_FAILED');
   }
 });
 
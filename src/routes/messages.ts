@@ -1,6 +1,11 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { getRequestLocale, sendError } from '../middleware/errors';
+import { apiError, translateNotice } from '../i18n';
+import { moderateText } from '../moderation';
+import { isVisibleTo, notifyMessageReceived } from '../services/messageService';
+import { publishEvent } from '../services/realtimeService';
 
 const router = express.Router();
 
@@ -10,35 +15,27 @@ router.get('/:partnershipId', async (req: AuthenticatedRequest, res) => {
     const { partnershipId } = req.params;
 
     // Verify user is part of this partnership
-    const { data: partnership } = await supabase
-      .from('partnerships')
-      .select('requester_id, receiver_id')
-      .eq('id', partnershipId)
-      .eq('status', 'accepted')
-      .single();
-
-    if (!partnership || 
+    const partnership = await repositories.partnerships.findById(partnershipId);
+
+    if (!partnership || partnership.status !== 'accepted' ||
         (partnership.requester_id !== req.user!.id && partnership.receiver_id !== req.user!.id)) {
-      return res.status(403).json({ error: 'Not authorized to view these messages' });
+      return sendError(req, res, 403, 'MESSAGES_VIEW_FORBIDDEN');
     }
 
-    const { data, error } = await supabase
-      .from('messages')
-      .select(`
-        *,
-        from_user:users_profiles!messages_from_user_id_fkey(display_name),
-        to_user:users_profiles!messages_to_user_id_fkey(display_name)
-      `)
-      .eq('partnership_id', partnershipId)
-      .order('created_at', { ascending: false })
-      .limit(50);
-
-    if (error) throw error;
+    const messages = await repositories.messages.listForPartnership(partnershipId, 50);
+    const profiles = await repositories.profiles.findByIds([partnership.requester_id, partnership.receiver_id]);
+    const displayName = (userId: string) => ({
+      display_name: profiles.find(p => p.id === userId)?.display_name
+    });
 
-    res.json(data || []);
+    res.json(messages.filter(message => isVisibleTo(message, req.user!.id)).map(message => ({
+      ...message,
+      from_user: displayName(message.from_user_id),
+      to_user: displayName(message.to_user_id)
+    })));
   } catch (error: any) {
     console.error('Error fetching messages:', error);
-    res.status(500).json({ error: 'Failed to fetch messages' });
+    sendError(req, res, 500, 'FETCH_MESSAGES_FAILED');
   }
 });
 
@@ -47,62 +44,56 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
     const { partnership_id, message_text } = req.body;
 
-    if (!partnership_id || !message_text) {
-      return res.status(400).json({ error: 'Partnership ID and message text are required' });
+    if (!partnership_id || typeof message_text !== 'string' || !message_text) {
+      return sendError(req, res, 400, 'MESSAGE_FIELDS_REQUIRED');
     }
 
     if (message_text.length > 200) {
-      return res.status(400).json({ error: 'Message must be 200 characters or less' });
+      return sendError(req, res, 400, apiError('MESSAGE_TOO_LONG', { max: 200 }));
     }
 
     // Verify user is part of this partnership
-    const { data: partnership } = await supabase
-      .from('partnerships')
-      .select('requester_id, receiver_id')
-      .eq('id', partnership_id)
-      .eq('status', 'accepted')
-      .single();
-
-    if (!partnership || 
+    const partnership = await repositories.partnerships.findById(partnership_id);
+
+    if (!partnership || partnership.status !== 'accepted' ||
         (partnership.requester_id !== req.user!.id && partnership.receiver_id !== req.user!.id)) {
-      return res.status(403).json({ error: 'Not authorized to send messages in this partnership' });
+      return sendError(req, res, 403, 'MESSAGES_SEND_FORBIDDEN');
     }
 
     const toUserId = partnership.requester_id === req.user!.id 
       ? partnership.receiver_id 
       : partnership.requester_id;
 
-    const { data, error } = await supabase
-      .from('messages')
-      .insert({
-        from_user_id: req.user!.id,
-        to_user_id: toUserId,
-        partnership_id,
-        message_text
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Create notification for receiver
-    const { data: senderProfile } = await supabase
-      .from('users_profiles')
-      .select('display_name')
-      .eq('id', req.user!.id)
-      .single();
-
-    await supabase.from('notifications').insert({
-      user_id: toUserId,
-      type: 'encouragement',
-      title: 'New Encouragement',
-      message: `${senderProfile?.display_name || 'Your partner'} sent you encouragement!`
+    const moderation = await moderateText(message_text, 'message');
+
+    if (moderation.action === 'block') {
+      return sendError(req, res, 422, 'MESSAGE_BLOCKED', { categories: moderation.categories });
+    }
+
+    const data = await repositories.messages.create({
+      from_user_id: req.user!.id,
+      to_user_id: toUserId,
+      partnership_id,
+      message_text,
+      moderation_status: moderation.action === 'flag' ? 'pending' : 'approved',
+      moderation_categories: moderation.categories.length > 0 ? moderation.categories : null
     });
 
+    // Flagged messages reach the receiver once a moderator approves them
+    if (moderation.action === 'flag') {
+      return res.status(202).json({
+        ...data,
+        code: 'MESSAGE_HELD_FOR_REVIEW',
+        notice: translateNotice(await getRequestLocale(req), 'MESSAGE_HELD_FOR_REVIEW')
+      });
+    }
+
+    await notifyMessageReceived(data);
+
     res.status(201).json(data);
   } catch (error: any) {
     console.error('Error sending message:', error);
-    res.status(500).json({ error: 'Failed to send message' });
+    sendError(req, res, 500, 'SEND_MESSAGE_FAILED');
   }
 });
 
@@ -112,30 +103,27 @@ router.put('/:id/read', async (req: AuthenticatedRequest, res) => {
     const { id } = req.params;
 
     // Verify message belongs to user
-    const { data: message } = await supabase
-      .from('messages')
-      .select('to_user_id')
-      .eq('id', id)
-      .eq('to_user_id', req.user!.id)
-      .single();
-
-    if (!message) {
-      return res.status(404).json({ error: 'Message not found' });
+    const message = await repositories.messages.findById(id);
+
+    if (!message || message.to_user_id !== req.user!.id || !isVisibleTo(message, req.user!.id)) {
+      return sendError(req, res, 404, 'MESSAGE_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('messages')
-      .update({ is_read: true })
-      .eq('id', id)
-      .select()
-      .single();
+    const data = await repositories.messages.update(id, { is_read: true });
 
-    if (error) throw error;
+    // Read receipt for the sender
+    if (!message.is_read) {
+      await publishEvent(message.from_user_id, 'message-read', {
+        message_id: message.id,
+        partnership_id: message.partnership_id,
+        read_at: new Date().toISOString()
+      });
+    }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error marking message as read:', error);
-    res.status(500).json({ error: 'Failed to mark message as read' });
+    sendError(req, res, 500, 'MARK_MESSAGE_READ_FAILED');
   }
 });
 
@@ -0,0 +1,169 @@
+import express from 'express';
+import { ReportStatus, repositories } from '../repositories';
+import { AuthenticatedRequest, isAdmin } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { publishCircleMessage } from '../services/circleService';
+import { canDeliverHeldMessage, notifyMessageReceived } from '../services/messageService';
+
+const router = express.Router();
+
+// Every moderation route is admin only
+router.use((req: AuthenticatedRequest, res, next) => {
+  if (!isAdmin(req.user!.id)) {
+    return sendError(req, res, 403, 'ADMIN_REQUIRED');
+  }
+  next();
+});
+
+// GET /api/moderation/messages - Messages held for review, oldest first.
+// Pass status=rejected to see rejected ones.
+router.get('/messages', async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = req.query.status === 'rejected' ? 'rejected' : 'pending';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const messages = await repositories.messages.listByModerationStatus(status, limit);
+
+    res.json({ status, messages });
+  } catch (error: any) {
+    console.error('Error fetching moderation queue:', error);
+    sendError(req, res, 500, 'FETCH_MODERATION_QUEUE_FAILED');
+  }
+});
+
+// POST /api/moderation/messages/:id/approve - Deliver a held message. It's
+// rejected instead if the partnership ended or either user blocked the other
+// while it was held.
+// POST /api/moderation/messages/:id/reject - Keep it from the receiver
+router.post(['/messages/:id/approve', '/messages/:id/reject'], async (req: AuthenticatedRequest, res) => {
+  try {
+    const message = await repositories.messages.findById(req.params.id);
+
+    if (!message || message.moderation_status !== 'pending') {
+      return sendError(req, res, 404, 'HELD_MESSAGE_NOT_FOUND');
+    }
+
+    const approve = req.path.endsWith('/approve') && await canDeliverHeldMessage(message);
+
+    const data = await repositories.messages.update(message.id, {
+      moderation_status: approve ? 'approved' : 'rejected',
+      reviewed_by: req.user!.id,
+      reviewed_at: new Date().toISOString()
+    });
+
+    if (approve) {
+      await notifyMessageReceived(data);
+    }
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error reviewing message:', error);
+    sendError(req, res, 500, 'REVIEW_MESSAGE_FAILED');
+  }
+});
+
+// GET /api/moderation/circle-messages - Circle messages held for review
+router.get('/circle-messages', async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = req.query.status === 'rejected' ? 'rejected' : 'pending';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const messages = await repositories.circles.listMessagesByModerationStatus(status, limit);
+
+    res.json({ status, messages });
+  } catch (error: any) {
+    console.error('Error fetching moderation queue:', error);
+    sendError(req, res, 500, 'FETCH_MODERATION_QUEUE_FAILED');
+  }
+});
+
+// POST /api/moderation/circle-messages/:id/approve - Post a held message to its circle
+// POST /api/moderation/circle-messages/:id/reject - Keep it from the circle
+router.post(['/circle-messages/:id/approve', '/circle-messages/:id/reject'], async (req: AuthenticatedRequest, res) => {
+  try {
+    const approve = req.path.endsWith('/approve');
+    const message = await repositories.circles.findMessage(req.params.id);
+
+    if (!message || message.moderation_status !== 'pending') {
+      return sendError(req, res, 404, 'HELD_MESSAGE_NOT_FOUND');
+    }
+
+    const data = await repositories.circles.updateMessage(message.id, {
+      moderation_status: approve ? 'approved' : 'rejected',
+      reviewed_by: req.user!.id,
+      reviewed_at: new Date().toISOString()
+    });
+
+    if (approve) {
+      await publishCircleMessage(data);
+    }
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error reviewing circle message:', error);
+    sendError(req, res, 500, 'REVIEW_MESSAGE_FAILED');
+  }
+});
+
+// GET /api/moderation/reports - Open user reports, oldest first, with the
+// reported message when there is one. Pass status=resolved or
+// status=dismissed to see reviewed ones.
+router.get('/reports', async (req: AuthenticatedRequest, res) => {
+  try {
+    const status: ReportStatus = req.query.status === 'resolved' || req.query.status === 'dismissed'
+      ? req.query.status
+      : 'open';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const reports = await repositories.reports.listByStatus(status, limit);
+    const profiles = await repositories.profiles.findByIds(
+      Array.from(new Set(reports.flatMap(r => [r.reporter_id, r.reported_user_id])))
+    );
+    const displayName = (userId: string) => ({
+      display_name: profiles.find(p => p.id === userId)?.display_name
+    });
+
+    const data = [];
+    for (const report of reports) {
+      data.push({
+        ...report,
+        reporter: displayName(report.reporter_id),
+        reported_user: displayName(report.reported_user_id),
+        message: report.message_id ? await repositories.messages.findById(report.message_id) : null
+      });
+    }
+
+    res.json({ status, reports: data });
+  } catch (error: any) {
+    console.error('Error fetching reports:', error);
+    sendError(req, res, 500, 'FETCH_REPORTS_FAILED');
+  }
+});
+
+// POST /api/moderation/reports/:id/resolve - Close a report that was acted on
+// POST /api/moderation/reports/:id/dismiss - Close a report without action
+router.post(['/reports/:id/resolve', '/reports/:id/dismiss'], async (req: AuthenticatedRequest, res) => {
+  try {
+    const resolve = req.path.endsWith('/resolve');
+    const { note } = req.body;
+    const report = await repositories.reports.findById(req.params.id);
+
+    if (!report || report.status !== 'open') {
+      return sendError(req, res, 404, 'REPORT_NOT_FOUND');
+    }
+
+    const data = await repositories.reports.update(report.id, {
+      status: resolve ? 'resolved' : 'dismissed',
+      resolution_note: typeof note === 'string' && note.trim() ? note.trim() : null,
+      reviewed_by: req.user!.id,
+      reviewed_at: new Date().toISOString()
+    });
+
+    res.json(data);
+  } catch (error: any) {
+    console.error('Error reviewing report:', error);
+    sendError(req, res, 500, 'REVIEW_REPORT_FAILED');
+  }
+});
+
+export default router;
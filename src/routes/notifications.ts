@@ -1,6 +1,7 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
 
 const router = express.Router();
 
@@ -9,23 +10,12 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
     const { unread_only } = req.query;
 
-    let query = supabase
-      .from('notifications')
-      .select('*')
-      .eq('user_id', req.user!.id);
+    const data = await repositories.notifications.listForUser(req.user!.id, unread_only === 'true', 50);
 
-    if (unread_only === 'true') {
-      query = query.eq('is_read', false);
-    }
-
-    const { data, error } = await query.order('created_at', { ascending: false }).limit(50);
-
-    if (error) throw error;
-
-    res.json(data || []);
+    res.json(data);
   } catch (error: any) {
     console.error('Error fetching notifications:', error);
-    res.status(500).json({ error: 'Failed to fetch notifications' });
+    sendError(req, res, 500, 'FETCH_NOTIFICATIONS_FAILED');
   }
 });
 
@@ -34,43 +24,28 @@ router.put('/:id/read', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
 
-    const { data, error } = await supabase
-      .from('notifications')
-      .update({ is_read: true })
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .select()
-      .single();
+    const data = await repositories.notifications.markRead(id, req.user!.id);
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: 'Notification not found' });
-      }
-      throw error;
+    if (!data) {
+      return sendError(req, res, 404, 'NOTIFICATION_NOT_FOUND');
     }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error marking notification as read:', error);
-    res.status(500).json({ error: 'Failed to mark notification as read' });
+    sendError(req, res, 500, 'MARK_NOTIFICATION_READ_FAILED');
   }
 });
 
 // PUT /api/notifications/read-all - Mark all notifications as read
 router.put('/read-all', async (req: AuthenticatedRequest, res) => {
   try {
-    const { error } = await supabase
-      .from('notifications')
-      .update({ is_read: true })
-      .eq('user_id', req.user!.id)
-      .eq('is_read', false);
-
-    if (error) throw error;
+    await repositories.notifications.markAllRead(req.user!.id);
 
     res.json({ message: 'All notifications marked as read' });
   } catch (error: any) {
     console.error('Error marking all notifications as read:', error);
-    res.status(500).json({ error: 'Failed to mark all notifications as read' });
+    sendError(req, res, 500, 'MARK_ALL_NOTIFICATIONS_READ_FAILED');
   }
 });
 
@@ -1,62 +1,34 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { getRequestLocale, sendError } from '../middleware/errors';
+import { apiError } from '../i18n';
+import { isBlockedBetween } from '../services/blockService';
+import { getLocalDateTime, getUserToday } from '../services/dateService';
+import { DEFAULT_MATCH_PAGE_SIZE, findPartnerMatches, MAX_MATCH_PAGE_SIZE } from '../services/matchingService';
+import { createNotification } from '../services/notificationService';
+import { isInQuietHours } from '../services/nudgeService';
 
 const router = express.Router();
 
-// GET /api/partners/browse - Browse potential partners
+// GET /api/partnerships/browse - Potential partners, best matches first
 router.get('/browse', async (req: AuthenticatedRequest, res) => {
   try {
     const { category } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_MATCH_PAGE_SIZE, 1), MAX_MATCH_PAGE_SIZE);
+
+    const data = await findPartnerMatches(req.user!.id, {
+      category: typeof category === 'string' && category ? category : undefined,
+      page,
+      limit,
+      locale: await getRequestLocale(req)
+    });
 
-    // Get users with active habits in the specified category (if provided)
-    let query = supabase
-      .from('habits')
-      .select(`
-        id,
-        habit_name,
-        category,
-        privacy_setting,
-        user_id,
-        users_profiles!inner(display_name)
-      `)
-      .eq('is_active', true)
-      .neq('user_id', req.user!.id)
-      .in('privacy_setting', ['public', 'partner-only']);
-
-    if (category) {
-      query = query.eq('category', category);
-    }
-
-    const { data: habits, error } = await query;
-
-    if (error) throw error;
-
-    // Filter out users who already have active partnerships
-    const { data: existingPartnerships } = await supabase
-      .from('partnerships')
-      .select('requester_id, receiver_id')
-      .or(`requester_id.eq.${req.user!.id},receiver_id.eq.${req.user!.id}`)
-      .eq('status', 'accepted');
-
-    const partneredUserIds = new Set(
-      existingPartnerships?.flatMap(p => [p.requester_id, p.receiver_id]) || []
-    );
-
-    const availablePartners = habits
-      ?.filter(h => !partneredUserIds.has(h.user_id))
-      .map(h => ({
-        user_id: h.user_id,
-        display_name: (h.users_profiles as any)?.display_name || 'Unknown',
-        habit_name: h.habit_name,
-        category: h.category,
-        privacy_setting: h.privacy_setting
-      })) || [];
-
-    res.json(availablePartners);
+    res.json(data);
   } catch (error: any) {
     console.error('Error browsing partners:', error);
-    res.status(500).json({ error: 'Failed to browse partners' });
+    sendError(req, res, 500, 'BROWSE_PARTNERS_FAILED');
   }
 });
 
@@ -66,59 +38,43 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     const { receiver_id, request_message } = req.body;
 
     if (!receiver_id) {
-      return res.status(400).json({ error: 'Receiver ID is required' });
+      return sendError(req, res, 400, 'RECEIVER_ID_REQUIRED');
     }
 
     if (receiver_id === req.user!.id) {
-      return res.status(400).json({ error: 'Cannot request partnership with yourself' });
+      return sendError(req, res, 400, 'SELF_PARTNERSHIP');
+    }
+
+    // Same answer whichever of the two did the blocking
+    if (await isBlockedBetween(req.user!.id, receiver_id)) {
+      return sendError(req, res, 403, 'PARTNERSHIP_REQUEST_BLOCKED');
     }
 
     // Check if user already has an active partnership
-    const { data: existingPartnership } = await supabase
-      .from('partnerships')
-      .select('id')
-      .or(`requester_id.eq.${req.user!.id},receiver_id.eq.${req.user!.id}`)
-      .eq('status', 'accepted')
-      .single();
+    const existingPartnership = await repositories.partnerships.findAcceptedForUser(req.user!.id);
 
     if (existingPartnership) {
-      return res.status(400).json({ error: 'You already have an active partnership' });
+      return sendError(req, res, 400, 'ACTIVE_PARTNERSHIP_EXISTS');
     }
 
     // Check if request already exists
-    const { data: existingRequest } = await supabase
-      .from('partnerships')
-      .select('id')
-      .eq('requester_id', req.user!.id)
-      .eq('receiver_id', receiver_id)
-      .eq('status', 'pending')
-      .single();
+    const existingRequest = await repositories.partnerships.findPending(req.user!.id, receiver_id);
 
     if (existingRequest) {
-      return res.status(400).json({ error: 'Partnership request already sent' });
+      return sendError(req, res, 400, 'PARTNERSHIP_REQUEST_EXISTS');
     }
 
-    const { data, error } = await supabase
-      .from('partnerships')
-      .insert({
-        requester_id: req.user!.id,
-        receiver_id,
-        request_message: request_message || null,
-        status: 'pending'
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.partnerships.create({
+      requester_id: req.user!.id,
+      receiver_id,
+      request_message: request_message || null,
+      status: 'pending'
+    });
 
     // Create notification for receiver
-    const { data: requesterProfile } = await supabase
-      .from('users_profiles')
-      .select('display_name')
-      .eq('id', req.user!.id)
-      .single();
+    const requesterProfile = await repositories.profiles.findById(req.user!.id);
 
-    await supabase.from('notifications').insert({
+    await createNotification({
       user_id: receiver_id,
       type: 'partner-request',
       title: 'New Partnership Request',
@@ -128,64 +84,63 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     res.status(201).json(data);
   } catch (error: any) {
     console.error('Error creating partnership request:', error);
-    res.status(500).json({ error: 'Failed to create partnership request' });
+    sendError(req, res, 500, 'CREATE_PARTNERSHIP_REQUEST_FAILED');
   }
 });
 
 // GET /api/partnerships/current - Get current partner info
 router.get('/current', async (req: AuthenticatedRequest, res) => {
   try {
-    const { data, error } = await supabase
-      .from('partnerships')
-      .select(`
-        *,
-        requester:users_profiles!partnerships_requester_id_fkey(display_name),
-        receiver:users_profiles!partnerships_receiver_id_fkey(display_name)
-      `)
-      .or(`requester_id.eq.${req.user!.id},receiver_id.eq.${req.user!.id}`)
-      .eq('status', 'accepted')
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: 'No active partnership found' });
-      }
-      throw error;
+    const partnership = await repositories.partnerships.findAcceptedForUser(req.user!.id);
+
+    if (!partnership) {
+      return sendError(req, res, 404, 'NO_ACTIVE_PARTNERSHIP');
     }
 
+    const profiles = await repositories.profiles.findByIds([partnership.requester_id, partnership.receiver_id]);
+    const displayName = (userId: string) => ({
+      display_name: profiles.find(p => p.id === userId)?.display_name
+    });
+    const data = {
+      ...partnership,
+      requester: displayName(partnership.requester_id),
+      receiver: displayName(partnership.receiver_id)
+    };
+
     // Get partner's user ID and profile
     const partnerId = data.requester_id === req.user!.id ? data.receiver_id : data.requester_id;
     const partnerProfile = data.requester_id === req.user!.id ? data.receiver : data.requester;
 
-    // Get partner's active habit
-    const { data: partnerHabit } = await supabase
-      .from('habits')
-      .select('habit_name, category, privacy_setting')
-      .eq('user_id', partnerId)
-      .eq('is_active', true)
-      .single();
-
-    // Get partner's today's check-in
-    const today = new Date().toISOString().split('T')[0];
-    const { data: todayCheckIn } = await supabase
-      .from('check_ins')
-      .select('completed, check_in_time')
-      .eq('user_id', partnerId)
-      .eq('date', today)
-      .single();
+    // Get partner's active habits that are visible to partners
+    const partnerHabits = (await repositories.habits.listActive(partnerId))
+      .filter(h => ['public', 'partner-only'].includes(h.privacy_setting));
+
+    // Get partner's today's check-ins (in the partner's own timezone)
+    const today = await getUserToday(partnerId);
+    const todayCheckIns = await repositories.checkIns.listForUser(partnerId, { from: today, to: today });
+
+    const habits = partnerHabits.map(habit => {
+      const checkIn = todayCheckIns.find(c => c.habit_id === habit.id);
+      return {
+        id: habit.id,
+        habit_name: habit.habit_name,
+        category: habit.category,
+        privacy_setting: habit.privacy_setting,
+        today_checkin: checkIn ? { completed: checkIn.completed, check_in_time: checkIn.check_in_time } : null
+      };
+    });
 
     res.json({
       partnership: data,
       partner: {
         id: partnerId,
         display_name: partnerProfile?.display_name,
-        habit: partnerHabit,
-        today_checkin: todayCheckIn
+        habits
       }
     });
   } catch (error: any) {
     console.error('Error fetching current partnership:', error);
-    res.status(500).json({ error: 'Failed to fetch partnership' });
+    sendError(req, res, 500, 'FETCH_PARTNERSHIP_FAILED');
   }
 });
 
@@ -194,38 +149,21 @@ router.put('/:id/accept', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
 
-    const { data: partnership, error: fetchError } = await supabase
-      .from('partnerships')
-      .select('*')
-      .eq('id', id)
-      .eq('receiver_id', req.user!.id)
-      .eq('status', 'pending')
-      .single();
+    const partnership = await repositories.partnerships.findById(id);
 
-    if (fetchError || !partnership) {
-      return res.status(404).json({ error: 'Partnership request not found' });
+    if (!partnership || partnership.receiver_id !== req.user!.id || partnership.status !== 'pending') {
+      return sendError(req, res, 404, 'PARTNERSHIP_REQUEST_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('partnerships')
-      .update({
-        status: 'accepted',
-        accepted_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.partnerships.update(id, {
+      status: 'accepted',
+      accepted_at: new Date().toISOString()
+    });
 
     // Create notification for requester
-    const { data: receiverProfile } = await supabase
-      .from('users_profiles')
-      .select('display_name')
-      .eq('id', req.user!.id)
-      .single();
+    const receiverProfile = await repositories.profiles.findById(req.user!.id);
 
-    await supabase.from('notifications').insert({
+    await createNotification({
       user_id: partnership.requester_id,
       type: 'partner-request',
       title: 'Partnership Accepted!',
@@ -235,7 +173,7 @@ router.put('/:id/accept', async (req: AuthenticatedRequest, res) => {
     res.json(data);
   } catch (error: any) {
     console.error('Error accepting partnership:', error);
-    res.status(500).json({ error: 'Failed to accept partnership' });
+    sendError(req, res, 500, 'ACCEPT_PARTNERSHIP_FAILED');
   }
 });
 
@@ -244,31 +182,75 @@ router.put('/:id/decline', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
 
-    const { data: partnership } = await supabase
-      .from('partnerships')
-      .select('*')
-      .eq('id', id)
-      .eq('receiver_id', req.user!.id)
-      .eq('status', 'pending')
-      .single();
+    const partnership = await repositories.partnerships.findById(id);
 
-    if (!partnership) {
-      return res.status(404).json({ error: 'Partnership request not found' });
+    if (!partnership || partnership.receiver_id !== req.user!.id || partnership.status !== 'pending') {
+      return sendError(req, res, 404, 'PARTNERSHIP_REQUEST_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('partnerships')
-      .update({ status: 'declined' })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.partnerships.update(id, { status: 'declined' });
 
     res.json(data);
   } catch (error: any) {
     console.error('Error declining partnership:', error);
-    res.status(500).json({ error: 'Failed to decline partnership' });
+    sendError(req, res, 500, 'DECLINE_PARTNERSHIP_FAILED');
+  }
+});
+
+// POST /api/partnerships/:id/nudge - Remind your partner to check in today.
+// Allowed once a day per partner, before they've checked in and outside
+// their quiet hours.
+router.post('/:id/nudge', async (req: AuthenticatedRequest, res) => {
+  try {
+    const partnership = await repositories.partnerships.findById(req.params.id);
+
+    if (!partnership || partnership.status !== 'accepted' ||
+        (partnership.requester_id !== req.user!.id && partnership.receiver_id !== req.user!.id)) {
+      return sendError(req, res, 404, 'PARTNERSHIP_NOT_FOUND');
+    }
+
+    const partnerId = partnership.requester_id === req.user!.id
+      ? partnership.receiver_id
+      : partnership.requester_id;
+
+    // Everything is judged by the partner's own clock
+    const partnerProfile = await repositories.profiles.findById(partnerId);
+    const local = getLocalDateTime(partnerProfile?.timezone);
+
+    const todayCheckIns = await repositories.checkIns.listForUser(partnerId, { from: local.date, to: local.date });
+
+    if (todayCheckIns.length > 0) {
+      return sendError(req, res, 409, 'NUDGE_PARTNER_CHECKED_IN');
+    }
+
+    if (await repositories.nudges.findForDate(req.user!.id, partnerId, local.date)) {
+      return sendError(req, res, 429, 'NUDGE_LIMIT');
+    }
+
+    if (isInQuietHours(partnerProfile, local.minutes)) {
+      return sendError(req, res, 409, apiError('PARTNER_QUIET_HOURS', { time: partnerProfile!.quiet_hours_end! }));
+    }
+
+    const data = await repositories.nudges.create({
+      partnership_id: partnership.id,
+      from_user_id: req.user!.id,
+      to_user_id: partnerId,
+      date: local.date
+    });
+
+    const senderProfile = await repositories.profiles.findById(req.user!.id);
+
+    await createNotification({
+      user_id: partnerId,
+      type: 'nudge',
+      title: 'Time to Check In',
+      message: `${senderProfile?.display_name || 'Your partner'} nudged you - you haven't checked in today yet!`
+    });
+
+    res.status(201).json(data);
+  } catch (error: any) {
+    console.error('Error sending nudge:', error);
+    sendError(req, res, 500, 'SEND_NUDGE_FAILED');
   }
 });
 
@@ -277,34 +259,22 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
 
-    const { data: partnership } = await supabase
-      .from('partnerships')
-      .select('*')
-      .eq('id', id)
-      .or(`requester_id.eq.${req.user!.id},receiver_id.eq.${req.user!.id}`)
-      .eq('status', 'accepted')
-      .single();
+    const partnership = await repositories.partnerships.findById(id);
 
-    if (!partnership) {
-      return res.status(404).json({ error: 'Partnership not found' });
+    if (!partnership || partnership.status !== 'accepted' ||
+        (partnership.requester_id !== req.user!.id && partnership.receiver_id !== req.user!.id)) {
+      return sendError(req, res, 404, 'PARTNERSHIP_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('partnerships')
-      .update({
-        status: 'ended',
-        ended_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.partnerships.update(id, {
+      status: 'ended',
+      ended_at: new Date().toISOString()
+    });
 
     res.json(data);
   } catch (error: any) {
     console.error('Error ending partnership:', error);
-    res.status(500).json({ error: 'Failed to end partnership' });
+    sendError(req, res, 500, 'END_PARTNERSHIP_FAILED');
   }
 });
 
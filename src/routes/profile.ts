@@ -1,65 +1,95 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { apiError, DEFAULT_LOCALE, parseAcceptLanguage, parseLocale, SUPPORTED_LOCALES } from '../i18n';
+import { isValidTimezone } from '../services/dateService';
+import { parseQuietHours } from '../services/nudgeService';
 
 const router = express.Router();
 
+function invalidLocale() {
+  return apiError('INVALID_LOCALE', { locales: SUPPORTED_LOCALES.join(', ') });
+}
+
 // GET /api/profile - Get current user's profile
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { data, error } = await supabase
-      .from('users_profiles')
-      .select('*')
-      .eq('id', req.user!.id)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: 'Profile not found' });
-      }
-      throw error;
+    const data = await repositories.profiles.findById(req.user!.id);
+
+    if (!data) {
+      return sendError(req, res, 404, 'PROFILE_NOT_FOUND');
     }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error fetching profile:', error);
-    res.status(500).json({ error: 'Failed to fetch profile' });
+    sendError(req, res, 500, 'FETCH_PROFILE_FAILED');
   }
 });
 
 // POST /api/profile - Create user profile
 router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { display_name, timezone, preferred_categories } = req.body;
+    const { display_name, timezone, preferred_categories, locale } = req.body;
 
     if (!display_name) {
-      return res.status(400).json({ error: 'Display name is required' });
+      return sendError(req, res, 400, 'DISPLAY_NAME_REQUIRED');
     }
 
-    const { data, error } = await supabase
-      .from('users_profiles')
-      .insert({
-        id: req.user!.id,
-        display_name,
-        timezone: timezone || 'UTC',
-        preferred_categories: preferred_categories || []
-      })
-      .select()
-      .single();
+    if (timezone && !isValidTimezone(timezone)) {
+      return sendError(req, res, 400, 'INVALID_TIMEZONE');
+    }
 
-    if (error) throw error;
+    if (locale !== undefined && !parseLocale(locale)) {
+      return sendError(req, res, 400, invalidLocale());
+    }
+
+    const data = await repositories.profiles.create({
+      id: req.user!.id,
+      display_name,
+      timezone: timezone || 'UTC',
+      // Defaults to the language the client is already asking for
+      locale: parseLocale(locale) || parseAcceptLanguage(req.headers['accept-language']) || DEFAULT_LOCALE,
+      preferred_categories: preferred_categories || []
+    });
 
     res.status(201).json(data);
   } catch (error: any) {
     console.error('Error creating profile:', error);
-    res.status(500).json({ error: 'Failed to create profile' });
+    sendError(req, res, 500, 'CREATE_PROFILE_FAILED');
   }
 });
 
 // PUT /api/profile - Update user profile
 router.put('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { display_name, timezone, preferred_categories, reminder_enabled, reminder_time } = req.body;
+    const {
+      display_name,
+      timezone,
+      preferred_categories,
+      reminder_enabled,
+      reminder_time,
+      locale,
+      quiet_hours_start,
+      quiet_hours_end
+    } = req.body;
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return sendError(req, res, 400, 'INVALID_TIMEZONE');
+    }
+
+    if (locale !== undefined && !parseLocale(locale)) {
+      return sendError(req, res, 400, invalidLocale());
+    }
+
+    const quietHours = quiet_hours_start !== undefined || quiet_hours_end !== undefined
+      ? parseQuietHours(quiet_hours_start, quiet_hours_end)
+      : null;
+
+    if (quietHours?.error) {
+      return sendError(req, res, 400, quietHours.error);
+    }
 
     const updateData: any = {};
     if (display_name !== undefined) updateData.display_name = display_name;
@@ -67,20 +97,22 @@ router.put('/', async (req: AuthenticatedRequest, res) => {
     if (preferred_categories !== undefined) updateData.preferred_categories = preferred_categories;
     if (reminder_enabled !== undefined) updateData.reminder_enabled = reminder_enabled;
     if (reminder_time !== undefined) updateData.reminder_time = reminder_time;
+    if (locale !== undefined) updateData.locale = parseLocale(locale);
+    if (quietHours) {
+      updateData.quiet_hours_start = quietHours.value!.start;
+      updateData.quiet_hours_end = quietHours.value!.end;
+    }
 
-    const { data, error } = await supabase
-      .from('users_profiles')
-      .update(updateData)
-      .eq('id', req.user!.id)
-      .select()
-      .single();
+    const data = await repositories.profiles.update(req.user!.id, updateData);
 
-    if (error) throw error;
+    if (!data) {
+      return sendError(req, res, 404, 'PROFILE_NOT_FOUND');
+    }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error updating profile:', error);
-    res.status(500).json({ error: 'Failed to update profile' });
+    sendError(req, res, 500, 'UPDATE_PROFILE_FAILED');
   }
 });
 
@@ -88,14 +120,12 @@ router.put('/', async (req: AuthenticatedRequest, res) => {
 router.delete('/', async (req: AuthenticatedRequest, res) => {
   try {
     // Delete user from auth (this will cascade delete all related data)
-    const { error } = await supabase.auth.admin.deleteUser(req.user!.id);
-
-    if (error) throw error;
+    await repositories.auth.deleteUser(req.user!.id);
 
     res.json({ message: 'Account deleted successfully' });
   } catch (error: any) {
     console.error('Error deleting account:', error);
-    res.status(500).json({ error: 'Failed to delete account' });
+    sendError(req, res, 500, 'DELETE_ACCOUNT_FAILED');
   }
 });
 
@@ -0,0 +1,89 @@
+import express from 'express';
+import { RealtimeEvent, repositories } from '../repositories';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getRequestLocale, sendError } from '../middleware/errors';
+import { translateError } from '../i18n';
+import { openEventStream } from '../services/eventStreamService';
+import { MAX_EVENT_PAGE_SIZE, parseCursor, subscribe } from '../services/realtimeService';
+
+const router = express.Router();
+
+// GET /api/realtime/events - Events after a cursor, oldest first
+router.get('/events', async (req: AuthenticatedRequest, res) => {
+  try {
+    const cursor = parseCursor(req.query.cursor);
+
+    if (cursor.error) {
+      return sendError(req, res, 400, cursor.error);
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_EVENT_PAGE_SIZE);
+    const events = await repositories.realtimeEvents.listAfter(req.user!.id, cursor.value || 0, limit);
+
+    res.json({
+      events,
+      next_cursor: events.length > 0 ? events[events.length - 1].seq : cursor.value || 0
+    });
+  } catch (error: any) {
+    console.error('Error fetching events:', error);
+    sendError(req, res, 500, 'FETCH_EVENTS_FAILED');
+  }
+});
+
+// GET /api/realtime/stream - Push events as server-sent events. Resumes after
+// ?cursor= or the Last-Event-ID header; without either only new events are
+// sent. A ready event carries the cursor once any missed events are replayed.
+router.get('/stream', async (req: AuthenticatedRequest, res) => {
+  const cursor = parseCursor(req.header('Last-Event-ID') ?? req.query.cursor);
+
+  if (cursor.error) {
+    return sendError(req, res, 400, cursor.error);
+  }
+
+  const userId = req.user!.id;
+  const locale = await getRequestLocale(req);
+  const send = openEventStream(res);
+
+  // Events published while missed ones are replayed wait their turn
+  let lastSeq = cursor.value || 0;
+  let replaying = true;
+  const buffered: RealtimeEvent[] = [];
+
+  const deliver = (event: RealtimeEvent) => {
+    if (event.seq <= lastSeq) return;
+    lastSeq = event.seq;
+    send(event.type, event, String(event.seq));
+  };
+
+  const unsubscribe = subscribe(userId, event => {
+    if (replaying) buffered.push(event);
+    else deliver(event);
+  });
+  res.on('close', unsubscribe);
+
+  try {
+    if (cursor.value === undefined) {
+      lastSeq = await repositories.realtimeEvents.latestSeq(userId);
+    } else {
+      let missed: RealtimeEvent[];
+      do {
+        missed = await repositories.realtimeEvents.listAfter(userId, lastSeq, MAX_EVENT_PAGE_SIZE);
+        missed.forEach(deliver);
+      } while (missed.length === MAX_EVENT_PAGE_SIZE);
+    }
+
+    replaying = false;
+    buffered.forEach(deliver);
+    send('ready', { cursor: lastSeq }, String(lastSeq));
+  } catch (error: any) {
+    console.error('Error replaying events:', error);
+    unsubscribe();
+    send('error', {
+      error: translateError(locale, { code: 'REALTIME_STREAM_FAILED' }),
+      code: 'REALTIME_STREAM_FAILED'
+    });
+    res.end();
+  }
+});
+
+export default router;
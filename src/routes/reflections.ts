@@ -1,6 +1,8 @@
 import express from 'express';
-import { supabase } from '../config/supabase';
+import { repositories } from '../repositories';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { queueReflectionAnalysis } from '../services/textAnalysisService';
 
 const router = express.Router();
 
@@ -10,43 +12,37 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     const { habit_id, week_start_date, reflection_text, share_with_partner } = req.body;
 
     if (!habit_id || !week_start_date) {
-      return res.status(400).json({ error: 'Habit ID and week start date are required' });
+      return sendError(req, res, 400, 'REFLECTION_FIELDS_REQUIRED');
     }
 
     if (reflection_text && reflection_text.length > 500) {
-      return res.status(400).json({ error: 'Reflection text must be 500 characters or less' });
+      return sendError(req, res, 400, 'REFLECTION_TOO_LONG');
     }
 
     // Verify habit belongs to user
-    const { data: habit } = await supabase
-      .from('habits')
-      .select('id')
-      .eq('id', habit_id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const habit = await repositories.habits.findByIdForUser(habit_id, req.user!.id);
 
     if (!habit) {
-      return res.status(404).json({ error: 'Habit not found' });
+      return sendError(req, res, 404, 'HABIT_NOT_FOUND');
     }
 
-    const { data, error } = await supabase
-      .from('reflections')
-      .insert({
-        user_id: req.user!.id,
-        habit_id,
-        week_start_date,
-        reflection_text: reflection_text || null,
-        share_with_partner: share_with_partner || false
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await repositories.reflections.create({
+      user_id: req.user!.id,
+      habit_id,
+      week_start_date,
+      reflection_text: reflection_text || null,
+      share_with_partner: share_with_partner || false
+    });
+
+    // Sentiment and obstacle tags are added in the background
+    if (data.reflection_text) {
+      queueReflectionAnalysis(data);
+    }
 
     res.status(201).json(data);
   } catch (error: any) {
     console.error('Error creating reflection:', error);
-    res.status(500).json({ error: 'Failed to create reflection' });
+    sendError(req, res, 500, 'CREATE_REFLECTION_FAILED');
   }
 });
 
@@ -55,23 +51,12 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
     const { habit_id } = req.query;
 
-    let query = supabase
-      .from('reflections')
-      .select('*')
-      .eq('user_id', req.user!.id);
-
-    if (habit_id) {
-      query = query.eq('habit_id', habit_id);
-    }
-
-    const { data, error } = await query.order('week_start_date', { ascending: false });
+    const data = await repositories.reflections.listForUser(req.user!.id, habit_id as string | undefined);
 
-    if (error) throw error;
-
-    res.json(data || []);
+    res.json(data);
   } catch (error: any) {
     console.error('Error fetching reflections:', error);
-    res.status(500).json({ error: 'Failed to fetch reflections' });
+    sendError(req, res, 500, 'FETCH_REFLECTIONS_FAILED');
   }
 });
 
@@ -82,21 +67,16 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
     const { reflection_text, share_with_partner } = req.body;
 
     // Verify reflection belongs to user
-    const { data: reflection } = await supabase
-      .from('reflections')
-      .select('id')
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .single();
-
-    if (!reflection) {
-      return res.status(404).json({ error: 'Reflection not found' });
+    const reflection = await repositories.reflections.findById(id);
+
+    if (!reflection || reflection.user_id !== req.user!.id) {
+      return sendError(req, res, 404, 'REFLECTION_NOT_FOUND');
     }
 
     const updateData: any = {};
     if (reflection_text !== undefined) {
       if (reflection_text.length > 500) {
-        return res.status(400).json({ error: 'Reflection text must be 500 characters or less' });
+        return sendError(req, res, 400, 'REFLECTION_TOO_LONG');
       }
       updateData.reflection_text = reflection_text;
     }
@@ -104,19 +84,16 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       updateData.share_with_partner = share_with_partner;
     }
 
-    const { data, error } = await supabase
-      .from('reflections')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const data = await repositories.reflections.update(id, updateData);
 
-    if (error) throw error;
+    if (data.reflection_text !== reflection.reflection_text) {
+      queueReflectionAnalysis(data);
+    }
 
     res.json(data);
   } catch (error: any) {
     console.error('Error updating reflection:', error);
-    res.status(500).json({ error: 'Failed to update reflection' });
+    sendError(req, res, 500, 'UPDATE_REFLECTION_FAILED');
   }
 });
 
@@ -0,0 +1,51 @@
+import express from 'express';
+import { repositories } from '../repositories';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { isValidReportContext, parseReport } from '../services/reportService';
+
+const router = express.Router();
+
+// POST /api/reports - Report a user to the moderators, optionally about a
+// specific message or partnership
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { user_id } = req.body;
+
+    if (!user_id || typeof user_id !== 'string') {
+      return sendError(req, res, 400, 'USER_ID_REQUIRED');
+    }
+
+    if (user_id === req.user!.id) {
+      return sendError(req, res, 400, 'SELF_REPORT');
+    }
+
+    const report = parseReport(req.body);
+
+    if (report.error) {
+      return sendError(req, res, 400, report.error);
+    }
+
+    if (!await repositories.profiles.findById(user_id)) {
+      return sendError(req, res, 404, 'USER_NOT_FOUND');
+    }
+
+    if (!await isValidReportContext(req.user!.id, user_id, report.value!)) {
+      return sendError(req, res, 400, 'INVALID_REPORT_CONTEXT');
+    }
+
+    const data = await repositories.reports.create({
+      reporter_id: req.user!.id,
+      reported_user_id: user_id,
+      ...report.value!,
+      status: 'open'
+    });
+
+    res.status(201).json(data);
+  } catch (error: any) {
+    console.error('Error creating report:', error);
+    sendError(req, res, 500, 'CREATE_REPORT_FAILED');
+  }
+});
+
+export default router;
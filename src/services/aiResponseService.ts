@@ -0,0 +1,264 @@
+import { createHash } from 'crypto';
+import { AiResponse, repositories } from '../repositories';
+import { TextListener } from '../llm';
+import { ApiError, apiError } from '../i18n';
+import { AiCompletion } from './aiService';
+import { getLocalDate, getLocalDayStart, getUserTimezone } from './dateService';
+
+export type AiResponseType =
+  | 'post-checkin'
+  | 'weekly-insight'
+  | 'streak-break'
+  | 'chat'
+  | 'chat-summary'
+  | 'habit-plan'
+  | 'text-analysis'
+  | 'monthly-summary';
+
+export const AI_RESPONSE_TYPES: AiResponseType[] = [
+  'post-checkin',
+  'weekly-insight',
+  'streak-break',
+  'chat',
+  'chat-summary',
+  'habit-plan',
+  'text-analysis',
+  'monthly-summary'
+];
+
+const DEFAULT_DAILY_LIMITS: Record<AiResponseType, number> = {
+  'post-checkin': 20,
+  'weekly-insight': 5,
+  'streak-break': 10,
+  'chat': 50,
+  'chat-summary': 50,
+  'habit-plan': 10,
+  'text-analysis': 200,
+  'monthly-summary': 5
+};
+
+const DEFAULT_CACHE_WINDOW_MINUTES = 1440;
+
+// How long an identical context keeps returning the stored response.
+// Anything but a non-negative number keeps the default.
+function readCacheWindowMinutes(): number {
+  const value = process.env.AI_CACHE_WINDOW_MINUTES;
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_WINDOW_MINUTES;
+}
+
+const CACHE_WINDOW_MINUTES = readCacheWindowMinutes();
+
+// AI_DAILY_LIMIT_POST_CHECKIN etc. override the defaults
+export function getDailyLimit(type: AiResponseType): number {
+  const configured = parseInt(process.env[`AI_DAILY_LIMIT_${type.toUpperCase().replace(/-/g, '_')}`] || '');
+  return isNaN(configured) ? DEFAULT_DAILY_LIMITS[type] : configured;
+}
+
+function getContextKey(type: AiResponseType, cacheContext: object): string {
+  return createHash('sha256').update(JSON.stringify([type, cacheContext])).digest('hex');
+}
+
+async function getUserDayStart(userId: string): Promise<Date> {
+  const timezone = await getUserTimezone(userId);
+  return getLocalDayStart(timezone, getLocalDate(timezone));
+}
+
+export async function hasQuotaRemaining(userId: string, type: AiResponseType): Promise<boolean> {
+  const used = await repositories.aiResponses.countSince(userId, type, await getUserDayStart(userId));
+  return used < getDailyLimit(type);
+}
+
+export interface AiRequest {
+  userId: string;
+  habitId: string | null;
+  type: AiResponseType;
+  // Stored alongside the message
+  context: object;
+  // Identifies requests that may share a response (same habit, streak, day...)
+  cacheContext: object;
+  // Passes text to onText as it streams in
+  generate: (onText: TextListener) => Promise<AiCompletion>;
+  // Background jobs aren't limited by the user's quota
+  enforceQuota?: boolean;
+}
+
+interface ActiveGeneration {
+  // Everything streamed so far, for listeners that join late
+  text: string;
+  listeners: Set<TextListener>;
+  // The stored response, or null if generation failed
+  done: Promise<AiResponse | null>;
+}
+
+// Responses being generated by this process, by id
+const activeGenerations = new Map<string, ActiveGeneration>();
+
+async function finishGeneration(
+  id: string,
+  context: object,
+  contextKey: string,
+  generate: AiRequest['generate'],
+  active: ActiveGeneration
+): Promise<AiResponse | null> {
+  try {
+    const completion = await generate(chunk => {
+      active.text += chunk;
+      active.listeners.forEach(listener => listener(chunk));
+    });
+
+    return await repositories.aiResponses.update(id, {
+      ai_message: completion.text,
+      status: 'completed',
+      // Fallback messages aren't cached so the next request retries the provider
+      context_key: completion.fallback ? null : contextKey,
+      provider: completion.provider,
+      model: completion.model,
+      prompt_tokens: completion.promptTokens,
+      completion_tokens: completion.completionTokens,
+      cost_usd: completion.costUsd,
+      latency_ms: completion.latencyMs,
+      context: {
+        ...context,
+        ...(completion.promptVersion
+          ? { prompt_template: completion.promptTemplate, prompt_version: completion.promptVersion }
+          : {}),
+        ...(completion.moderationCategories ? { moderation_categories: completion.moderationCategories } : {})
+      }
+    });
+  } catch (error) {
+    console.error(`Error generating AI response ${id}:`, error);
+    await repositories.aiResponses.update(id, { status: 'failed' }).catch(() => null);
+    return null;
+  } finally {
+    activeGenerations.delete(id);
+  }
+}
+
+// Returns the stored response for an identical context inside the cache
+// window. Otherwise stores a pending response and generates its text in the
+// background; follow it with followAiResponse. Cached responses don't count
+// against the daily quota.
+export async function startAiResponse(
+  request: AiRequest
+): Promise<{ response?: AiResponse; cached?: boolean; error?: ApiError }> {
+  const { userId, habitId, type, context, cacheContext, generate, enforceQuota = true } = request;
+  const contextKey = getContextKey(type, cacheContext);
+
+  const cacheSince = new Date(Date.now() - CACHE_WINDOW_MINUTES * 60 * 1000);
+  const cachedResponse = await repositories.aiResponses.findByContextKey(userId, contextKey, cacheSince);
+  if (cachedResponse) {
+    return { response: cachedResponse, cached: true };
+  }
+
+  if (enforceQuota && !(await hasQuotaRemaining(userId, type))) {
+    return { error: apiError('AI_DAILY_LIMIT', { limit: getDailyLimit(type), type }) };
+  }
+
+  const response = await repositories.aiResponses.create({
+    user_id: userId,
+    habit_id: habitId,
+    response_type: type,
+    context,
+    ai_message: '',
+    status: 'pending'
+  });
+
+  const active: ActiveGeneration = { text: '', listeners: new Set(), done: Promise.resolve(null) };
+  activeGenerations.set(response.id, active);
+  active.done = finishGeneration(response.id, context, contextKey, generate, active);
+
+  return { response, cached: false };
+}
+
+// Replays the text streamed so far to onText and keeps forwarding new text.
+// Returns null when the response isn't being generated by this process.
+export function followAiResponse(
+  id: string,
+  onText: TextListener
+): { done: Promise<AiResponse | null>; unsubscribe: () => void } | null {
+  const active = activeGenerations.get(id);
+  if (!active) return null;
+
+  if (active.text) onText(active.text);
+  active.listeners.add(onText);
+
+  return { done: active.done, unsubscribe: () => active.listeners.delete(onText) };
+}
+
+// The response once its text is complete, or null if generation failed.
+// Responses generated by another process are returned as stored.
+export async function waitForAiResponse(id: string): Promise<AiResponse | null> {
+  const response = await (activeGenerations.get(id)?.done ?? repositories.aiResponses.findById(id));
+  return response && response.status !== 'failed' ? response : null;
+}
+
+// Like startAiResponse, but waits for the generated text
+export async function getOrCreateAiResponse(
+  request: AiRequest
+): Promise<{ response?: AiResponse; cached?: boolean; error?: ApiError }> {
+  const started = await startAiResponse(request);
+  if (!started.response || started.cached) {
+    return started;
+  }
+
+  const response = await waitForAiResponse(started.response.id);
+  if (!response) {
+    throw new Error(`Failed to generate ${request.type} response`);
+  }
+
+  return { response, cached: false };
+}
+
+interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+function summarizeUsage(responses: AiResponse[]): UsageTotals {
+  const calls = responses.length;
+  const latency = responses.reduce((sum, r) => sum + (r.latency_ms || 0), 0);
+
+  return {
+    calls,
+    prompt_tokens: responses.reduce((sum, r) => sum + (r.prompt_tokens || 0), 0),
+    completion_tokens: responses.reduce((sum, r) => sum + (r.completion_tokens || 0), 0),
+    cost_usd: Math.round(responses.reduce((sum, r) => sum + (r.cost_usd || 0), 0) * 1e6) / 1e6,
+    avg_latency_ms: calls > 0 ? Math.round(latency / calls) : 0
+  };
+}
+
+// Consumption since the given time, for one user or everyone
+export async function getAiUsage(since: Date, userId?: string) {
+  const responses = await repositories.aiResponses.listSince(since, userId);
+
+  const byType: { [type: string]: UsageTotals } = {};
+  for (const type of AI_RESPONSE_TYPES) {
+    byType[type] = summarizeUsage(responses.filter(r => r.response_type === type));
+  }
+
+  const byModel: { [model: string]: UsageTotals } = {};
+  for (const model of new Set(responses.map(r => r.model || 'fallback'))) {
+    byModel[model] = summarizeUsage(responses.filter(r => (r.model || 'fallback') === model));
+  }
+
+  return { totals: summarizeUsage(responses), by_type: byType, by_model: byModel };
+}
+
+// Today's quota use per response type
+export async function getQuotaStatus(userId: string) {
+  const dayStart = await getUserDayStart(userId);
+  const quota: { [type: string]: { used: number; limit: number } } = {};
+
+  for (const type of AI_RESPONSE_TYPES) {
+    quota[type] = {
+      used: await repositories.aiResponses.countSince(userId, type, dayStart),
+      limit: getDailyLimit(type)
+    };
+  }
+
+  return quota;
+}
@@ -0,0 +1,327 @@
+import { DEFAULT_LOCALE, getFallbackMessage, getLanguageName, Locale } from '../i18n';
+import { generateChat, LlmMessage, LlmUseCase, TextListener } from '../llm';
+import { ModerationCategory, moderateText } from '../moderation';
+import {
+  EncouragementContext,
+  PromptName,
+  selectPromptTemplate,
+  StreakBreakContext,
+  WeeklyInsightContext
+} from '../prompts';
+
+export interface AiCompletion {
+  text: string;
+  provider: string | null;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  // Set when the provider failed and a canned message was used, or the stub
+  // provider answered in place of a real model
+  fallback: boolean;
+  // Template the prompt came from, for prompts in the registry
+  promptTemplate?: PromptName;
+  promptVersion?: string;
+  // Set when the reply failed moderation and was replaced with the fallback
+  moderationCategories?: ModerationCategory[];
+}
+
+export interface HabitPlanContext {
+  locale: Locale;
+  goal: string;
+  today: string;
+  categories: string[];
+  existingHabits: string[];
+}
+
+export interface MonthlySummaryContext {
+  locale: Locale;
+  month: string;
+  // Oldest first
+  entries: { date: string; kind: 'note' | 'reflection'; habitName: string; text: string }[];
+  topObstacles: string[];
+  topThemes: string[];
+}
+
+export interface CoachHabitContext {
+  habitName: string;
+  category: string;
+  schedule: string;
+  target: string | null;
+  currentStreak: number;
+  longestStreak: number;
+  totalCheckIns: number;
+  // Oldest first
+  recentCheckIns: { date: string; weekday: string; completed: boolean; time: string | null; notes: string | null }[];
+}
+
+export interface CoachContext {
+  locale: Locale;
+  displayName: string;
+  today: string;
+  habits: CoachHabitContext[];
+  reflections: { weekStart: string; text: string }[];
+}
+
+// Asks for the reply in the user's language; English prompts get English replies
+function languageInstruction(locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? '' : `\n\nWrite your reply in ${getLanguageName(locale)}.`;
+}
+
+// Replies shown to users; the rest only feed other prompts and stored tags
+const SCREENED_USE_CASES: LlmUseCase[] = [
+  'encouragement',
+  'weekly-insight',
+  'streak-break',
+  'chat',
+  'habit-plan',
+  'monthly-summary'
+];
+
+// Pulls the JSON object out of a model reply, which may wrap it in prose or
+// code fences. Returns null when there's no valid object.
+export function parseJsonReply(text: string): any {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+// locale picks the language of the fallback message
+async function complete(
+  useCase: LlmUseCase,
+  prompt: string,
+  onText?: TextListener,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AiCompletion> {
+  return completeChat(useCase, [{ role: 'user', content: prompt }], onText, locale);
+}
+
+async function completeChat(
+  useCase: LlmUseCase,
+  messages: LlmMessage[],
+  onText?: TextListener,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AiCompletion> {
+  const startedAt = Date.now();
+  const fallback = getFallbackMessage(locale, useCase);
+  let streamed = false;
+
+  try {
+    const response = await generateChat(useCase, messages, onText && (chunk => {
+      streamed = true;
+      onText(chunk);
+    }));
+
+    const completion: AiCompletion = {
+      text: response.text,
+      provider: response.provider,
+      model: response.model,
+      promptTokens: response.usage?.promptTokens || 0,
+      completionTokens: response.usage?.completionTokens || 0,
+      costUsd: response.costUsd,
+      latencyMs: response.latencyMs,
+      // The stub's replies are canned too, whatever was asked
+      fallback: response.provider === 'stub'
+    };
+
+    // Streamed text can't be taken back; listeners get the replacement as
+    // the stored message once the response completes
+    if (SCREENED_USE_CASES.includes(useCase)) {
+      const verdict = await moderateText(response.text, 'ai-output');
+      if (verdict.action !== 'allow') {
+        console.error(`LLM reply failed moderation (${useCase}):`, verdict.categories.join(', '));
+        return {
+          ...completion,
+          text: fallback,
+          fallback: true,
+          moderationCategories: verdict.categories
+        };
+      }
+    }
+
+    return completion;
+  } catch (error: any) {
+    console.error(`LLM error (${useCase}):`, error.response?.data || error.message);
+    // Return fallback message if the provider fails. Listeners only get it
+    // if the provider hadn't streamed anything yet.
+    if (onText && !streamed && fallback) {
+      onText(fallback);
+    }
+    return {
+      text: fallback,
+      provider: null,
+      model: null,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: 0,
+      latencyMs: Date.now() - startedAt,
+      fallback: true
+    };
+  }
+}
+
+// Renders the version of the prompt the user is assigned to and records it
+// on the completion. Fallback messages (provider failures, moderated replies)
+// aren't recorded, so they don't count towards any version in the report.
+async function completeTemplate<T extends { locale: Locale }>(
+  useCase: LlmUseCase,
+  name: PromptName,
+  userId: string,
+  data: T,
+  onText?: TextListener
+): Promise<AiCompletion> {
+  const template = selectPromptTemplate<T>(name, userId);
+  const prompt = template.render(data) + languageInstruction(data.locale);
+  const completion = await complete(useCase, prompt, onText, data.locale);
+  return completion.fallback ? completion : { ...completion, promptTemplate: name, promptVersion: template.version };
+}
+
+export async function getEncouragementMessage(
+  userId: string,
+  context: EncouragementContext,
+  onText?: TextListener
+): Promise<AiCompletion> {
+  return completeTemplate('encouragement', 'encouragement', userId, context, onText);
+}
+
+export async function getWeeklyInsight(
+  userId: string,
+  context: WeeklyInsightContext,
+  onText?: TextListener
+): Promise<AiCompletion> {
+  return completeTemplate('weekly-insight', 'weekly-insight', userId, context, onText);
+}
+
+export async function getStreakBreakSupport(
+  userId: string,
+  context: StreakBreakContext,
+  onText?: TextListener
+): Promise<AiCompletion> {
+  return completeTemplate('streak-break', 'streak-break', userId, context, onText);
+}
+
+export function generateCoachSystemPrompt(data: CoachContext): string {
+  const habitSections = data.habits.map(habit => {
+    const checkIns = habit.recentCheckIns.map(c =>
+      `- ${c.date} (${c.weekday}): ${c.completed ? '✓' : '✗'}${c.time ? ` at ${c.time}` : ''}${c.notes ? ` - "${c.notes}"` : ''}`
+    ).join('\n');
+
+    return `Habit: ${habit.habitName} (${habit.category})
+Schedule: ${habit.schedule}${habit.target ? `\nTarget: ${habit.target}` : ''}
+Current Streak: ${habit.currentStreak} days (longest ${habit.longestStreak}, ${habit.totalCheckIns} total check-ins)
+Recent Check-ins:
+${checkIns || '- none yet'}`;
+  }).join('\n\n');
+
+  const reflections = data.reflections.map(r => `- Week of ${r.weekStart}: ${r.text}`).join('\n');
+
+  return `You are a supportive, practical habit coach chatting with ${data.displayName}. Today is ${data.today}.
+
+${habitSections || 'The user has no active habits yet.'}
+${reflections ? `\nTheir recent weekly reflections:\n${reflections}\n` : ''}
+Answer their questions using this data. Point out concrete patterns (days of the week, times, notes) when they are relevant, suggest one or two specific actions at a time, and keep replies under 200 words. If the data doesn't support an answer, say so rather than guessing.${languageInstruction(data.locale)}`;
+}
+
+// summary covers turns that were dropped from history
+export async function getCoachReply(
+  systemPrompt: string,
+  summary: string | null,
+  history: LlmMessage[],
+  locale: Locale,
+  onText?: TextListener
+): Promise<AiCompletion> {
+  const messages: LlmMessage[] = [{ role: 'system', content: systemPrompt }];
+  if (summary) {
+    messages.push({ role: 'system', content: `Summary of the earlier conversation: ${summary}` });
+  }
+
+  return completeChat('chat', [...messages, ...history], onText, locale);
+}
+
+export async function summarizeCoachConversation(
+  previousSummary: string | null,
+  turns: LlmMessage[]
+): Promise<AiCompletion> {
+  const transcript = turns.map(t => `${t.role === 'user' ? 'User' : 'Coach'}: ${t.content}`).join('\n');
+
+  const prompt = `Summarize this habit coaching conversation in under 150 words. Keep the user's questions, any facts they shared about themselves, and the advice they were given.
+${previousSummary ? `\nSummary so far: ${previousSummary}\n` : ''}
+${transcript}`;
+
+  return complete('chat-summary', prompt);
+}
+
+export function generateHabitPlanPrompt(data: HabitPlanContext): string {
+  const { locale, goal, today, categories, existingHabits } = data;
+
+  return `You are a habit coach helping a user turn a goal into small daily habits.
+
+Goal: ${goal}
+Today: ${today}
+${existingHabits.length > 0 ? `Habits they already track: ${existingHabits.join(', ')}\n` : ''}
+Suggest 1-3 habits that work towards this goal. Reply with JSON only, in this shape:
+{"suggestions": [{"habit_name": "...", "category": "...", "start_date": "YYYY-MM-DD", "difficulty": "easy", "reasons": ["..."]}]}
+
+Rules:
+- habit_name: a short, specific daily action, at most 100 characters
+- category: exactly one of ${categories.join(', ')}
+- start_date: today or a later date that makes sense for the goal
+- difficulty: easy, medium or hard - prefer easy starter versions
+- reasons: 1-3 short sentences on why this habit helps with the goal
+- Don't repeat habits they already track${locale === DEFAULT_LOCALE ? '' : `
+- Write habit_name and reasons in ${getLanguageName(locale)}; keep the JSON keys, category and difficulty in English`}`;
+}
+
+export async function getHabitPlan(context: HabitPlanContext): Promise<AiCompletion> {
+  const prompt = generateHabitPlanPrompt(context);
+  return await complete('habit-plan', prompt);
+}
+
+export function generateTextAnalysisPrompt(text: string): string {
+  return `Analyze this journal entry a user wrote about their habit.
+
+Entry: "${text}"
+
+Reply with JSON only, in this shape:
+{"sentiment": "positive", "obstacles": ["tired"], "themes": ["morning routine"]}
+
+- sentiment: positive, neutral, negative or mixed
+- obstacles: things that got in the way, as 1-2 word lowercase tags (e.g. tired, travel, busy at work, sick). Empty if none.
+- themes: other topics they wrote about, as 1-3 word lowercase tags. At most 3.`;
+}
+
+export function generateMonthlySummaryPrompt(data: MonthlySummaryContext): string {
+  const { month, entries, topObstacles, topThemes } = data;
+
+  const entryLines = entries.map(e =>
+    `- ${e.date} (${e.habitName}, ${e.kind === 'note' ? 'check-in note' : 'weekly reflection'}): ${e.text}`
+  ).join('\n');
+
+  return `You are a thoughtful habit coach. Here is everything a user wrote about their habits in ${month}.
+
+${entryLines}
+${topObstacles.length > 0 ? `\nMost mentioned obstacles: ${topObstacles.join(', ')}` : ''}${topThemes.length > 0 ? `\nMost mentioned themes: ${topThemes.join(', ')}` : ''}
+
+Write a "what you wrote about" summary (100-200 words) that:
+1. Reflects back the main things on their mind this month, in their own terms
+2. Notes how their mood changed over the month, if it did
+3. Names the obstacles that came up most and one idea for handling the biggest one
+4. Is warm and specific - quote or paraphrase their words rather than giving generic advice${languageInstruction(data.locale)}`;
+}
+
+export async function getTextAnalysis(text: string): Promise<AiCompletion> {
+  const prompt = generateTextAnalysisPrompt(text);
+  return await complete('text-analysis', prompt);
+}
+
+export async function getMonthlySummary(context: MonthlySummaryContext, onText?: TextListener): Promise<AiCompletion> {
+  const prompt = generateMonthlySummaryPrompt(context);
+  return await complete('monthly-summary', prompt, onText, context.locale);
+}
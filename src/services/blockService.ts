@@ -0,0 +1,37 @@
+import { Block, Partnership, repositories } from '../repositories';
+
+export async function isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+  return (await repositories.blocks.findBetween(userId, otherUserId)) !== null;
+}
+
+// Users the user blocked or was blocked by; they stay out of each other's way
+export async function getBlockedUserIds(userId: string): Promise<Set<string>> {
+  const blocks = await repositories.blocks.listForUser(userId);
+  return new Set(blocks.map(b => b.blocker_id === userId ? b.blocked_id : b.blocker_id));
+}
+
+// Blocks the user and ends anything between the two of them: an active
+// partnership is ended (which also stops messages and nudges) and pending
+// requests either way are declined. The blocked user isn't told.
+export async function blockUser(blockerId: string, blockedId: string): Promise<Block> {
+  const block = await repositories.blocks.create({ blocker_id: blockerId, blocked_id: blockedId });
+
+  const between = (p: Partnership) =>
+    (p.requester_id === blockerId && p.receiver_id === blockedId) ||
+    (p.requester_id === blockedId && p.receiver_id === blockerId);
+
+  for (const partnership of await repositories.partnerships.listAcceptedForUser(blockerId)) {
+    if (!between(partnership)) continue;
+    await repositories.partnerships.update(partnership.id, {
+      status: 'ended',
+      ended_at: new Date().toISOString()
+    });
+  }
+
+  for (const partnership of await repositories.partnerships.listPendingForUser(blockerId)) {
+    if (!between(partnership)) continue;
+    await repositories.partnerships.update(partnership.id, { status: 'declined' });
+  }
+
+  return block;
+}
@@ -0,0 +1,203 @@
+import { randomInt } from 'crypto';
+import { CheckIn, Circle, CircleMember, CircleMessage, Habit, repositories } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+import { getBlockedUserIds } from './blockService';
+import { getLocalDate } from './dateService';
+import { createNotification } from './notificationService';
+import { publishEvent } from './realtimeService';
+
+// Circles are meant for small groups of 3-8; they start with just the
+// owner and fill up through invites
+export const MAX_CIRCLE_MEMBERS = 8;
+export const MAX_CIRCLES_PER_USER = 5;
+export const MAX_CIRCLE_NAME_LENGTH = 60;
+export const MAX_CIRCLE_MESSAGE_LENGTH = 500;
+
+// No 0/O or 1/I so codes survive being read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export interface MemberStatus {
+  user_id: string;
+  display_name: string;
+  role: CircleMember['role'];
+  joined_at?: string;
+  checked_in_today: boolean;
+  habits: { habit_id: string; habit_name: string; category: string; completed: boolean }[];
+}
+
+export interface CircleStatus {
+  members: MemberStatus[];
+  checked_in: number;
+  total: number;
+}
+
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Case, spaces and dashes don't matter when typing a code in
+export function normalizeInviteCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const code = value.toUpperCase().replace(/[\s-]/g, '');
+  return code.length === INVITE_CODE_LENGTH ? code : null;
+}
+
+export function parseCircleName(value: unknown): { value?: string; error?: ApiError } {
+  const name = typeof value === 'string' ? value.trim() : '';
+
+  if (!name) {
+    return { error: apiError('CIRCLE_NAME_REQUIRED') };
+  }
+  if (name.length > MAX_CIRCLE_NAME_LENGTH) {
+    return { error: apiError('CIRCLE_NAME_TOO_LONG', { max: MAX_CIRCLE_NAME_LENGTH }) };
+  }
+  return { value: name };
+}
+
+// Held and rejected messages are only shown to their sender
+export function isCircleMessageVisibleTo(message: CircleMessage, userId: string): boolean {
+  return message.user_id === userId || (message.moderation_status || 'approved') === 'approved';
+}
+
+function isShared(habit: Habit): boolean {
+  return ['public', 'partner-only'].includes(habit.privacy_setting);
+}
+
+// What each member did today, in their own timezone. Only habits they
+// share with partners are shown or counted.
+export async function getCircleStatus(members: CircleMember[], now: Date = new Date()): Promise<CircleStatus> {
+  const userIds = members.map(m => m.user_id);
+  const profiles = await repositories.profiles.findByIds(userIds);
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+
+  const todayByUser = new Map(userIds.map(id => [id, getLocalDate(profilesById.get(id)?.timezone, now)]));
+  const days = Array.from(todayByUser.values()).sort();
+  const checkIns = await repositories.checkIns.listForUsers(userIds, { from: days[0], to: days[days.length - 1] });
+
+  const statuses: MemberStatus[] = [];
+  for (const member of members) {
+    const today = todayByUser.get(member.user_id);
+    const completed = new Set(
+      checkIns.filter(c => c.user_id === member.user_id && c.date === today && c.completed).map(c => c.habit_id)
+    );
+    const habits = (await repositories.habits.listActive(member.user_id))
+      .filter(isShared)
+      .map(h => ({ habit_id: h.id, habit_name: h.habit_name, category: h.category, completed: completed.has(h.id) }));
+
+    statuses.push({
+      user_id: member.user_id,
+      display_name: profilesById.get(member.user_id)?.display_name || 'Unknown',
+      role: member.role,
+      joined_at: member.created_at,
+      checked_in_today: habits.some(h => h.completed),
+      habits
+    });
+  }
+
+  return {
+    members: statuses,
+    checked_in: statuses.filter(s => s.checked_in_today).length,
+    total: statuses.length
+  };
+}
+
+// Removes the member. The longest-standing member takes over a circle its
+// last owner leaves, and an empty circle is deleted.
+export async function removeCircleMember(circle: Circle, member: CircleMember) {
+  await repositories.circles.removeMember(member.id);
+
+  const remaining = await repositories.circles.listMembers(circle.id);
+
+  if (remaining.length === 0) {
+    await repositories.circles.delete(circle.id);
+  } else if (!remaining.some(m => m.role === 'owner')) {
+    await repositories.circles.updateMember(remaining[0].id, { role: 'owner' });
+  }
+}
+
+export async function notifyCircleMembers(
+  circle: Circle,
+  excludeUserId: string | null,
+  type: string,
+  message: string
+) {
+  const members = await repositories.circles.listMembers(circle.id);
+
+  for (const member of members) {
+    if (member.user_id === excludeUserId) continue;
+    await createNotification({ user_id: member.user_id, type, title: circle.name, message });
+  }
+}
+
+// Pushes an approved message to the other members' open streams, skipping
+// anyone on either side of a block with the sender
+export async function publishCircleMessage(message: CircleMessage) {
+  const members = await repositories.circles.listMembers(message.circle_id);
+  const sender = await repositories.profiles.findById(message.user_id);
+  const blocked = await getBlockedUserIds(message.user_id);
+
+  for (const member of members) {
+    if (member.user_id === message.user_id || blocked.has(member.user_id)) continue;
+    await publishEvent(member.user_id, 'circle-message', {
+      ...message,
+      user: { display_name: sender?.display_name }
+    });
+  }
+}
+
+// Live counts go to every member on each member's first check-in of the
+// day; notifications only when half and then all of the circle are done.
+async function updateCircles(habit: Habit, checkIn: CheckIn) {
+  if (!isShared(habit) || checkIn.backfilled) return;
+
+  const circles = await repositories.circles.listForUser(checkIn.user_id);
+  if (circles.length === 0) return;
+
+  const sharedIds = new Set((await repositories.habits.listActive(checkIn.user_id)).filter(isShared).map(h => h.id));
+  const completedToday = (await repositories.checkIns.listForUser(checkIn.user_id, { from: checkIn.date, to: checkIn.date }))
+    .filter(c => c.completed && sharedIds.has(c.habit_id));
+  if (completedToday.length > 1) return;
+
+  const profile = await repositories.profiles.findById(checkIn.user_id);
+  const name = profile?.display_name || 'A member';
+
+  for (const circle of circles) {
+    const members = await repositories.circles.listMembers(circle.id);
+    const { checked_in, total } = await getCircleStatus(members);
+
+    for (const member of members) {
+      await publishEvent(member.user_id, 'circle-checkin', {
+        circle_id: circle.id,
+        user_id: checkIn.user_id,
+        display_name: profile?.display_name,
+        checked_in,
+        total
+      });
+    }
+
+    if (total < 2) continue;
+
+    if (checked_in === total) {
+      await notifyCircleMembers(circle, checkIn.user_id, 'circle-progress', `Everyone in ${circle.name} checked in today! 🎉`);
+    } else if (checked_in === Math.ceil(total / 2)) {
+      await notifyCircleMembers(
+        circle,
+        checkIn.user_id,
+        'circle-progress',
+        `${name} just checked in - ${checked_in}/${total} of ${circle.name} checked in today.`
+      );
+    }
+  }
+}
+
+// Runs in the background so the check-in response isn't held up
+export function queueCircleCheckInUpdates(habit: Habit, checkIn: CheckIn) {
+  updateCircles(habit, checkIn).catch(error => {
+    console.error(`Error updating circles for habit ${habit.id}:`, error);
+  });
+}
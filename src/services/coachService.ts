@@ -0,0 +1,205 @@
+import { AiResponse, Conversation, ConversationMessage, Habit, repositories } from '../repositories';
+import { ApiError, DEFAULT_LOCALE, parseLocale } from '../i18n';
+import { getOrCreateAiResponse, startAiResponse, waitForAiResponse } from './aiResponseService';
+import { CoachContext, generateCoachSystemPrompt, getCoachReply, summarizeCoachConversation } from './aiService';
+import { addDays, getUserToday, getWeekdayName } from './dateService';
+import { describeSchedule, normalizeSchedule } from './scheduleService';
+import { getHabitStats } from './streakService';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// Token budget for the turns sent verbatim; older turns are folded into the
+// conversation summary
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.AI_CHAT_HISTORY_TOKENS || '2000');
+// Most recent messages that are always sent verbatim
+const MIN_RECENT_MESSAGES = 4;
+const RECENT_CHECKIN_DAYS = 14;
+const MAX_REFLECTIONS = 4;
+
+// Rough count for budgeting; about four characters per token in English
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function buildHabitContext(habit: Habit, today: string) {
+  const stats = await getHabitStats(habit, today);
+  const checkIns = await repositories.checkIns.listForHabit(habit.id, {
+    from: addDays(today, -(RECENT_CHECKIN_DAYS - 1)),
+    to: today
+  });
+
+  return {
+    habitName: habit.habit_name,
+    category: habit.category,
+    schedule: describeSchedule(normalizeSchedule(habit.schedule)),
+    target: habit.target_value ? `${habit.target_value}${habit.unit ? ` ${habit.unit}` : ''} per day` : null,
+    currentStreak: stats.current_streak,
+    longestStreak: stats.longest_streak,
+    totalCheckIns: stats.total_checkins,
+    recentCheckIns: checkIns.map(c => ({
+      date: c.date,
+      weekday: getWeekdayName(c.date),
+      completed: c.completed,
+      time: c.check_in_time,
+      notes: c.notes
+    }))
+  };
+}
+
+// Built fresh for every turn so the coach sees the latest check-ins
+async function buildCoachContext(conversation: Conversation): Promise<CoachContext> {
+  const { user_id: userId, habit_id: habitId } = conversation;
+  const profile = await repositories.profiles.findById(userId);
+  const today = await getUserToday(userId);
+
+  let habits: Habit[];
+  if (habitId) {
+    const habit = await repositories.habits.findByIdForUser(habitId, userId);
+    habits = habit ? [habit] : [];
+  } else {
+    habits = await repositories.habits.listActive(userId);
+  }
+
+  const habitContexts = [];
+  for (const habit of habits) {
+    habitContexts.push(await buildHabitContext(habit, today));
+  }
+
+  // Only reflections the user chose to share
+  const reflections = (await repositories.reflections.listForUser(userId, habitId || undefined))
+    .filter(r => r.share_with_partner && r.reflection_text)
+    .slice(0, MAX_REFLECTIONS)
+    .map(r => ({ weekStart: r.week_start_date, text: r.reflection_text! }));
+
+  return {
+    locale: parseLocale(profile?.locale) || DEFAULT_LOCALE,
+    displayName: profile?.display_name || 'the user',
+    today,
+    habits: habitContexts,
+    reflections
+  };
+}
+
+// Folds the oldest unsummarized turns into the summary until the rest fits
+// the budget, always keeping the most recent messages verbatim
+async function compactHistory(
+  conversation: Conversation,
+  messages: ConversationMessage[]
+): Promise<Conversation> {
+  const tokensFrom = (index: number) =>
+    messages.slice(index).reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+  let cut = conversation.summarized_count;
+  while (cut < messages.length - MIN_RECENT_MESSAGES && tokensFrom(cut) > HISTORY_TOKEN_BUDGET) {
+    cut++;
+  }
+
+  if (cut === conversation.summarized_count) {
+    return conversation;
+  }
+
+  const turns = messages.slice(conversation.summarized_count, cut).map(m => ({ role: m.role, content: m.content }));
+  const { response } = await getOrCreateAiResponse({
+    userId: conversation.user_id,
+    habitId: conversation.habit_id,
+    type: 'chat-summary',
+    context: { conversation_id: conversation.id, summarized_count: cut },
+    cacheContext: { conversation_id: conversation.id, summarized_count: cut },
+    generate: () => summarizeCoachConversation(conversation.summary, turns),
+    enforceQuota: false
+  });
+
+  // Keep the old summary and history if summarizing failed
+  if (!response?.ai_message) {
+    return conversation;
+  }
+
+  return repositories.conversations.update(conversation.id, {
+    summary: response.ai_message,
+    summarized_count: cut
+  });
+}
+
+export async function startConversation(userId: string, habitId: string | null, firstMessage: string) {
+  return repositories.conversations.create({
+    user_id: userId,
+    habit_id: habitId,
+    title: firstMessage.length > 60 ? `${firstMessage.slice(0, 57)}...` : firstMessage,
+    summary: null,
+    summarized_count: 0,
+    updated_at: new Date().toISOString()
+  });
+}
+
+// Stores the user's message and starts generating the coach's reply. The
+// reply is added to the conversation once it's complete.
+export async function startCoachReply(
+  conversation: Conversation,
+  content: string
+): Promise<{ response?: AiResponse; cached?: boolean; error?: ApiError; reply?: Promise<ConversationMessage | null> }> {
+  const userMessage = await repositories.conversations.addMessage({
+    conversation_id: conversation.id,
+    user_id: conversation.user_id,
+    role: 'user',
+    content
+  });
+
+  const messages = await repositories.conversations.listMessages(conversation.id);
+  const compacted = await compactHistory(conversation, messages);
+  const history = messages.slice(compacted.summarized_count).map(m => ({ role: m.role, content: m.content }));
+  const coachContext = await buildCoachContext(compacted);
+  const systemPrompt = generateCoachSystemPrompt(coachContext);
+
+  const started = await startAiResponse({
+    userId: conversation.user_id,
+    habitId: conversation.habit_id,
+    type: 'chat',
+    context: { conversation_id: conversation.id, message_id: userMessage.id },
+    cacheContext: { conversation_id: conversation.id, message_id: userMessage.id },
+    generate: onText => getCoachReply(systemPrompt, compacted.summary, history, coachContext.locale, onText)
+  });
+
+  if (!started.response) {
+    return started;
+  }
+
+  const reply = waitForAiResponse(started.response.id)
+    .then(async response => {
+      if (!response) return null;
+
+      const message = await repositories.conversations.addMessage({
+        conversation_id: conversation.id,
+        user_id: conversation.user_id,
+        role: 'assistant',
+        content: response.ai_message,
+        ai_response_id: response.id
+      });
+      await repositories.conversations.update(conversation.id, { updated_at: new Date().toISOString() });
+      return message;
+    })
+    .catch(error => {
+      console.error('Error saving coach reply:', error);
+      return null;
+    });
+
+  return { ...started, reply };
+}
+
+// Adds the user's message and the coach's reply to the conversation
+export async function sendCoachMessage(
+  conversation: Conversation,
+  content: string
+): Promise<{ reply?: ConversationMessage; error?: ApiError }> {
+  const { reply, error } = await startCoachReply(conversation, content);
+
+  if (error) {
+    return { error };
+  }
+
+  const message = await reply;
+  if (!message) {
+    throw new Error('Failed to generate coach reply');
+  }
+
+  return { reply: message };
+}
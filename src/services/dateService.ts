@@ -0,0 +1,167 @@
+import { repositories } from '../repositories';
+
+// Calendar dates are handled as 'YYYY-MM-DD' strings in the user's timezone.
+// Arithmetic on them is done in UTC so DST transitions never shift a day.
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface LocalDateTime {
+  date: string;
+  time: string;
+  minutes: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// Wall clock date and time for an instant in the given timezone
+export function getLocalDateTime(timezone?: string | null, now: Date = new Date()): LocalDateTime {
+  const parts: { [type: string]: string } = {};
+  for (const part of getFormatter(resolveTimezone(timezone)).formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+
+  const hours = parseInt(parts.hour);
+  const minutes = parseInt(parts.minute);
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+    minutes: hours * 60 + minutes
+  };
+}
+
+export function getLocalDate(timezone?: string | null, now: Date = new Date()): string {
+  return getLocalDateTime(timezone, now).date;
+}
+
+export function getLocalTime(timezone?: string | null, now: Date = new Date()): string {
+  return getLocalDateTime(timezone, now).time;
+}
+
+// 'HH:MM' on a 24-hour clock
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+// Whether minutes after midnight fall between two 'HH:MM' times. Windows
+// that wrap past midnight, like 22:00-07:00, are supported.
+export function isWithinTimeWindow(minutes: number, start: string, end: string): boolean {
+  const toMinutes = (time: string) => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3, 5));
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+function toUtcMillis(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromUtcMillis(millis: number): string {
+  return new Date(millis).toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return fromUtcMillis(toUtcMillis(date) + days * 24 * 60 * 60 * 1000);
+}
+
+// A real calendar date in YYYY-MM-DD format
+export function isValidDate(date: any): boolean {
+  return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && addDays(date, 0) === date;
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcMillis(to) - toUtcMillis(from)) / (24 * 60 * 60 * 1000));
+}
+
+export function getDayOfWeek(date: string): number {
+  return new Date(toUtcMillis(date)).getUTCDay();
+}
+
+// Weeks start on Monday
+export function getWeekStart(date: string): string {
+  return addDays(date, -((getDayOfWeek(date) + 6) % 7));
+}
+
+export function getWeekdayName(date: string): string {
+  return DAY_NAMES[getDayOfWeek(date)];
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+// Offset of the timezone from UTC (in ms) at the given instant
+function getTimezoneOffset(timezone: string, instant: number): number {
+  const local = getLocalDateTime(timezone, new Date(instant));
+  const [hours, minutes, seconds] = local.time.split(':').map(Number);
+  const localAsUtc = toUtcMillis(local.date) + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  return localAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Current offset of the timezone from UTC, in minutes
+export function getUtcOffsetMinutes(timezone?: string | null, now: Date = new Date()): number {
+  return Math.round(getTimezoneOffset(resolveTimezone(timezone), now.getTime()) / 60000);
+}
+
+// UTC instant at which the given local calendar day starts. The offset is
+// re-checked at the candidate instant so days next to a DST transition
+// (including zones that skip midnight entirely) resolve to the right hour.
+export function getLocalDayStart(timezone: string | null | undefined, date: string): Date {
+  const zone = resolveTimezone(timezone);
+  const midnightAsUtc = toUtcMillis(date);
+  const firstCandidate = midnightAsUtc - getTimezoneOffset(zone, midnightAsUtc);
+  const secondCandidate = midnightAsUtc - getTimezoneOffset(zone, firstCandidate);
+
+  const candidates = [firstCandidate, secondCandidate]
+    .filter(candidate => getLocalDate(zone, new Date(candidate)) === date);
+
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : firstCandidate);
+}
+
+export async function getUserTimezone(userId: string): Promise<string> {
+  const profile = await repositories.profiles.findById(userId);
+  return resolveTimezone(profile?.timezone);
+}
+
+export async function getUserToday(userId: string): Promise<string> {
+  const timezone = await getUserTimezone(userId);
+  return getLocalDate(timezone);
+}
@@ -0,0 +1,28 @@
+import { Response } from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export type SendEvent = (event: string, data: object, id?: string) => void;
+
+// Switches the response to server-sent events and returns a function that
+// sends one event. Comments are written while idle so proxies keep the
+// connection open. An id is echoed back by the client as Last-Event-ID
+// when it reconnects.
+export function openEventStream(res: Response): SendEvent {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Stops nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+  res.on('close', () => clearInterval(heartbeat));
+
+  return (event, data, id) => {
+    const idLine = id !== undefined ? `id: ${id}\n` : '';
+    res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
@@ -0,0 +1,75 @@
+import { AiFeedback, repositories } from '../repositories';
+import { getPromptWeights, PROMPT_NAMES } from '../prompts';
+import { ApiError, apiError } from '../i18n';
+
+export const MAX_FEEDBACK_REASON_LENGTH = 200;
+
+const TOP_REASON_COUNT = 5;
+
+export function parseFeedback(input: any): { feedback?: { helpful: boolean; reason: string | null }; error?: ApiError } {
+  const { helpful, reason } = input || {};
+
+  if (typeof helpful !== 'boolean') {
+    return { error: apiError('FEEDBACK_HELPFUL_REQUIRED') };
+  }
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    return { error: apiError('FEEDBACK_REASON_INVALID') };
+  }
+
+  const trimmed = reason?.trim() || '';
+  if (trimmed.length > MAX_FEEDBACK_REASON_LENGTH) {
+    return { error: apiError('FEEDBACK_REASON_TOO_LONG', { max: MAX_FEEDBACK_REASON_LENGTH }) };
+  }
+
+  return { feedback: { helpful, reason: trimmed || null } };
+}
+
+function getTopReasons(feedback: AiFeedback[]): { reason: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const { reason } of feedback) {
+    if (!reason) continue;
+    const key = reason.toLowerCase();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  return Array.from(counts, ([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_REASON_COUNT);
+}
+
+// Responses and feedback per prompt template version since the given time
+export async function getPromptReport(since: Date) {
+  const responses = await repositories.aiResponses.listSince(since);
+  const feedback = await repositories.aiFeedback.listSince(since);
+
+  const feedbackByResponse = new Map<string, AiFeedback[]>();
+  for (const item of feedback) {
+    const list = feedbackByResponse.get(item.ai_response_id) || [];
+    list.push(item);
+    feedbackByResponse.set(item.ai_response_id, list);
+  }
+
+  const templates: { [name: string]: object[] } = {};
+  for (const name of PROMPT_NAMES) {
+    templates[name] = getPromptWeights(name).map(({ version, weight }) => {
+      const versionResponses = responses.filter(r =>
+        r.context?.prompt_template === name && r.context?.prompt_version === version
+      );
+      const versionFeedback = versionResponses.flatMap(r => feedbackByResponse.get(r.id) || []);
+      const helpful = versionFeedback.filter(f => f.helpful).length;
+
+      return {
+        version,
+        weight,
+        responses: versionResponses.length,
+        feedback: versionFeedback.length,
+        helpful,
+        not_helpful: versionFeedback.length - helpful,
+        helpful_rate: versionFeedback.length > 0 ? Math.round((helpful / versionFeedback.length) * 100) / 100 : null,
+        not_helpful_reasons: getTopReasons(versionFeedback.filter(f => !f.helpful))
+      };
+    });
+  }
+
+  return { templates };
+}
@@ -0,0 +1,133 @@
+import { AiResponse, repositories } from '../repositories';
+import { ApiError } from '../i18n';
+import { getOrCreateAiResponse } from './aiResponseService';
+import { getHabitPlan, parseJsonReply } from './aiService';
+import { addDays, getUserToday, isValidDate } from './dateService';
+import { HABIT_CATEGORIES, parseNewHabit } from './habitService';
+import { getUserLocale } from './localeService';
+
+export const MAX_GOAL_LENGTH = 500;
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const MAX_SUGGESTIONS = 3;
+const MAX_REASONS = 3;
+// Suggested start dates further out than this fall back to today
+const MAX_START_DAYS_AHEAD = 30;
+
+export interface HabitSuggestion {
+  habit_name: string;
+  category: string;
+  start_date: string;
+  difficulty: string;
+  reasons: string[];
+}
+
+export interface HabitPlan {
+  id: string;
+  goal: string;
+  suggestions: HabitSuggestion[];
+  created_at?: string;
+}
+
+// Keeps only suggestions that would pass POST /api/habits, normalizing what
+// can be fixed (category case, out-of-range dates) and dropping the rest
+export function parseHabitPlan(text: string, today: string, existingHabits: string[] = []): HabitSuggestion[] {
+  const parsed = parseJsonReply(text);
+  if (!parsed || !Array.isArray(parsed.suggestions)) return [];
+
+  const taken = new Set(existingHabits.map(name => name.toLowerCase()));
+  const suggestions: HabitSuggestion[] = [];
+
+  for (const item of parsed.suggestions) {
+    if (!item || typeof item !== 'object') continue;
+
+    const habitName = typeof item.habit_name === 'string' ? item.habit_name.trim() : '';
+    const category = HABIT_CATEGORIES.find(c => c.toLowerCase() === String(item.category).trim().toLowerCase());
+
+    let startDate = today;
+    if (isValidDate(item.start_date) && item.start_date > today && item.start_date <= addDays(today, MAX_START_DAYS_AHEAD)) {
+      startDate = item.start_date;
+    }
+
+    const { error } = parseNewHabit({ habit_name: habitName, category, start_date: startDate });
+    if (error || taken.has(habitName.toLowerCase())) continue;
+    taken.add(habitName.toLowerCase());
+
+    const reasons = (Array.isArray(item.reasons) ? item.reasons : [item.reasons])
+      .filter((r: any) => typeof r === 'string' && r.trim())
+      .map((r: string) => r.trim())
+      .slice(0, MAX_REASONS);
+
+    suggestions.push({
+      habit_name: habitName,
+      category: category!,
+      start_date: startDate,
+      difficulty: DIFFICULTIES.includes(item.difficulty) ? item.difficulty : 'easy',
+      reasons
+    });
+
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+
+  return suggestions;
+}
+
+function getHabitPlanFromResponse(response: AiResponse): HabitPlan {
+  const suggestions = parseJsonReply(response.ai_message)?.suggestions;
+
+  return {
+    id: response.id,
+    goal: response.context?.goal || '',
+    suggestions: Array.isArray(suggestions) ? suggestions : [],
+    created_at: response.created_at
+  };
+}
+
+export async function generateHabitPlan(
+  userId: string,
+  goal: string
+): Promise<{ plan?: HabitPlan; cached?: boolean; error?: ApiError }> {
+  const today = await getUserToday(userId);
+  const existingHabits = (await repositories.habits.listActive(userId)).map(h => h.habit_name);
+  const locale = await getUserLocale(userId);
+
+  const { response, cached, error } = await getOrCreateAiResponse({
+    userId,
+    habitId: null,
+    type: 'habit-plan',
+    context: { goal },
+    cacheContext: { goal: goal.toLowerCase(), date: today, existing_habits: existingHabits, locale },
+    generate: async () => {
+      const completion = await getHabitPlan({ locale, goal, today, categories: HABIT_CATEGORIES, existingHabits });
+      const suggestions = parseHabitPlan(completion.text, today, existingHabits);
+
+      // Stored validated; an unusable reply isn't cached so a retry asks again
+      return {
+        ...completion,
+        text: JSON.stringify({ suggestions }),
+        fallback: completion.fallback || suggestions.length === 0
+      };
+    }
+  });
+
+  if (error) {
+    return { error };
+  }
+
+  return { plan: getHabitPlanFromResponse(response!), cached };
+}
+
+export async function findHabitPlan(userId: string, planId: string): Promise<HabitPlan | null> {
+  const response = await repositories.aiResponses.findById(planId);
+
+  if (!response || response.user_id !== userId || response.response_type !== 'habit-plan') {
+    return null;
+  }
+
+  // Pending and failed plans have no suggestions to accept yet
+  if ((response.status || 'completed') !== 'completed') {
+    return null;
+  }
+
+  return getHabitPlanFromResponse(response);
+}
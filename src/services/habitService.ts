@@ -0,0 +1,150 @@
+import { Habit, repositories } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+import { addDays, isValidDate } from './dateService';
+import { DEFAULT_GRACE_DAYS, DEFAULT_SCHEDULE, HabitSchedule, isValidGraceDays, MAX_GRACE_DAYS, parseSchedule } from './scheduleService';
+import { aggregateEntries, HabitTarget, isQuantitative, parseTarget } from './targetService';
+
+export const HABIT_CATEGORIES = ['Health', 'Learning', 'Creativity', 'Productivity', 'Wellness'];
+export const PRIVACY_SETTINGS = ['public', 'partner-only', 'private'];
+export const MAX_HABIT_NAME_LENGTH = 100;
+// Streaks are walked from the start date, so it can't go back indefinitely
+export const MAX_START_DATE_PAST_DAYS = 365;
+
+const DEFAULT_MAX_ACTIVE_HABITS = 3;
+
+// Anything but a positive whole number keeps the default, so a typo can't lift the cap
+function getMaxActiveHabits(): number {
+  const configured = Number(process.env.MAX_ACTIVE_HABITS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ACTIVE_HABITS;
+}
+
+const MAX_ACTIVE_HABITS = getMaxActiveHabits();
+
+export interface NewHabit extends HabitTarget {
+  habit_name: string;
+  category: string;
+  start_date?: string;
+  privacy_setting: string;
+  schedule: HabitSchedule;
+  grace_days: number;
+  auto_freeze: boolean;
+}
+
+export function isValidHabitName(name: any): boolean {
+  return typeof name === 'string' && name.length > 0 && name.length <= MAX_HABIT_NAME_LENGTH;
+}
+
+// Validates the fields of a new habit request
+export function parseNewHabit(input: any): { habit?: NewHabit; error?: ApiError } {
+  const {
+    habit_name,
+    category,
+    start_date,
+    privacy_setting,
+    schedule,
+    target_value,
+    grace_days,
+    auto_freeze
+  } = input;
+
+  if (!habit_name || !category) {
+    return { error: apiError('HABIT_NAME_AND_CATEGORY_REQUIRED') };
+  }
+
+  if (!isValidHabitName(habit_name)) {
+    return { error: apiError('HABIT_NAME_TOO_LONG', { max: MAX_HABIT_NAME_LENGTH }) };
+  }
+
+  if (!HABIT_CATEGORIES.includes(category)) {
+    return { error: apiError('INVALID_CATEGORY') };
+  }
+
+  if (start_date && !isValidDate(start_date)) {
+    return { error: apiError('INVALID_START_DATE', { days: MAX_START_DATE_PAST_DAYS }) };
+  }
+
+  if (privacy_setting !== undefined && !PRIVACY_SETTINGS.includes(privacy_setting)) {
+    return { error: apiError('INVALID_PRIVACY_SETTING') };
+  }
+
+  let habitSchedule = DEFAULT_SCHEDULE;
+  if (schedule !== undefined) {
+    const parsed = parseSchedule(schedule);
+    if (parsed.error) {
+      return { error: parsed.error };
+    }
+    habitSchedule = parsed.schedule!;
+  }
+
+  if (grace_days !== undefined && !isValidGraceDays(grace_days)) {
+    return { error: apiError('INVALID_GRACE_DAYS', { max: MAX_GRACE_DAYS }) };
+  }
+
+  if (auto_freeze !== undefined && typeof auto_freeze !== 'boolean') {
+    return { error: apiError('INVALID_AUTO_FREEZE') };
+  }
+
+  // Quantitative habits track a numeric target instead of done/not done
+  let target: HabitTarget = { target_value: null, unit: null, aggregation: null };
+  if (target_value !== undefined) {
+    const parsed = parseTarget(input);
+    if (parsed.error) {
+      return { error: parsed.error };
+    }
+    target = parsed.target!;
+  }
+
+  return {
+    habit: {
+      habit_name,
+      category,
+      start_date: start_date || undefined,
+      privacy_setting: privacy_setting || 'partner-only',
+      schedule: habitSchedule,
+      ...target,
+      grace_days: grace_days ?? DEFAULT_GRACE_DAYS,
+      auto_freeze: auto_freeze ?? true
+    }
+  };
+}
+
+// Creates the habit at the end of the user's list, unless they've reached
+// the active habit cap
+export async function createHabit(
+  userId: string,
+  habit: NewHabit,
+  today: string
+): Promise<{ habit?: Habit; error?: ApiError }> {
+  if (habit.start_date && habit.start_date < addDays(today, -MAX_START_DATE_PAST_DAYS)) {
+    return { error: apiError('INVALID_START_DATE', { days: MAX_START_DATE_PAST_DAYS }) };
+  }
+
+  const activeHabits = await repositories.habits.listActive(userId);
+
+  if (activeHabits.length >= MAX_ACTIVE_HABITS) {
+    return { error: apiError('ACTIVE_HABIT_LIMIT', { max: MAX_ACTIVE_HABITS }) };
+  }
+
+  const sortOrder = activeHabits.reduce((max, h) => Math.max(max, (h.sort_order ?? -1) + 1), 0);
+
+  const data = await repositories.habits.create({
+    user_id: userId,
+    ...habit,
+    start_date: habit.start_date || today,
+    sort_order: sortOrder,
+    is_active: true
+  });
+
+  return { habit: data };
+}
+
+// Target changes apply from today on: today's logged entries are scored
+// again against the new target, while days before today keep the completion
+// they were logged with
+export async function applyTargetChange(habit: Habit, today: string) {
+  const checkIn = await repositories.checkIns.findByDate(habit.id, today);
+  if (!checkIn || !isQuantitative(habit) || !checkIn.entries?.length) return;
+
+  const value = aggregateEntries(habit.aggregation || 'sum', checkIn.entries);
+  await repositories.checkIns.update(checkIn.id, { value, completed: value >= habit.target_value! });
+}
@@ -0,0 +1,191 @@
+import cron from 'node-cron';
+import { Habit, repositories } from '../repositories';
+import { AiRequest, getOrCreateAiResponse } from './aiResponseService';
+import { getWeeklyInsight } from './aiService';
+import { addDays, getDayOfWeek, getLocalDateTime, getLocalDayStart, getWeekdayName } from './dateService';
+import { getUserLocale } from './localeService';
+import { createNotification } from './notificationService';
+import { getTopObstacles, queueMissingTags } from './textAnalysisService';
+
+// Weeks run Monday to Sunday; insights go out on Sunday evening local time
+const WEEK_END_DAY = 0;
+const INSIGHT_TIME = process.env.WEEKLY_INSIGHT_TIME || '20:00';
+
+let isRunning = false;
+
+// The AI request for the insight on the seven days ending today. Scheduled
+// insights aren't limited by the user's quota and are stored apart from ones
+// the user asks for, so the scheduler can tell whether it has sent one.
+export async function buildWeeklyInsightRequest(habit: Habit, today: string, scheduled = false): Promise<AiRequest> {
+  const weekStart = addDays(today, -6);
+  const checkIns = await repositories.checkIns.listForHabit(habit.id, { from: weekStart, to: today });
+
+  const weekCheckIns: boolean[] = [];
+  const checkInTimes: string[] = [];
+  const dayCounts: { [key: string]: { success: number; total: number } } = {};
+
+  for (let i = 0; i < 7; i++) {
+    const dateStr = addDays(weekStart, i);
+    const dayName = getWeekdayName(dateStr);
+
+    const checkIn = checkIns.find(c => c.date === dateStr);
+    const completed = checkIn?.completed || false;
+    weekCheckIns.push(completed);
+    checkInTimes.push(checkIn?.check_in_time || 'skip');
+
+    if (!dayCounts[dayName]) {
+      dayCounts[dayName] = { success: 0, total: 0 };
+    }
+    dayCounts[dayName].total++;
+    if (completed) dayCounts[dayName].success++;
+  }
+
+  // Find best and worst days
+  let bestDay = 'Monday';
+  let worstDay = 'Monday';
+  let bestRatio = 0;
+  let worstRatio = 1;
+
+  for (const [day, counts] of Object.entries(dayCounts)) {
+    const ratio = counts.total > 0 ? counts.success / counts.total : 0;
+    if (ratio > bestRatio) {
+      bestRatio = ratio;
+      bestDay = day;
+    }
+    if (ratio < worstRatio) {
+      worstRatio = ratio;
+      worstDay = day;
+    }
+  }
+
+  // Obstacles from this week's notes and reflections. Untagged ones are
+  // analyzed in the background and count from the next insight on.
+  const reflections = (await repositories.reflections.listForUser(habit.user_id, habit.id))
+    .filter(r => r.week_start_date >= weekStart && r.week_start_date <= today);
+  queueMissingTags(checkIns, reflections);
+  const topObstacles = getTopObstacles([...checkIns, ...reflections]);
+
+  // Get partner's check-ins if partnership exists
+  const partnership = await repositories.partnerships.findAcceptedForUser(habit.user_id);
+
+  let partnerCheckIns = 0;
+  if (partnership) {
+    const partnerId = partnership.requester_id === habit.user_id
+      ? partnership.receiver_id
+      : partnership.requester_id;
+
+    const partnerWeek = await repositories.checkIns.listForUser(partnerId, { from: weekStart, to: today });
+
+    // Partners may track several habits - count days with any completion
+    partnerCheckIns = new Set(partnerWeek.filter(c => c.completed).map(c => c.date)).size;
+  }
+
+  const locale = await getUserLocale(habit.user_id);
+
+  return {
+    userId: habit.user_id,
+    habitId: habit.id,
+    type: 'weekly-insight',
+    context: {
+      habit_id: habit.id,
+      week_start: weekStart,
+      weekCheckIns,
+      bestDay,
+      worstDay,
+      topObstacles,
+      ...(scheduled ? { scheduled } : {})
+    },
+    cacheContext: { habit_id: habit.id, week_start: weekStart, weekCheckIns, checkInTimes, partnerCheckIns, topObstacles, locale, scheduled },
+    generate: onText => getWeeklyInsight(habit.user_id, {
+      locale,
+      habitName: habit.habit_name,
+      weekCheckIns,
+      bestDay,
+      worstDay,
+      checkInTimes,
+      partnerCheckIns,
+      topObstacles
+    }, onText),
+    enforceQuota: !scheduled
+  };
+}
+
+// Generates and stores the insight for the seven days ending today
+export async function generateWeeklyInsight(habit: Habit, today: string, scheduled = false) {
+  return getOrCreateAiResponse(await buildWeeklyInsightRequest(habit, today, scheduled));
+}
+
+function parseInsightTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})/.exec(time);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : 20 * 60;
+}
+
+async function processUser(userId: string, timezone: string, habits: Habit[], now: Date) {
+  const local = getLocalDateTime(timezone, now);
+
+  // Only at the end of the user's week. Anything past the insight time on
+  // that day is still due, so a restart catches up on the next tick.
+  if (getDayOfWeek(local.date) !== WEEK_END_DAY || local.minutes < parseInsightTime(INSIGHT_TIME)) return;
+
+  // Skip users who didn't log anything this week
+  const weekCheckIns = await repositories.checkIns.listForUser(userId, { from: addDays(local.date, -6), to: local.date });
+  if (weekCheckIns.length === 0) return;
+
+  const localMidnight = getLocalDayStart(timezone, local.date);
+
+  // Insights the user asked for don't count, and failed ones are retried on
+  // the next tick
+  for (const habit of habits) {
+    try {
+      const alreadyGenerated = await repositories.aiResponses.existsScheduledForHabitSince(
+        habit.id,
+        'weekly-insight',
+        localMidnight
+      );
+      if (alreadyGenerated) continue;
+
+      const { response } = await generateWeeklyInsight(habit, local.date, true);
+      if (!response) continue;
+
+      await createNotification({
+        user_id: userId,
+        type: 'weekly-insight',
+        title: 'Your Weekly Insight',
+        message: `Your weekly insight for "${habit.habit_name}" is ready.`,
+        ai_response_id: response.id
+      });
+    } catch (habitError) {
+      console.error(`Error generating weekly insight for habit ${habit.id}:`, habitError);
+    }
+  }
+}
+
+export async function runWeeklyInsights(now: Date = new Date()) {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const habits = await repositories.habits.listAllActive();
+    const userIds = Array.from(new Set(habits.map(h => h.user_id)));
+    const profiles = await repositories.profiles.findByIds(userIds);
+
+    for (const profile of profiles) {
+      try {
+        await processUser(profile.id, profile.timezone, habits.filter(h => h.user_id === profile.id), now);
+      } catch (insightError) {
+        console.error(`Error generating weekly insights for user ${profile.id}:`, insightError);
+      }
+    }
+  } catch (error) {
+    console.error('Error running weekly insights:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startInsightScheduler() {
+  // Every 15 minutes covers users in half- and quarter-hour timezones
+  return cron.schedule('*/15 * * * *', () => {
+    runWeeklyInsights();
+  });
+}
@@ -0,0 +1,8 @@
+import { repositories } from '../repositories';
+import { DEFAULT_LOCALE, Locale, parseLocale } from '../i18n';
+
+// Language the user's AI messages are written in
+export async function getUserLocale(userId: string): Promise<Locale> {
+  const profile = await repositories.profiles.findById(userId);
+  return parseLocale(profile?.locale) || DEFAULT_LOCALE;
+}
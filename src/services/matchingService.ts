@@ -0,0 +1,266 @@
+import { CheckIn, Habit, Profile, repositories } from '../repositories';
+import { Locale, MatchReasonCode, translateMatchReason } from '../i18n';
+import { getBlockedUserIds } from './blockService';
+import { addDays, daysBetween, getLocalDate, getUtcOffsetMinutes } from './dateService';
+
+export const DEFAULT_MATCH_PAGE_SIZE = 20;
+export const MAX_MATCH_PAGE_SIZE = 50;
+
+// Check-ins from this many days back describe a user's routine
+const ACTIVITY_WINDOW_DAYS = 28;
+// Only this many of the newest visible habits are scored, so browsing costs
+// the same however many users there are
+const MAX_CANDIDATE_HABITS = 500;
+const MAX_REASONS = 3;
+
+// How much each signal counts towards the score; they add up to 1
+const WEIGHTS = {
+  category: 0.3,
+  interests: 0.15,
+  timezone: 0.2,
+  checkInTime: 0.15,
+  consistency: 0.2
+};
+
+// A signal at least this strong is worth explaining
+const REASON_THRESHOLD = 0.6;
+
+interface Activity {
+  // Typical local check-in time in minutes after midnight, null without data
+  typicalMinutes: number | null;
+  // Share of days in the window with a completed check-in
+  completionRate: number | null;
+}
+
+interface Reason {
+  code: MatchReasonCode;
+  params?: Record<string, string | number>;
+  weight: number;
+}
+
+export interface PartnerMatch {
+  user_id: string;
+  display_name: string;
+  score: number;
+  reasons: MatchReasonCode[];
+  explanation: string;
+  habits: { habit_id: string; habit_name: string; category: string; privacy_setting: string }[];
+}
+
+export interface MatchPage {
+  items: PartnerMatch[];
+  page: number;
+  limit: number;
+  total: number;
+  has_more: boolean;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes / 30) * 30 % (24 * 60);
+  return `${Math.floor(rounded / 60).toString().padStart(2, '0')}:${(rounded % 60).toString().padStart(2, '0')}`;
+}
+
+function getActivity(checkIns: CheckIn[], from: string, today: string, startDate: string | null): Activity {
+  const completed = checkIns.filter(c => c.completed);
+  const times = completed.filter(c => c.check_in_time).map(c => toMinutes(c.check_in_time!));
+
+  // Newer users are measured from the day they started
+  const firstDay = startDate && startDate > from ? startDate : from;
+  const days = daysBetween(firstDay, today) + 1;
+
+  return {
+    typicalMinutes: times.length > 0 ? median(times) : null,
+    completionRate: days > 0 ? Math.min(new Set(completed.map(c => c.date)).size / days, 1) : null
+  };
+}
+
+function earliestStart(habits: Habit[]): string | null {
+  return habits.reduce<string | null>((earliest, h) => !earliest || h.start_date < earliest ? h.start_date : earliest, null);
+}
+
+function scoreCandidate(
+  profile: Profile,
+  candidate: Profile,
+  categories: Set<string>,
+  candidateHabits: Habit[],
+  activity: Activity,
+  candidateActivity: Activity,
+  now: Date
+): { score: number; reasons: Reason[] } {
+  const reasons: Reason[] = [];
+  let score = 0;
+
+  const add = (weight: number, strength: number, reason?: Omit<Reason, 'weight'>) => {
+    score += weight * strength;
+    if (reason && strength >= REASON_THRESHOLD) reasons.push({ ...reason, weight: weight * strength });
+  };
+
+  const sharedCategory = candidateHabits.find(h => categories.has(h.category));
+  add(WEIGHTS.category, sharedCategory ? 1 : 0, sharedCategory && {
+    code: 'SAME_CATEGORY',
+    params: { category: sharedCategory.category }
+  });
+
+  const preferred = new Set(profile.preferred_categories || []);
+  const candidatePreferred = new Set(candidate.preferred_categories || []);
+  const sharedInterests = [...preferred].filter(c => candidatePreferred.has(c));
+  const allInterests = new Set([...preferred, ...candidatePreferred]);
+  add(WEIGHTS.interests, allInterests.size > 0 ? sharedInterests.length / allInterests.size : 0, {
+    code: 'SHARED_INTERESTS',
+    params: { categories: sharedInterests.join(', ') }
+  });
+
+  // Within 12 hours of each other at most; closer is better
+  const offsetHours = Math.abs(getUtcOffsetMinutes(profile.timezone, now) - getUtcOffsetMinutes(candidate.timezone, now)) / 60;
+  const hoursApart = Math.min(offsetHours, 24 - offsetHours);
+  add(WEIGHTS.timezone, 1 - hoursApart / 12, hoursApart === 0
+    ? { code: 'SAME_TIMEZONE' }
+    : { code: 'NEARBY_TIMEZONE', params: { hours: Math.round(hoursApart * 10) / 10 } });
+
+  // Local times of day, so early birds match early birds wherever they live
+  if (activity.typicalMinutes !== null && candidateActivity.typicalMinutes !== null) {
+    const difference = Math.abs(activity.typicalMinutes - candidateActivity.typicalMinutes);
+    const minutesApart = Math.min(difference, 24 * 60 - difference);
+    add(WEIGHTS.checkInTime, Math.max(0, 1 - minutesApart / 240), {
+      code: 'SIMILAR_CHECKIN_TIME',
+      params: { time: formatMinutes(candidateActivity.typicalMinutes) }
+    });
+  }
+
+  if (activity.completionRate !== null && candidateActivity.completionRate !== null) {
+    add(WEIGHTS.consistency, 1 - Math.abs(activity.completionRate - candidateActivity.completionRate), {
+      code: 'SIMILAR_CONSISTENCY'
+    });
+  }
+
+  return { score: Math.round(score * 100), reasons };
+}
+
+function explain(locale: Locale, reasons: Reason[]): { codes: MatchReasonCode[]; explanation: string } {
+  const top = [...reasons].sort((a, b) => b.weight - a.weight).slice(0, MAX_REASONS);
+  const shown = top.length > 0 ? top : [{ code: 'LOOKING_FOR_PARTNER' as const, weight: 0 }];
+
+  return {
+    codes: shown.map(r => r.code),
+    explanation: shown.map(r => translateMatchReason(locale, r.code, r.params)).join('. ') + '.'
+  };
+}
+
+// Users with visible habits ranked by how well they'd suit the user as a
+// partner. Current partners, anyone with a pending request to or from the
+// user and anyone on either side of a block are left out. Candidates are
+// drawn from the newest habits in the requested category, or else in the
+// user's own and preferred categories, before anything is scored.
+export async function findPartnerMatches(
+  userId: string,
+  options: { category?: string; page: number; limit: number; locale: Locale },
+  now: Date = new Date()
+): Promise<MatchPage> {
+  const { category, page, limit, locale } = options;
+
+  const profile = await repositories.profiles.findById(userId);
+  if (!profile) {
+    return { items: [], page, limit, total: 0, has_more: false };
+  }
+
+  const ownHabits = await repositories.habits.listActive(userId);
+  const categories = new Set(ownHabits.map(h => h.category));
+  if (category) categories.add(category);
+
+  const partnerships = [
+    ...await repositories.partnerships.listAcceptedForUser(userId),
+    ...await repositories.partnerships.listPendingForUser(userId)
+  ];
+  const excluded = new Set([
+    userId,
+    ...partnerships.flatMap(p => [p.requester_id, p.receiver_id]),
+    ...await getBlockedUserIds(userId)
+  ]);
+
+  // Users with no habits or interests yet see the newest habits of any kind
+  const candidateCategories = category
+    ? [category]
+    : Array.from(new Set([...categories, ...(profile.preferred_categories || [])]));
+  const habits = await repositories.habits.listVisible(Array.from(excluded), MAX_CANDIDATE_HABITS, candidateCategories);
+
+  const habitsByUser = new Map<string, Habit[]>();
+  for (const habit of habits) {
+    habitsByUser.set(habit.user_id, [...(habitsByUser.get(habit.user_id) || []), habit]);
+  }
+
+  const candidates = await repositories.profiles.findByIds(Array.from(habitsByUser.keys()));
+
+  if (candidates.length === 0) {
+    return { items: [], page, limit, total: 0, has_more: false };
+  }
+
+  // Each user's routine in their own local days
+  const today = getLocalDate(profile.timezone, now);
+  const from = addDays(today, -(ACTIVITY_WINDOW_DAYS - 1));
+  const checkIns = await repositories.checkIns.listForUsers(
+    [userId, ...candidates.map(c => c.id)],
+    { from: addDays(from, -1), to: addDays(today, 1) }
+  );
+
+  const activity = getActivity(
+    checkIns.filter(c => c.user_id === userId && c.date >= from && c.date <= today),
+    from,
+    today,
+    earliestStart(ownHabits)
+  );
+
+  const ranked = candidates.map(candidate => {
+    const candidateHabits = habitsByUser.get(candidate.id)!;
+    const candidateToday = getLocalDate(candidate.timezone, now);
+    const candidateFrom = addDays(candidateToday, -(ACTIVITY_WINDOW_DAYS - 1));
+
+    // Only check-ins for habits the candidate shares count
+    const visibleIds = new Set(candidateHabits.map(h => h.id));
+    const candidateActivity = getActivity(
+      checkIns.filter(c => visibleIds.has(c.habit_id) && c.date >= candidateFrom && c.date <= candidateToday),
+      candidateFrom,
+      candidateToday,
+      earliestStart(candidateHabits)
+    );
+
+    const { score, reasons } = scoreCandidate(profile, candidate, categories, candidateHabits, activity, candidateActivity, now);
+    const { codes, explanation } = explain(locale, reasons);
+
+    return {
+      user_id: candidate.id,
+      display_name: candidate.display_name || 'Unknown',
+      score,
+      reasons: codes,
+      explanation,
+      habits: candidateHabits.map(h => ({
+        habit_id: h.id,
+        habit_name: h.habit_name,
+        category: h.category,
+        privacy_setting: h.privacy_setting
+      }))
+    };
+  });
+
+  // Ties go to the user ID so pages stay stable between requests
+  ranked.sort((a, b) => b.score - a.score || a.user_id.localeCompare(b.user_id));
+
+  const start = (page - 1) * limit;
+  return {
+    items: ranked.slice(start, start + limit),
+    page,
+    limit,
+    total: ranked.length,
+    has_more: start + limit < ranked.length
+  };
+}
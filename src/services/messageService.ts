@@ -0,0 +1,35 @@
+import { Message, repositories } from '../repositories';
+import { isBlockedBetween } from './blockService';
+import { createNotification } from './notificationService';
+import { publishEvent } from './realtimeService';
+
+// Tells the receiver about a message they can now see
+export async function notifyMessageReceived(message: Message) {
+  const senderProfile = await repositories.profiles.findById(message.from_user_id);
+
+  await publishEvent(message.to_user_id, 'message', {
+    ...message,
+    from_user: { display_name: senderProfile?.display_name }
+  });
+
+  await createNotification({
+    user_id: message.to_user_id,
+    type: 'encouragement',
+    title: 'New Encouragement',
+    message: `${senderProfile?.display_name || 'Your partner'} sent you encouragement!`
+  });
+}
+
+// Whether a held message can still be delivered: its partnership has to be
+// active and neither user may have blocked the other since it was sent
+export async function canDeliverHeldMessage(message: Message): Promise<boolean> {
+  const partnership = await repositories.partnerships.findById(message.partnership_id);
+  if (!partnership || partnership.status !== 'accepted') return false;
+
+  return !await isBlockedBetween(message.from_user_id, message.to_user_id);
+}
+
+// Held and rejected messages are only shown to their sender
+export function isVisibleTo(message: Message, userId: string): boolean {
+  return message.from_user_id === userId || (message.moderation_status || 'approved') === 'approved';
+}
@@ -0,0 +1,9 @@
+import { NewRow, Notification, repositories } from '../repositories';
+import { publishEvent } from './realtimeService';
+
+// Stores a notification and pushes it to the user's open streams
+export async function createNotification(notification: Omit<NewRow<Notification>, 'is_read'>): Promise<Notification> {
+  const created = await repositories.notifications.create(notification);
+  await publishEvent(created.user_id, 'notification', created);
+  return created;
+}
@@ -0,0 +1,75 @@
+import { CheckIn, Nudge, Profile, repositories } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+import { isValidTimeOfDay, isWithinTimeWindow } from './dateService';
+
+interface NudgeTotals {
+  nudges: number;
+  // Receiver completed a check-in later that day
+  checked_in: number;
+  check_in_rate: number;
+  avg_minutes_to_check_in: number | null;
+}
+
+export function isInQuietHours(profile: Profile | null, localMinutes: number): boolean {
+  if (!profile?.quiet_hours_start || !profile.quiet_hours_end) return false;
+  return isWithinTimeWindow(localMinutes, profile.quiet_hours_start, profile.quiet_hours_end);
+}
+
+// Both times are needed to set quiet hours; both null turns them off
+export function parseQuietHours(
+  start: unknown,
+  end: unknown
+): { value?: { start: string | null; end: string | null }; error?: ApiError } {
+  if (start === null && end === null) {
+    return { value: { start: null, end: null } };
+  }
+  if (!isValidTimeOfDay(start) || !isValidTimeOfDay(end) || start === end) {
+    return { error: apiError('INVALID_QUIET_HOURS') };
+  }
+  return { value: { start, end } };
+}
+
+function summarize(nudges: Nudge[], checkIns: CheckIn[]): NudgeTotals {
+  let checkedIn = 0;
+  let minutes = 0;
+
+  for (const nudge of nudges) {
+    const answer = checkIns.find(c =>
+      c.user_id === nudge.to_user_id && c.date === nudge.date && c.completed && c.created_at! >= nudge.created_at!
+    );
+    if (!answer) continue;
+
+    checkedIn++;
+    minutes += (Date.parse(answer.created_at!) - Date.parse(nudge.created_at!)) / 60000;
+  }
+
+  return {
+    nudges: nudges.length,
+    checked_in: checkedIn,
+    check_in_rate: nudges.length > 0 ? Math.round((checkedIn / nudges.length) * 100) / 100 : 0,
+    avg_minutes_to_check_in: checkedIn > 0 ? Math.round(minutes / checkedIn) : null
+  };
+}
+
+// How often nudges since the given time were followed by a check-in, for one
+// user (split into sent and received) or everyone
+export async function getNudgeReport(since: Date, userId?: string) {
+  const nudges = await repositories.nudges.listSince(since, userId);
+
+  const dates = nudges.map(n => n.date).sort();
+  const checkIns = nudges.length > 0
+    ? await repositories.checkIns.listForUsers(
+      Array.from(new Set(nudges.map(n => n.to_user_id))),
+      { from: dates[0], to: dates[dates.length - 1] }
+    )
+    : [];
+
+  if (!userId) {
+    return { totals: summarize(nudges, checkIns) };
+  }
+
+  return {
+    sent: summarize(nudges.filter(n => n.from_user_id === userId), checkIns),
+    received: summarize(nudges.filter(n => n.to_user_id === userId), checkIns)
+  };
+}
@@ -0,0 +1,179 @@
+import { CheckIn, Habit, Partnership, repositories } from '../repositories';
+import { addDays, daysBetween, getLocalDate, getWeekStart } from './dateService';
+import { getHabitStats } from './streakService';
+
+interface MemberStats {
+  user_id: string;
+  display_name: string;
+  // Best current streak across the habits they share
+  current_streak: number;
+  habits: { habit_id: string; habit_name: string; category: string; current_streak: number; longest_streak: number }[];
+  // Days both checked in on which this member was first
+  checked_in_first: number;
+  checked_in_first_share: number;
+  messages_sent: number;
+  nudges_sent: number;
+}
+
+interface WeekStats {
+  days_completed: number;
+  check_ins: number;
+}
+
+export interface PartnershipWeek {
+  week_start: string;
+  // Days of the week that fall within the partnership so far
+  days: number;
+  you: WeekStats;
+  partner: WeekStats;
+  joint_days: number;
+}
+
+export interface PartnershipDashboard {
+  partnership: { id: string; accepted_at: string | null | undefined; days: number };
+  you: MemberStats;
+  partner: MemberStats;
+  joint_streak: { current: number; longest: number; days_both_completed: number };
+  weeks: PartnershipWeek[];
+}
+
+function isShared(habit: Habit): boolean {
+  return ['public', 'partner-only'].includes(habit.privacy_setting);
+}
+
+function earliestCheckIn(checkIns: CheckIn[], userId: string, date: string): string | null {
+  return checkIns
+    .filter(c => c.user_id === userId && c.date === date && !c.backfilled)
+    .reduce<string | null>((earliest, c) => !earliest || c.created_at! < earliest ? c.created_at! : earliest, null);
+}
+
+// Consecutive days on which both completed a shared habit. Days from the
+// earlier of the two local todays on are still open: they extend the streak
+// once both are done but don't break it before then.
+function countJointStreaks(jointDates: Set<string>, start: string, openFrom: string, latest: string) {
+  let current = 0;
+  for (let date = latest; date >= start; date = addDays(date, -1)) {
+    if (jointDates.has(date)) current++;
+    else if (date < openFrom) break;
+  }
+
+  let longest = 0;
+  let run = 0;
+  for (let date = start; date <= latest; date = addDays(date, 1)) {
+    run = jointDates.has(date) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  return { current, longest };
+}
+
+// Both partners' progress side by side since the partnership began, from the
+// point of view of userId. Only habits each shares with partners count, and
+// every date is the member's own local day.
+export async function getPartnershipDashboard(
+  partnership: Partnership,
+  userId: string,
+  now: Date = new Date()
+): Promise<PartnershipDashboard> {
+  const partnerId = partnership.requester_id === userId ? partnership.receiver_id : partnership.requester_id;
+  const userIds = [userId, partnerId];
+
+  const profiles = await repositories.profiles.findByIds(userIds);
+  const timezoneOf = (id: string) => profiles.find(p => p.id === id)?.timezone;
+
+  const acceptedAt = new Date(partnership.accepted_at || partnership.created_at || now);
+  const start = userIds.map(id => getLocalDate(timezoneOf(id), acceptedAt)).sort()[0];
+  const todays = new Map(userIds.map(id => [id, getLocalDate(timezoneOf(id), now)]));
+  const [openFrom, latest] = [...todays.values()].sort();
+
+  const habitsByUser = new Map<string, Habit[]>();
+  for (const id of userIds) {
+    habitsByUser.set(id, (await repositories.habits.listActive(id)).filter(isShared));
+  }
+  const sharedIds = new Set([...habitsByUser.values()].flat().map(h => h.id));
+
+  const checkIns = (await repositories.checkIns.listForUsers(userIds, { from: start, to: latest }))
+    .filter(c => c.completed && sharedIds.has(c.habit_id) && c.date <= todays.get(c.user_id)!);
+
+  const completedDates = (id: string) => new Set(checkIns.filter(c => c.user_id === id).map(c => c.date));
+  const userDates = completedDates(userId);
+  const partnerDates = completedDates(partnerId);
+  const jointDates = new Set([...userDates].filter(date => partnerDates.has(date)));
+
+  // Who got there first on days both checked in. Backfilled check-ins were
+  // logged after the fact, so days that depend on one aren't compared.
+  const firsts = new Map(userIds.map(id => [id, 0]));
+  let compared = 0;
+  for (const date of jointDates) {
+    const userTime = earliestCheckIn(checkIns, userId, date);
+    const partnerTime = earliestCheckIn(checkIns, partnerId, date);
+    if (!userTime || !partnerTime) continue;
+
+    compared++;
+    const first = userTime <= partnerTime ? userId : partnerId;
+    firsts.set(first, firsts.get(first)! + 1);
+  }
+
+  const nudges = (await repositories.nudges.listSince(acceptedAt, userId))
+    .filter(n => n.partnership_id === partnership.id);
+
+  const memberStats = async (id: string): Promise<MemberStats> => {
+    const habits = [];
+    for (const habit of habitsByUser.get(id)!) {
+      const stats = await getHabitStats(habit, todays.get(id)!);
+      habits.push({
+        habit_id: habit.id,
+        habit_name: habit.habit_name,
+        category: habit.category,
+        current_streak: stats.current_streak,
+        longest_streak: stats.longest_streak
+      });
+    }
+
+    return {
+      user_id: id,
+      display_name: profiles.find(p => p.id === id)?.display_name || 'Unknown',
+      current_streak: Math.max(0, ...habits.map(h => h.current_streak)),
+      habits,
+      checked_in_first: firsts.get(id)!,
+      checked_in_first_share: compared > 0 ? Math.round((firsts.get(id)! / compared) * 100) / 100 : 0,
+      messages_sent: await repositories.messages.countDelivered(partnership.id, id),
+      nudges_sent: nudges.filter(n => n.from_user_id === id).length
+    };
+  };
+
+  const weekStats = (id: string, dates: Set<string>, from: string, to: string): WeekStats => ({
+    days_completed: [...dates].filter(date => date >= from && date <= to).length,
+    check_ins: checkIns.filter(c => c.user_id === id && c.date >= from && c.date <= to).length
+  });
+
+  const weeks: PartnershipWeek[] = [];
+  for (let weekStart = getWeekStart(start); weekStart <= latest; weekStart = addDays(weekStart, 7)) {
+    const from = weekStart < start ? start : weekStart;
+    const weekEnd = addDays(weekStart, 6);
+    const to = weekEnd > latest ? latest : weekEnd;
+
+    weeks.push({
+      week_start: weekStart,
+      days: daysBetween(from, to) + 1,
+      you: weekStats(userId, userDates, from, to),
+      partner: weekStats(partnerId, partnerDates, from, to),
+      joint_days: [...jointDates].filter(date => date >= from && date <= to).length
+    });
+  }
+
+  return {
+    partnership: {
+      id: partnership.id,
+      accepted_at: partnership.accepted_at,
+      days: daysBetween(start, latest) + 1
+    },
+    you: await memberStats(userId),
+    partner: await memberStats(partnerId),
+    joint_streak: {
+      ...countJointStreaks(jointDates, start, openFrom, latest),
+      days_both_completed: jointDates.size
+    },
+    weeks
+  };
+}
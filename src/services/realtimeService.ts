@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import cron from 'node-cron';
+import { CheckIn, Habit, RealtimeEvent, RealtimeEventType, repositories } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+
+export const MAX_EVENT_PAGE_SIZE = 100;
+const RETENTION_DAYS = parseInt(process.env.REALTIME_RETENTION_DAYS || '7');
+
+export type EventListener = (event: RealtimeEvent) => void;
+
+// Streams open in this process, keyed by user ID. Events are stored before
+// they are pushed, so a client that was disconnected (or connected to another
+// instance) picks them up by resuming from its cursor.
+const listeners = new EventEmitter();
+listeners.setMaxListeners(0);
+
+// Best effort: a failed push never fails the request that caused it
+export async function publishEvent(
+  userId: string,
+  type: RealtimeEventType,
+  data: Record<string, any>
+): Promise<RealtimeEvent | null> {
+  try {
+    const event = await repositories.realtimeEvents.create({ user_id: userId, type, data });
+    listeners.emit(userId, event);
+    return event;
+  } catch (error) {
+    console.error(`Error publishing ${type} event:`, error);
+    return null;
+  }
+}
+
+// Returns a function that stops listening
+export function subscribe(userId: string, listener: EventListener): () => void {
+  listeners.on(userId, listener);
+  return () => {
+    listeners.off(userId, listener);
+  };
+}
+
+// A cursor is the seq of the last event the client received
+export function parseCursor(value: unknown): { value?: number; error?: ApiError } {
+  if (value === undefined || value === '') return {};
+
+  const cursor = Number(value);
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    return { error: apiError('INVALID_CURSOR') };
+  }
+  return { value: cursor };
+}
+
+// Tells each partner that the user just completed a habit. Private habits
+// stay private, and backfilled days aren't news.
+async function notifyPartnersOfCheckIn(habit: Habit, checkIn: CheckIn) {
+  if (!['public', 'partner-only'].includes(habit.privacy_setting) || checkIn.backfilled) return;
+
+  const partnerships = await repositories.partnerships.listAcceptedForUser(checkIn.user_id);
+
+  for (const partnership of partnerships) {
+    const partnerId = partnership.requester_id === checkIn.user_id
+      ? partnership.receiver_id
+      : partnership.requester_id;
+
+    await publishEvent(partnerId, 'partner-checkin', {
+      partnership_id: partnership.id,
+      partner_id: checkIn.user_id,
+      habit_id: habit.id,
+      habit_name: habit.habit_name,
+      category: habit.category,
+      date: checkIn.date,
+      check_in_time: checkIn.check_in_time
+    });
+  }
+}
+
+// Runs in the background so the check-in response isn't held up
+export function queuePartnerCheckInEvents(habit: Habit, checkIn: CheckIn) {
+  notifyPartnersOfCheckIn(habit, checkIn).catch(error => {
+    console.error(`Error sending check-in events for habit ${habit.id}:`, error);
+  });
+}
+
+export async function pruneEvents(now: Date = new Date()) {
+  try {
+    await repositories.realtimeEvents.deleteBefore(new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  } catch (error) {
+    console.error('Error pruning realtime events:', error);
+  }
+}
+
+export function startEventCleanupScheduler() {
+  // Cursors older than the retention window can't be resumed from
+  return cron.schedule('30 3 * * *', () => {
+    pruneEvents();
+  });
+}
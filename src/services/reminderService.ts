@@ -0,0 +1,91 @@
+import cron from 'node-cron';
+import { Profile, repositories } from '../repositories';
+import { addDays, getLocalDateTime, getLocalDayStart } from './dateService';
+import { createNotification } from './notificationService';
+import { isDueOn, normalizeSchedule } from './scheduleService';
+import { getStreakOptions } from './streakService';
+
+let isRunning = false;
+
+function parseReminderTime(reminderTime: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(reminderTime);
+  if (!match) return null;
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+async function processReminder(profile: Profile, now: Date) {
+  const reminderMinutes = parseReminderTime(profile.reminder_time || '');
+  if (reminderMinutes === null) return;
+
+  const local = getLocalDateTime(profile.timezone, now);
+
+  // Not due yet today. Anything past the reminder time is still due, so a
+  // restart that skips the exact minute catches up on the next tick.
+  if (local.minutes < reminderMinutes) return;
+
+  // Skip if a reminder was already sent today (survives process restarts)
+  const localMidnight = getLocalDayStart(profile.timezone, local.date);
+  const alreadyReminded = await repositories.notifications.existsSince(profile.id, 'reminder', localMidnight);
+  if (alreadyReminded) return;
+
+  const habits = await repositories.habits.listActive(profile.id);
+  if (habits.length === 0) return;
+
+  // A week back, which N-times-per-week habits need to tell whether today is due
+  const recentCheckIns = await repositories.checkIns.listForUser(profile.id, {
+    from: addDays(local.date, -6),
+    to: local.date
+  });
+
+  // Habits not checked in today that are due today
+  const pendingHabits = [];
+  for (const habit of habits) {
+    const checkIns = recentCheckIns.filter(c => c.habit_id === habit.id);
+    if (checkIns.some(c => c.date === local.date)) continue;
+
+    const completedDates = new Set(checkIns.filter(c => c.completed).map(c => c.date));
+    const options = await getStreakOptions(habit);
+    if (isDueOn(normalizeSchedule(habit.schedule), habit.start_date, local.date, completedDates, options)) {
+      pendingHabits.push(habit);
+    }
+  }
+
+  if (pendingHabits.length === 0) return;
+
+  const habitList = pendingHabits.map(h => `"${h.habit_name}"`).join(', ');
+
+  await createNotification({
+    user_id: profile.id,
+    type: 'reminder',
+    title: 'Time to Check In',
+    message: `Don't forget to check in for ${habitList} today!`
+  });
+}
+
+export async function runReminders(now: Date = new Date()) {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const profiles = await repositories.profiles.findWithReminders();
+
+    for (const profile of profiles) {
+      try {
+        await processReminder(profile, now);
+      } catch (reminderError) {
+        console.error(`Error sending reminder to user ${profile.id}:`, reminderError);
+      }
+    }
+  } catch (error) {
+    console.error('Error running reminders:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startReminderScheduler() {
+  // Check every minute so each user's local reminder time is honoured
+  return cron.schedule('* * * * *', () => {
+    runReminders();
+  });
+}
@@ -0,0 +1,53 @@
+import { ReportReason, repositories } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+
+export const REPORT_REASONS: ReportReason[] = ['spam', 'harassment', 'inappropriate', 'impersonation', 'other'];
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export interface ReportInput {
+  reason: ReportReason;
+  details: string | null;
+  message_id: string | null;
+  partnership_id: string | null;
+}
+
+export function parseReport(body: any): { value?: ReportInput; error?: ApiError } {
+  const { reason, details, message_id, partnership_id } = body;
+
+  if (!REPORT_REASONS.includes(reason)) {
+    return { error: apiError('INVALID_REPORT_REASON', { reasons: REPORT_REASONS.join(', ') }) };
+  }
+  if (details !== undefined && details !== null &&
+      (typeof details !== 'string' || details.length > MAX_REPORT_DETAILS_LENGTH)) {
+    return { error: apiError('INVALID_REPORT_DETAILS', { max: MAX_REPORT_DETAILS_LENGTH }) };
+  }
+
+  return {
+    value: {
+      reason,
+      details: typeof details === 'string' && details.trim() ? details.trim() : null,
+      message_id: typeof message_id === 'string' && message_id ? message_id : null,
+      partnership_id: typeof partnership_id === 'string' && partnership_id ? partnership_id : null
+    }
+  };
+}
+
+// A message or partnership given as context has to be between the reporter
+// and the reported user, so reports can't point moderators at other people's
+// conversations
+export async function isValidReportContext(reporterId: string, reportedUserId: string, input: ReportInput): Promise<boolean> {
+  const pair = [reporterId, reportedUserId].sort().join(':');
+
+  if (input.message_id) {
+    const message = await repositories.messages.findById(input.message_id);
+    if (!message || [message.from_user_id, message.to_user_id].sort().join(':') !== pair) return false;
+    if (input.partnership_id && message.partnership_id !== input.partnership_id) return false;
+  }
+
+  if (input.partnership_id) {
+    const partnership = await repositories.partnerships.findById(input.partnership_id);
+    if (!partnership || [partnership.requester_id, partnership.receiver_id].sort().join(':') !== pair) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,278 @@
+import { StreakCheckpoint } from '../repositories';
+import { ApiError, apiError } from '../i18n';
+import { addDays, DAY_NAMES, daysBetween, getDayOfWeek } from './dateService';
+
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'times_per_week'; times: number }
+  | { type: 'interval'; every: number };
+
+export type DayStatus = 'completed' | 'missed' | 'rest' | 'frozen';
+
+export interface StreakOptions {
+  restDates?: Set<string>;
+  freezeDates?: Set<string>;
+  autoFreeze?: boolean;
+}
+
+export interface StreakHistory {
+  // From the day after base (or the start date without one) through today
+  statuses: Map<string, DayStatus>;
+  freezeBalance: number;
+  freezesEarned: number;
+  freezesUsed: number;
+  longestStreak: number;
+  totalCheckins: number;
+  // Due days that are settled: past ones, and today once completed
+  dueDays: number;
+  completedDueDays: number;
+  // The checkpoint the walk resumed from, if any
+  base: StreakCheckpoint | null;
+  // The newest checkpoint: the one asked for if it was walked, else base
+  checkpoint: StreakCheckpoint | null;
+}
+
+export const DEFAULT_SCHEDULE: HabitSchedule = { type: 'daily' };
+
+// How many days back a check-in may be logged when the habit doesn't say
+export const DEFAULT_GRACE_DAYS = 2;
+export const MAX_GRACE_DAYS = 7;
+
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_FREEZE_BALANCE = 3;
+
+// Validates a schedule from a request body. Weekdays use 0 = Sunday.
+export function parseSchedule(input: any): { schedule?: HabitSchedule; error?: ApiError } {
+  if (!input || typeof input !== 'object') {
+    return { error: apiError('SCHEDULE_NOT_OBJECT') };
+  }
+
+  switch (input.type) {
+    case 'daily':
+      return { schedule: { type: 'daily' } };
+
+    case 'weekdays': {
+      const days = input.days;
+      if (!Array.isArray(days) || days.length === 0 ||
+          !days.every((d: any) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+        return { error: apiError('INVALID_WEEKDAYS') };
+      }
+      const uniqueDays = Array.from(new Set<number>(days)).sort((a, b) => a - b);
+      return { schedule: { type: 'weekdays', days: uniqueDays } };
+    }
+
+    case 'times_per_week': {
+      const times = input.times;
+      if (!Number.isInteger(times) || times < 1 || times > 7) {
+        return { error: apiError('INVALID_TIMES_PER_WEEK') };
+      }
+      return { schedule: { type: 'times_per_week', times } };
+    }
+
+    case 'interval': {
+      const every = input.every;
+      if (!Number.isInteger(every) || every < 1 || every > 365) {
+        return { error: apiError('INVALID_INTERVAL') };
+      }
+      return { schedule: { type: 'interval', every } };
+    }
+
+    default:
+      return { error: apiError('INVALID_SCHEDULE_TYPE') };
+  }
+}
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case 'weekdays':
+      return `every ${schedule.days.map(d => DAY_NAMES[d]).join(', ')}`;
+    case 'times_per_week':
+      return `${schedule.times} times per week`;
+    case 'interval':
+      return schedule.every === 1 ? 'daily' : `every ${schedule.every} days`;
+    default:
+      return 'daily';
+  }
+}
+
+export function isValidGraceDays(graceDays: any): boolean {
+  return Number.isInteger(graceDays) && graceDays >= 0 && graceDays <= MAX_GRACE_DAYS;
+}
+
+// Habits created before schedules existed have no schedule and are daily
+export function normalizeSchedule(schedule: any): HabitSchedule {
+  if (!schedule) return DEFAULT_SCHEDULE;
+  return parseSchedule(schedule).schedule || DEFAULT_SCHEDULE;
+}
+
+// Whether a habit with a fixed schedule is due on the given date.
+// N-times-per-week habits have no fixed days; see getDayStatuses.
+function isFixedDueDay(schedule: HabitSchedule, startDate: string, date: string): boolean {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.includes(getDayOfWeek(date));
+    case 'interval':
+      return daysBetween(startDate, date) % schedule.every === 0;
+    default:
+      return true;
+  }
+}
+
+// Classifies each day in [from, to] for a habit. Days before the start date
+// and declared rest days are rest days. For N-times-per-week habits a day
+// without a completion is a rest day while the rolling 7-day window ending on
+// it still leaves room to hit the target, and a miss once it doesn't.
+export function getDayStatuses(
+  schedule: HabitSchedule,
+  startDate: string,
+  from: string,
+  to: string,
+  completedDates: Set<string>,
+  restDates: Set<string> = new Set()
+): Map<string, DayStatus> {
+  const statuses = new Map<string, DayStatus>();
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (date < startDate) {
+      statuses.set(date, 'rest');
+    } else if (completedDates.has(date)) {
+      statuses.set(date, 'completed');
+    } else if (restDates.has(date)) {
+      statuses.set(date, 'rest');
+    } else if (schedule.type === 'times_per_week') {
+      const allowedRestDays = 7 - schedule.times;
+      let restDays = 0;
+      for (let i = 0; i < 7; i++) {
+        const windowDate = addDays(date, -i);
+        if (windowDate >= startDate && !completedDates.has(windowDate) && !restDates.has(windowDate)) {
+          restDays++;
+        }
+      }
+      statuses.set(date, restDays <= allowedRestDays ? 'rest' : 'missed');
+    } else {
+      statuses.set(date, isFixedDueDay(schedule, startDate, date) ? 'missed' : 'rest');
+    }
+  }
+
+  return statuses;
+}
+
+// Whether the habit still calls for a check-in on the date, by the same
+// rules the streak engine uses: a day it would count as missed if nothing
+// were logged. Rest days, frozen days and days before the start date aren't.
+export function isDueOn(
+  schedule: HabitSchedule,
+  startDate: string,
+  date: string,
+  completedDates: Set<string>,
+  options: StreakOptions = {}
+): boolean {
+  if (options.freezeDates?.has(date)) return false;
+  return getDayStatuses(schedule, startDate, date, date, completedDates, options.restDates).get(date) === 'missed';
+}
+
+// Walks the history from the start date, or from the day after base, so
+// freeze tokens are earned and spent in order. A token is earned every
+// FREEZE_EARN_INTERVAL completed days of a run. Past missed days are frozen
+// when the user chose to spend a token on them, or automatically if the
+// habit allows it, as long as a token is available. Today is still open and
+// is never frozen. The walk's state at the end of checkpointDate is kept so
+// a later walk can resume from it.
+export function buildStreakHistory(
+  schedule: HabitSchedule,
+  startDate: string,
+  today: string,
+  completedDates: Set<string>,
+  options: StreakOptions = {},
+  base: StreakCheckpoint | null = null,
+  checkpointDate?: string
+): StreakHistory {
+  const from = base ? addDays(base.date, 1) : startDate;
+  const statuses = today >= from
+    ? getDayStatuses(schedule, startDate, from, today, completedDates, options.restDates)
+    : new Map<string, DayStatus>();
+  const freezeDates = options.freezeDates || new Set<string>();
+  const autoFreeze = options.autoFreeze ?? true;
+
+  let run = base?.run ?? 0;
+  let longest = base?.longest_streak ?? 0;
+  let total = base?.total_checkins ?? 0;
+  let dueDays = base?.due_days ?? 0;
+  let completedDueDays = base?.completed_due_days ?? 0;
+  let balance = base?.freeze_balance ?? 0;
+  let earned = base?.freezes_earned ?? 0;
+  let used = base?.freezes_used ?? 0;
+  let checkpoint = base;
+
+  for (const [date, status] of statuses) {
+    if (completedDates.has(date)) total++;
+
+    if (status === 'completed') {
+      run++;
+      longest = Math.max(longest, run);
+      dueDays++;
+      completedDueDays++;
+      if (run % FREEZE_EARN_INTERVAL === 0 && balance < MAX_FREEZE_BALANCE) {
+        balance++;
+        earned++;
+      }
+    } else if (status === 'missed' && date < today) {
+      if ((autoFreeze || freezeDates.has(date)) && balance > 0) {
+        statuses.set(date, 'frozen');
+        balance--;
+        used++;
+      } else {
+        run = 0;
+        dueDays++;
+      }
+    }
+
+    if (date === checkpointDate && date < today) {
+      checkpoint = {
+        date,
+        run,
+        longest_streak: longest,
+        total_checkins: total,
+        due_days: dueDays,
+        completed_due_days: completedDueDays,
+        freeze_balance: balance,
+        freezes_earned: earned,
+        freezes_used: used
+      };
+    }
+  }
+
+  return {
+    statuses,
+    freezeBalance: balance,
+    freezesEarned: earned,
+    freezesUsed: used,
+    longestStreak: longest,
+    totalCheckins: total,
+    dueDays,
+    completedDueDays,
+    base,
+    checkpoint
+  };
+}
+
+// Consecutive completed due days ending on the given day. Rest and frozen
+// days neither add to nor break the streak. A run reaching back past the
+// walked statuses continues into base.
+export function countCurrentStreak(
+  statuses: Map<string, DayStatus>,
+  through: string,
+  base: StreakCheckpoint | null = null
+): number {
+  const dates = Array.from(statuses.keys()).filter(date => date <= through).reverse();
+  let streak = 0;
+
+  for (const date of dates) {
+    const status = statuses.get(date);
+    if (status === 'missed') return streak;
+    if (status === 'completed') streak++;
+  }
+
+  return streak + (base && base.date <= through ? base.run : 0);
+}
@@ -0,0 +1,146 @@
+import { Habit, HabitStats, repositories, StreakCheckpoint } from '../repositories';
+import { addDays } from './dateService';
+import {
+  buildStreakHistory,
+  countCurrentStreak,
+  DayStatus,
+  MAX_GRACE_DAYS,
+  normalizeSchedule,
+  StreakHistory,
+  StreakOptions
+} from './scheduleService';
+
+// Days older than this can't change any more: check-ins are backdated at
+// most MAX_GRACE_DAYS and rest days are only declared ahead. Stored stats
+// keep a checkpoint here and refreshes replay only the days after it.
+const SETTLED_AFTER_DAYS = MAX_GRACE_DAYS + 1;
+
+// N-times-per-week days look back over a 7-day window
+const STATUS_LOOKBACK_DAYS = 6;
+
+export interface HabitStreakHistory extends StreakHistory {
+  completedDates: Set<string>;
+  options: StreakOptions;
+}
+
+export async function getCompletedDates(habitId: string, from?: string): Promise<Set<string>> {
+  if (!from) {
+    return new Set(await repositories.checkIns.listCompletedDates(habitId));
+  }
+
+  const checkIns = await repositories.checkIns.listForHabit(habitId, { from });
+  return new Set(checkIns.filter(c => c.completed).map(c => c.date));
+}
+
+// Declared rest days and manually spent freezes for a habit
+export async function getStreakOptions(habit: Habit): Promise<StreakOptions> {
+  const restDays = await repositories.checkIns.listRestDays(habit.id);
+  const freezes = await repositories.checkIns.listFreezes(habit.id);
+
+  return {
+    restDates: new Set(restDays.map(r => r.date)),
+    freezeDates: new Set(freezes.map(f => f.date)),
+    autoFreeze: habit.auto_freeze ?? true
+  };
+}
+
+// The whole history, or only the days after base when one is given
+export async function getStreakHistory(
+  habit: Habit,
+  today: string,
+  base: StreakCheckpoint | null = null
+): Promise<HabitStreakHistory> {
+  const completedDates = await getCompletedDates(
+    habit.id,
+    base ? addDays(base.date, 1 - STATUS_LOOKBACK_DAYS) : undefined
+  );
+  const options = await getStreakOptions(habit);
+  const history = buildStreakHistory(
+    normalizeSchedule(habit.schedule),
+    habit.start_date,
+    today,
+    completedDates,
+    options,
+    base,
+    addDays(today, -SETTLED_AFTER_DAYS)
+  );
+
+  return { ...history, completedDates, options };
+}
+
+// Last seven days oldest first: true/false for due days, null for rest and
+// frozen days
+export function getLastSevenDays(statuses: Map<string, DayStatus>, today: string): (boolean | null)[] {
+  const days: (boolean | null)[] = [];
+
+  for (let i = 6; i >= 0; i--) {
+    const status = statuses.get(addDays(today, -i));
+    days.push(status === 'completed' ? true : status === 'missed' ? false : null);
+  }
+
+  return days;
+}
+
+export function summarizeStreakHistory(habit: Habit, history: HabitStreakHistory, today: string): HabitStats {
+  return {
+    habit_id: habit.id,
+    user_id: habit.user_id,
+    as_of: today,
+    current_streak: countCurrentStreak(history.statuses, today, history.base),
+    longest_streak: history.longestStreak,
+    total_checkins: history.totalCheckins,
+    due_days: history.dueDays,
+    completed_due_days: history.completedDueDays,
+    freeze_balance: history.freezeBalance,
+    freezes_earned: history.freezesEarned,
+    freezes_used: history.freezesUsed,
+    last_seven_days: getLastSevenDays(history.statuses, today),
+    checkpoint: history.checkpoint
+  };
+}
+
+// A stored checkpoint can be resumed from if nothing on or before its day
+// changed and it still leaves the last seven days to be walked
+function usableCheckpoint(stats: HabitStats | null, today: string, changedFrom: string): StreakCheckpoint | null {
+  const checkpoint = stats?.checkpoint;
+  if (!checkpoint || checkpoint.date >= changedFrom || checkpoint.date > addDays(today, -SETTLED_AFTER_DAYS)) {
+    return null;
+  }
+  return checkpoint;
+}
+
+async function rebuildHabitStats(
+  habit: Habit,
+  today: string,
+  base: StreakCheckpoint | null
+): Promise<{ stats: HabitStats; history: HabitStreakHistory }> {
+  const history = await getStreakHistory(habit, today, base);
+  const stats = await repositories.habitStats.save(summarizeStreakHistory(habit, history, today));
+  return { stats, history };
+}
+
+// Brings a habit's stored stats up to date after a change to its history on
+// changedFrom (a check-in, freeze or rest day), replaying from the stored
+// checkpoint when the change is newer than it. Without changedFrom (schedule
+// or freeze settings changed) the whole history is rebuilt.
+export async function refreshHabitStats(
+  habit: Habit,
+  today: string,
+  changedFrom?: string
+): Promise<{ stats: HabitStats; history: HabitStreakHistory }> {
+  const cached = changedFrom ? await repositories.habitStats.findByHabit(habit.id) : null;
+  return rebuildHabitStats(habit, today, changedFrom ? usableCheckpoint(cached, today, changedFrom) : null);
+}
+
+// Stored stats hold for the day they were computed. A new day can break a
+// streak without any check-in, so older records are brought up to date on
+// read.
+export async function getHabitStats(habit: Habit, today: string): Promise<HabitStats> {
+  const cached = await repositories.habitStats.findByHabit(habit.id);
+  if (cached && cached.as_of === today) {
+    return cached;
+  }
+
+  const { stats } = await rebuildHabitStats(habit, today, usableCheckpoint(cached, today, today));
+  return stats;
+}
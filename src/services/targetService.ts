@@ -0,0 +1,96 @@
+import { ApiError, apiError } from '../i18n';
+
+export type Aggregation = 'sum' | 'max';
+
+export interface HabitTarget {
+  target_value: number | null;
+  unit: string | null;
+  aggregation: Aggregation | null;
+}
+
+export interface CheckInEntry {
+  value: number;
+  logged_at: string;
+}
+
+export interface QuantitySummary {
+  unit: string | null;
+  target_value: number;
+  aggregation: Aggregation;
+  total_value: number;
+  average_value: number;
+  target_percentage: number;
+}
+
+const VALID_AGGREGATIONS: Aggregation[] = ['sum', 'max'];
+
+// Validates the target fields of a habit request. A null target_value turns
+// the habit back into a plain done/not-done habit.
+export function parseTarget(input: any): { target?: HabitTarget; error?: ApiError } {
+  const { target_value, unit, aggregation } = input;
+
+  if (target_value === null) {
+    return { target: { target_value: null, unit: null, aggregation: null } };
+  }
+
+  if (typeof target_value !== 'number' || !isFinite(target_value) || target_value <= 0) {
+    return { error: apiError('INVALID_TARGET_VALUE') };
+  }
+
+  if (unit !== undefined && unit !== null && (typeof unit !== 'string' || unit.length > 20)) {
+    return { error: apiError('UNIT_TOO_LONG') };
+  }
+
+  if (aggregation !== undefined && !VALID_AGGREGATIONS.includes(aggregation)) {
+    return { error: apiError('INVALID_AGGREGATION') };
+  }
+
+  return {
+    target: {
+      target_value,
+      unit: unit || null,
+      aggregation: aggregation || 'sum'
+    }
+  };
+}
+
+export function isQuantitative(habit: any): boolean {
+  return habit.target_value !== null && habit.target_value !== undefined;
+}
+
+export function aggregateEntries(aggregation: Aggregation | null, entries: CheckInEntry[]): number {
+  if (entries.length === 0) return 0;
+  if (aggregation === 'max') {
+    return Math.max(...entries.map(e => e.value));
+  }
+  return entries.reduce((sum, e) => sum + e.value, 0);
+}
+
+export function getTargetPercentage(habit: any, value: number): number {
+  if (!isQuantitative(habit)) return 0;
+  return Math.round(Math.min(value / habit.target_value, 1) * 10000) / 100;
+}
+
+// Totals and averages over the days that have a logged value
+export function summarizeQuantities(habit: any, checkIns: { value?: number | null }[]): QuantitySummary | null {
+  if (!isQuantitative(habit)) return null;
+
+  const values = checkIns
+    .map(c => c.value)
+    .filter((v): v is number => typeof v === 'number');
+
+  const totalValue = values.reduce((sum, v) => sum + v, 0);
+  const averageValue = values.length > 0 ? totalValue / values.length : 0;
+  const averagePercentage = values.length > 0
+    ? values.reduce((sum, v) => sum + getTargetPercentage(habit, v), 0) / values.length
+    : 0;
+
+  return {
+    unit: habit.unit,
+    target_value: habit.target_value,
+    aggregation: habit.aggregation || 'sum',
+    total_value: Math.round(totalValue * 100) / 100,
+    average_value: Math.round(averageValue * 100) / 100,
+    target_percentage: Math.round(averagePercentage * 100) / 100
+  };
+}
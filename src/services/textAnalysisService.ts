@@ -0,0 +1,245 @@
+import { CheckIn, Reflection, repositories, Sentiment } from '../repositories';
+import { getOrCreateAiResponse } from './aiResponseService';
+import { getMonthlySummary, getTextAnalysis, MonthlySummaryContext, parseJsonReply } from './aiService';
+import { formatDate, getDaysInMonth } from './dateService';
+import { getUserLocale } from './localeService';
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 30;
+// Keeps the monthly prompt a reasonable size
+const MAX_SUMMARY_ENTRIES = 60;
+const MAX_ENTRY_LENGTH = 300;
+
+export interface TextTags {
+  sentiment: Sentiment;
+  obstacles: string[];
+  themes: string[];
+}
+
+const NO_TAGS = { sentiment: null, obstacles: null, themes: null, analyzed_at: null };
+
+function normalizeTags(value: any): string[] {
+  if (!Array.isArray(value)) return [];
+
+  const tags = value
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag && tag.length <= MAX_TAG_LENGTH);
+
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export function parseTextAnalysis(text: string): TextTags | null {
+  const parsed = parseJsonReply(text);
+  if (!parsed || !SENTIMENTS.includes(parsed.sentiment)) return null;
+
+  return {
+    sentiment: parsed.sentiment,
+    obstacles: normalizeTags(parsed.obstacles),
+    themes: normalizeTags(parsed.themes)
+  };
+}
+
+const MAX_QUEUED_ANALYSES = 20;
+
+// Records queued for analysis by this process, so overlapping reads don't
+// analyze the same text twice
+const queuedAnalyses = new Set<string>();
+
+// The tags for the text, or null when they couldn't be worked out
+async function analyzeText(
+  userId: string,
+  habitId: string,
+  source: 'check-in' | 'reflection',
+  recordId: string,
+  text: string
+): Promise<TextTags | null> {
+  try {
+    const { response } = await getOrCreateAiResponse({
+      userId,
+      habitId,
+      type: 'text-analysis',
+      context: { source, record_id: recordId },
+      cacheContext: { text },
+      generate: async () => {
+        const completion = await getTextAnalysis(text);
+        // Canned replies say nothing about this text, so they never become tags
+        const tags = completion.fallback ? null : parseTextAnalysis(completion.text);
+
+        // Unusable replies aren't cached so the next attempt asks again
+        return { ...completion, text: tags ? JSON.stringify(tags) : '', fallback: completion.fallback || !tags };
+      },
+      enforceQuota: false
+    });
+
+    return response?.ai_message ? JSON.parse(response.ai_message) : null;
+  } catch (error) {
+    console.error(`Error analyzing ${source} ${recordId}:`, error);
+    return null;
+  }
+}
+
+// Tags the check-in's notes. Removed notes clear any earlier tags so they're
+// never stale. Notes that couldn't be analyzed are left untagged but still
+// marked as analyzed, so they aren't sent again until they change.
+export async function analyzeCheckIn(checkIn: CheckIn): Promise<CheckIn> {
+  if (!checkIn.notes) {
+    return checkIn.analyzed_at ? repositories.checkIns.update(checkIn.id, NO_TAGS) : checkIn;
+  }
+
+  const tags = await analyzeText(checkIn.user_id, checkIn.habit_id, 'check-in', checkIn.id, checkIn.notes);
+  return repositories.checkIns.update(checkIn.id, { ...(tags || NO_TAGS), analyzed_at: new Date().toISOString() });
+}
+
+export async function analyzeReflection(reflection: Reflection): Promise<Reflection> {
+  if (!reflection.reflection_text) {
+    return reflection.analyzed_at ? repositories.reflections.update(reflection.id, NO_TAGS) : reflection;
+  }
+
+  const tags = await analyzeText(reflection.user_id, reflection.habit_id, 'reflection', reflection.id, reflection.reflection_text);
+  return repositories.reflections.update(reflection.id, { ...(tags || NO_TAGS), analyzed_at: new Date().toISOString() });
+}
+
+// Analysis runs after the response is sent; failures only leave the record untagged
+export function queueCheckInAnalysis(checkIn: CheckIn) {
+  analyzeCheckIn(checkIn).catch(error => console.error('Error analyzing check-in notes:', error));
+}
+
+export function queueReflectionAnalysis(reflection: Reflection) {
+  analyzeReflection(reflection).catch(error => console.error('Error analyzing reflection:', error));
+}
+
+// Queues analysis, one record at a time, of records with text that were
+// never analyzed, e.g. ones written before tagging existed. Reads use the
+// tags already stored and pick up the rest once they're done. Returns how
+// many records are still waiting.
+export function queueMissingTags(checkIns: CheckIn[], reflections: Reflection[]): number {
+  const untagged = [
+    ...checkIns.filter(c => c.notes && !c.analyzed_at).map(c => ({ id: c.id, analyze: () => analyzeCheckIn(c) })),
+    ...reflections
+      .filter(r => r.reflection_text && !r.analyzed_at)
+      .map(r => ({ id: r.id, analyze: () => analyzeReflection(r) }))
+  ];
+
+  const queued = untagged
+    .filter(record => !queuedAnalyses.has(record.id))
+    .slice(0, Math.max(0, MAX_QUEUED_ANALYSES - queuedAnalyses.size));
+  queued.forEach(record => queuedAnalyses.add(record.id));
+
+  (async () => {
+    for (const record of queued) {
+      try {
+        await record.analyze();
+      } catch (error) {
+        console.error('Error analyzing untagged record:', error);
+      } finally {
+        queuedAnalyses.delete(record.id);
+      }
+    }
+  })();
+
+  return untagged.length;
+}
+
+// Most mentioned first, ties alphabetically
+export function countTags(
+  records: { obstacles?: string[] | null; themes?: string[] | null }[],
+  key: 'obstacles' | 'themes',
+  limit: number
+): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const tag of record[key] || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, limit);
+}
+
+export function getTopObstacles(records: { obstacles?: string[] | null }[], limit = 3): string[] {
+  return countTags(records, 'obstacles', limit).map(t => t.tag);
+}
+
+// "What you wrote about" for a YYYY-MM month: check-in notes and weekly
+// reflections, their tags, and an AI summary
+export async function getMonthlyWritingSummary(userId: string, month: string, habitId?: string) {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const from = formatDate(year, monthNumber, 1);
+  const to = formatDate(year, monthNumber, getDaysInMonth(year, monthNumber));
+
+  const checkIns = (await repositories.checkIns.listForUser(userId, { from, to }))
+    .filter(c => c.notes && (!habitId || c.habit_id === habitId));
+  const reflections = (await repositories.reflections.listForUser(userId, habitId))
+    .filter(r => r.reflection_text && r.week_start_date >= from && r.week_start_date <= to);
+  const pendingAnalysis = queueMissingTags(checkIns, reflections);
+
+  const habitNames = new Map<string, string>();
+  for (const id of new Set([...checkIns, ...reflections].map(r => r.habit_id))) {
+    habitNames.set(id, (await repositories.habits.findById(id))?.habit_name || 'a habit');
+  }
+
+  const entries: MonthlySummaryContext['entries'] = [
+    ...checkIns.map(c => ({ date: c.date, kind: 'note' as const, habitName: habitNames.get(c.habit_id)!, text: c.notes! })),
+    ...reflections.map(r => ({
+      date: r.week_start_date,
+      kind: 'reflection' as const,
+      habitName: habitNames.get(r.habit_id)!,
+      text: r.reflection_text!
+    }))
+  ]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_SUMMARY_ENTRIES)
+    .map(e => ({ ...e, text: e.text.slice(0, MAX_ENTRY_LENGTH) }));
+
+  const tagged = [...checkIns, ...reflections];
+  const sentiment: { [key: string]: number } = {};
+  for (const value of SENTIMENTS) {
+    sentiment[value] = tagged.filter(r => r.sentiment === value).length;
+  }
+  const topObstacles = countTags(tagged, 'obstacles', 5);
+  const topThemes = countTags(tagged, 'themes', 5);
+
+  const summary = {
+    month,
+    habit_id: habitId || null,
+    entries: entries.length,
+    sentiment,
+    top_obstacles: topObstacles,
+    top_themes: topThemes,
+    // Entries whose tags aren't in the counts yet
+    pending_analysis: pendingAnalysis
+  };
+
+  // Nothing to summarize
+  if (entries.length === 0) {
+    return { summary: { ...summary, message: null }, cached: false };
+  }
+
+  const locale = await getUserLocale(userId);
+  const { response, cached, error } = await getOrCreateAiResponse({
+    userId,
+    habitId: habitId || null,
+    type: 'monthly-summary',
+    context: { month, habit_id: habitId || null, entries: entries.length },
+    cacheContext: { month, habit_id: habitId || null, entries, locale },
+    generate: () => getMonthlySummary({
+      locale,
+      month,
+      entries,
+      topObstacles: topObstacles.map(t => t.tag),
+      topThemes: topThemes.map(t => t.tag)
+    })
+  });
+
+  if (error) {
+    return { error };
+  }
+
+  return { summary: { ...summary, message: response!.ai_message }, cached };
+}